@@ -1,3 +1,34 @@
+import { rankDecision } from '../engine';
+
+const GEMINI_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent';
+
+export function refineMemoPrompt(rawText: string): string {
+  const safeRawText = (rawText || '').slice(0, 3000);
+  return `Refine this decision memo into clear professional prose. Always start numbered lists from 1. Use ## for section headers and ### for subsection headers. Return JSON only, no markdown:
+{"refined": "refined memo text here"}
+Memo: ${safeRawText}`;
+}
+
+// Shared with scripts/decide.ts, which calls Gemini directly instead of through this handler
+export async function generateJson(prompt: string, apiKey: string): Promise<any> {
+  const geminiRes = await fetch(`${GEMINI_URL}?key=${apiKey}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      contents: [{ parts: [{ text: prompt }] }]
+    }),
+  });
+  if (!geminiRes.ok) {
+    const errText = await geminiRes.text();
+    console.error('Gemini API error:', errText);
+    throw new Error(`Gemini error: ${geminiRes.status}`);
+  }
+  const geminiData = await geminiRes.json();
+  const text = geminiData.candidates?.[0]?.content?.parts?.[0]?.text || '';
+  const clean = text.replace(/```json\n?|\n?```/g, '').trim();
+  return JSON.parse(clean);
+}
+
 export default async function handler(req: any, res: any) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
@@ -28,8 +59,16 @@ Current alternatives: ${safeAlternatives}
 Suggest 3-5 additional creative alternatives not already listed. Return JSON only, no markdown:
 {"suggestions": ["alt1", "alt2", "alt3"], "rationale": "brief explanation"}`;
     } else if (action === 'generateScoringInsight') {
-      const { decision, rankings } = data;
-      const safeTop = (rankings?.[0]?.name || 'top option').slice(0, 500);
+      const { decision, scores } = data;
+      // Rank from the raw inputs rather than trusting client-supplied rankings
+      const rankings = rankDecision({
+        alternatives: Array.isArray(decision.alternatives) ? decision.alternatives : [],
+        criteria: Array.isArray(decision.criteria) ? decision.criteria : [],
+        scores: scores || decision.scores || {},
+        aggregation: decision.aggregation,
+        screening: decision.screening,
+      });
+      const safeTop = (rankings[0]?.name || 'top option').slice(0, 500);
       const safeStatement = (decision.statement || '').slice(0, 500);
       prompt = `You are a decision analyst. The top-ranked option is "${safeTop}" for this decision: "${safeStatement}".
 Provide a 2-3 sentence insight. Return JSON only, no markdown:
@@ -42,33 +81,11 @@ Provide a 2-3 sentence insight. Return JSON only, no markdown:
 Identify 3-4 key risks. Return JSON only, no markdown:
 {"risks": [{"title": "risk name", "description": "what could go wrong", "likelihood": "Low|Medium|High", "impact": "Low|Medium|High"}]}`;
     } else if (action === 'refineMemo') {
-      const { rawText } = data;
-      const safeRawText = (rawText || '').slice(0, 3000);
-      prompt = `Refine this decision memo into clear professional prose. Always start numbered lists from 1. Use ## for section headers and ### for subsection headers. Return JSON only, no markdown:
-{"refined": "refined memo text here"}
-Memo: ${safeRawText}`;
+      prompt = refineMemoPrompt(data.rawText);
     } else {
       return res.status(400).json({ error: 'Unknown action' });
     }
-    const geminiRes = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=${apiKey}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [{ parts: [{ text: prompt }] }]
-        }),
-      }
-    );
-    if (!geminiRes.ok) {
-      const errText = await geminiRes.text();
-      console.error('Gemini API error:', errText);
-      return res.status(500).json({ error: `Gemini error: ${geminiRes.status}` });
-    }
-    const geminiData = await geminiRes.json();
-    const text = geminiData.candidates?.[0]?.content?.parts?.[0]?.text || '';
-    const clean = text.replace(/```json\n?|\n?```/g, '').trim();
-    const parsed = JSON.parse(clean);
+    const parsed = await generateJson(prompt, apiKey);
     return res.status(200).json({ result: parsed });
   } catch (error: any) {
     console.error('Handler error:', error);
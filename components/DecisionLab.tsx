@@ -1,6 +1,114 @@
 import React, { useState, useReducer, useRef, useEffect, useMemo, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { geminiService } from '../services/geminiService';
-import { DecisionState, Alternative, Criterion, Risk, SimulationResult } from '../types';
+import {
+  StoredSession,
+  loadSession,
+  saveSession,
+  clearSession,
+  getDecision,
+  createDecision,
+  updateDecision,
+  listCustomTemplates,
+  saveCustomTemplate,
+  deleteCustomTemplate,
+} from '../services/decisionStorage';
+import {
+  FieldError,
+  exportDecision,
+  decisionFileName,
+  parseDecisionFile,
+  parseTemplateFile,
+} from '../services/decisionFile';
+import { buildShareUrl } from '../services/shareLink';
+import { runSimulationJob, SimulationRun } from '../services/simulationRunner';
+import {
+  DecisionState,
+  DecisionTemplate,
+  Alternative,
+  Criterion,
+  Risk,
+  SimulationResult,
+  OutcomeDistribution,
+  SimpleDistribution,
+  OutcomeComparison,
+  DriverSensitivity,
+  DistributionKind,
+  MetricSummary,
+  OutcomeUnit,
+  ScoreRange,
+  WeightMethod,
+  WeightElicitation,
+  AggregationMethod,
+  Constraint,
+  ConstraintKind,
+  Screening,
+} from '../types';
+import { DECISION_TEMPLATES, DEFAULT_TEMPLATE_ID } from '../decisionTemplates';
+import {
+  fmt,
+  parseNum,
+  unitLabel,
+  DEFAULT_UNIT,
+  CURRENCY_SYMBOLS,
+  TIME_PERIODS,
+  calculateRankings,
+  rankWith,
+  rankDecision,
+  compareMethods,
+  winnerDependsOnMethod,
+  describeMethodAgreement,
+  AGGREGATION_LABELS,
+  AGGREGATION_METHODS,
+  screenAlternatives,
+  shortlist,
+  paretoFrontier,
+  dominatorNames,
+  describeConstraint,
+  constraintCriterion,
+  EMPTY_SCREENING,
+  parseUnit,
+  reweight,
+  weightStability,
+  ahpWeights,
+  pairwiseMatrix,
+  SAATY_SCALE,
+  CONSISTENCY_THRESHOLD,
+  swingWeights,
+  rankOrderCentroid,
+  rankSumWeights,
+  WEIGHT_METHOD_LABELS,
+  rankAcceptability,
+  hasScoreRanges,
+  describeAcceptability,
+  ACCEPTABILITY_SEED,
+  newSeed,
+  classifyRisk,
+  detectScoringPatterns,
+  isConverged,
+  percentile,
+  probExceeds,
+  checkDistribution,
+  distributionRange,
+  summarizeEstimates,
+  describeDistribution,
+  DISTRIBUTION_LABELS,
+  isValidSeed,
+  buildMemo,
+  simulationProvenance,
+  simulationBasis,
+  describeDominance,
+  describeDrivers,
+  describePercentiles,
+  describeCashFlow,
+  informationVerdict,
+  describeInformation,
+  DEFAULT_TRIALS,
+  MAX_CASH_FLOW_YEARS,
+  MEMO_PROTOCOL,
+  THRESHOLD_OPTIONS,
+} from '../engine';
+import type { MethodRanking, ParetoResult, Ranking, ScoreRanges, WeightStability } from '../engine';
 import {
   Zap,
   ArrowRight,
@@ -25,15 +133,25 @@ import {
   ChevronDown,
   RefreshCw,
   HelpCircle,
+  FolderOpen,
+  Save,
+  Download,
+  Upload,
+  Share2,
+  Undo2,
+  Redo2,
+  ScrollText,
+  Filter,
 } from 'lucide-react';
 
 // ══════════════════════════════════════
 // CONSTANTS
 // ══════════════════════════════════════
 
-const STAGES = [
+export const STAGES = [
   { id: 'framing', label: 'Framing', icon: Compass },
   { id: 'alternatives', label: 'Alternatives', icon: Target },
+  { id: 'screening', label: 'Screening', icon: Filter },
   { id: 'criteria', label: 'Criteria', icon: BarChart3 },
   { id: 'scoring', label: 'Scoring', icon: TrendingUp },
   { id: 'uncertainty', label: 'Uncertainty', icon: Brain },
@@ -41,195 +159,279 @@ const STAGES = [
   { id: 'synthesis', label: 'Memo', icon: FileText },
 ];
 
-const THRESHOLD_OPTIONS = [
-  { label: 'Under $50K', value: 25000 },
-  { label: '$50K \u2013 $100K', value: 75000 },
-  { label: '$100K \u2013 $500K', value: 250000 },
-  { label: '$500K \u2013 $1M', value: 750000 },
-  { label: 'Over $1M', value: 1500000 },
-];
-
 const REVERSIBILITY_OPTIONS = [
   { label: 'High', value: 'easy', desc: 'Low switching costs, easily reversible.' },
   { label: 'Moderate', value: 'moderate', desc: 'Manageable pivot, some sunk costs.' },
   { label: 'Low', value: 'hard', desc: 'Significant sunk costs, extremely hard to undo.' },
 ];
 
-const DEFAULT_CRITERIA_NAMES = [
-  'Expected ROI / Value',
-  'Time to Outcome',
-  'Strategic Fit',
-  'Risk Level',
+const TRIAL_OPTIONS = [1000, 10000, 50000, 100000];
+
+const DISTRIBUTION_OPTIONS: { kind: DistributionKind; desc: string }[] = [
+  { kind: 'triangular', desc: 'Straight-line tails; simple but tail-heavy.' },
+  { kind: 'pert', desc: 'Smooth curve between the bounds; less weight on extremes.' },
+  { kind: 'uniform', desc: 'Any value in the range is equally likely.' },
+  { kind: 'normal', desc: 'Symmetric bell around an expected value.' },
+  { kind: 'lognormal', desc: 'Right-skewed and positive; typical for revenue.' },
+  { kind: 'discrete', desc: 'A few named scenarios with probabilities.' },
+  { kind: 'model', desc: 'A formula over several uncertain drivers.' },
+  { kind: 'cashflow', desc: 'Uncertain yearly cash flows, valued as NPV.' },
 ];
 
-// ══════════════════════════════════════
-// HELPER FUNCTIONS (from original copilot)
-// ══════════════════════════════════════
+type ParametricKind = Exclude<DistributionKind, 'discrete' | 'model' | 'cashflow'>;
 
-let _idSeq = 0;
-const genId = () => `_${++_idSeq}_${Math.random().toString(36).slice(2, 6)}`;
+// `example` is a placeholder amount in dollars; see exampleAmount for other units
+const BOUNDED_FIELDS = [
+  { key: 'max', label: 'Best Case', example: 2000000 },
+  { key: 'mode', label: 'Most Likely', example: 800000 },
+  { key: 'min', label: 'Worst Case', example: -500000 },
+];
 
-const fmt = (n: number) => {
-  if (n == null || isNaN(n)) return '$0';
-  const abs = Math.abs(n);
-  const s = n < 0 ? '-' : '';
-  if (abs >= 1e9) return `${s}$${(abs / 1e9).toFixed(1)}B`;
-  if (abs >= 1e6) return `${s}$${(abs / 1e6).toFixed(1)}M`;
-  if (abs >= 1e3) return `${s}$${(abs / 1e3).toFixed(0)}K`;
-  return `${s}$${abs.toFixed(0)}`;
+const DISTRIBUTION_FIELDS: Record<ParametricKind, { key: string; label: string; example: number }[]> = {
+  triangular: BOUNDED_FIELDS,
+  pert: BOUNDED_FIELDS,
+  uniform: BOUNDED_FIELDS.filter((f) => f.key !== 'mode'),
+  normal: [
+    { key: 'mean', label: 'Expected Value', example: 800000 },
+    { key: 'sd', label: 'Standard Deviation', example: 300000 },
+  ],
+  lognormal: [
+    { key: 'median', label: 'Median', example: 600000 },
+    { key: 'p90', label: 'P90 \u2014 1-in-10 Upside', example: 2000000 },
+  ],
 };
 
-function calculateRankings(
-  alternatives: Alternative[],
-  criteria: Criterion[],
-  scores: Record<string, Record<string, number>>
-): (Alternative & { score: number })[] {
-  try {
-    if (!alternatives?.length || !criteria?.length) return [];
-    const totalW = criteria.reduce((s, c) => s + (c.weight || 0), 0);
-    if (totalW === 0) return [];
-    return alternatives
-      .map((alt) => {
-        const ws = criteria.reduce((s, cr) => {
-          return s + (cr.weight || 0) * (scores?.[alt.id]?.[cr.id] ?? 5);
-        }, 0);
-        return { ...alt, score: ws / totalW };
-      })
-      .sort((a, b) => b.score - a.score);
-  } catch (e) {
-    console.error('Ranking error:', e);
-    return [];
-  }
+// Dollar examples read as nonsense in weeks or percent, so other units get them a hundred thousand times smaller
+const exampleAmount = (dollars: number, unit: OutcomeUnit) => fmt(unit.kind === 'currency' ? dollars : dollars / 100000, unit);
+
+// " ($)", " (weeks)"; nothing for plain counts
+const unitSuffix = (unit: OutcomeUnit) => (unitLabel(unit) ? ` (${unitLabel(unit)})` : '');
+
+const UNIT_KINDS: { label: string; unit: OutcomeUnit }[] = [
+  { label: 'Currency', unit: DEFAULT_UNIT },
+  { label: 'Time', unit: { kind: 'time', period: 'weeks' } },
+  { label: 'Count', unit: { kind: 'count' } },
+  { label: 'Percent', unit: { kind: 'percent' } },
+  { label: 'Custom', unit: { kind: 'custom', label: '' } },
+];
+
+const DRIVER_KINDS: ParametricKind[] = ['pert', 'triangular', 'uniform', 'normal', 'lognormal'];
+const MAX_DRIVERS = 8;
+
+interface ScenarioInput {
+  label: string;
+  value: string;
+  probability: string;
 }
 
-function monteCarlo(
-  min: number,
-  mode: number,
-  max: number,
-  n = 10000
-): SimulationResult {
-  try {
-    if (typeof min !== 'number' || typeof mode !== 'number' || typeof max !== 'number')
-      return { mean: 0, median: 0, p10: 0, p90: 0, probLoss: 0 };
-    if (min >= max) return { mean: mode, median: mode, p10: min, p90: max, probLoss: min < 0 ? 1 : 0 };
-    if (mode < min) mode = min;
-    if (mode > max) mode = max;
-    const res: number[] = [];
-    for (let i = 0; i < n; i++) {
-      const u = Math.random();
-      const F = (mode - min) / (max - min);
-      let s: number;
-      if (u < F) {
-        s = min + Math.sqrt(Math.max(0, u * (max - min) * (mode - min)));
-      } else {
-        s = max - Math.sqrt(Math.max(0, (1 - u) * (max - min) * (max - mode)));
-      }
-      res.push(s);
-    }
-    res.sort((a, b) => a - b);
-    const mean = res.reduce((acc, v) => acc + v, 0) / n;
-    const median = res[Math.floor(n / 2)];
-    const p10 = res[Math.floor(n * 0.1)];
-    const p90 = res[Math.floor(n * 0.9)];
-    const probLoss = res.filter((v) => v < 0).length / n;
-    return { mean, median, p10, p90, probLoss };
-  } catch (e) {
-    console.error('Monte Carlo error:', e);
-    return { mean: 0, median: 0, p10: 0, p90: 0, probLoss: 0 };
-  }
+const DEFAULT_SCENARIOS: ScenarioInput[] = [
+  { label: 'Downside', value: '', probability: '25' },
+  { label: 'Base', value: '', probability: '50' },
+  { label: 'Upside', value: '', probability: '25' },
+];
+
+interface DriverInput {
+  name: string;
+  kind: ParametricKind;
+  fields: Record<string, string>;
 }
 
-function classifyRisk(desc: string): Risk['theme'] {
-  const lower = desc.toLowerCase();
-  if (/(execut|sponsor|politics|reorg|budget|priority|compet)/i.test(lower)) return 'organizational';
-  if (/(regul|complian|legal|gdpr|audit)/i.test(lower)) return 'organizational';
-  if (/(talent|hire|team|skill|capacity)/i.test(lower)) return 'organizational';
-  if (/(tech|integrat|scalab|infrastr|legacy)/i.test(lower)) return 'technical';
-  if (/(market|competitor|customer|demand)/i.test(lower)) return 'market';
-  return 'other';
+interface CorrelationInput {
+  a: string;
+  b: string;
+  rho: string;
 }
 
-function detectScoringPatterns(
-  rankings: (Alternative & { score: number })[],
-  alternatives: Alternative[],
-  criteria: Criterion[],
-  scores: Record<string, Record<string, number>>
-) {
-  const insights: { type: string; message: string }[] = [];
-  if (!rankings.length || !criteria.length) return insights;
-
-  if (rankings.length >= 2) {
-    const spread = rankings[0].score - rankings[rankings.length - 1].score;
-    if (spread < 1.0) {
-      insights.push({
-        type: 'clustered',
-        message:
-          "These scores are very close \u2014 within 1 point of each other. What's the real tie-breaker that the numbers aren't capturing?",
-      });
-    }
-  }
+// One year of a cash flow estimate; its position in the list is the year
+type FlowInput = Omit<DriverInput, 'name'>;
 
-  if (rankings.length >= 2 && criteria.length >= 2) {
-    for (const crit of criteria) {
-      const otherCriteria = criteria.filter((c) => c.id !== crit.id);
-      const altRankings = calculateRankings(alternatives, otherCriteria, scores);
-      if (altRankings.length >= 2 && altRankings[0].id !== rankings[0].id) {
-        insights.push({
-          type: 'dominant',
-          message: `"${crit.name}" is driving most of the difference \u2014 without it, ${altRankings[0].name} would be #1 instead. Is that weighting intentional?`,
-        });
-        break;
-      }
-    }
-  }
+const DEFAULT_CASH_FLOW = {
+  rate: '8',
+  flows: Array.from({ length: 4 }, () => ({ kind: 'pert', fields: {} })) as FlowInput[],
+};
 
-  let highCount = 0,
-    totalCount = 0;
-  for (const alt of alternatives) {
-    for (const crit of criteria) {
-      const s = scores?.[alt.id]?.[crit.id];
-      if (s != null) {
-        totalCount++;
-        if (s >= 7) highCount++;
-      }
-    }
-  }
-  if (totalCount > 0 && highCount / totalCount > 0.7) {
-    insights.push({
-      type: 'inflated',
-      message:
-        "Most scores are 7 or above. If everything is 'good,' the analysis loses its ability to differentiate. Consider recalibrating what 'average' (5) looks like.",
-    });
+const DEFAULT_MODEL = {
+  formula: 'units * price - fixed_cost',
+  drivers: [
+    { name: 'units', kind: 'pert', fields: {} },
+    { name: 'price', kind: 'normal', fields: {} },
+    { name: 'fixed_cost', kind: 'uniform', fields: {} },
+  ] as DriverInput[],
+};
+
+// Text inputs for every parametric field, prefilled from a restored distribution
+function distributionFields(d: OutcomeDistribution | null): Record<string, string> {
+  if (!d || d.kind === 'discrete' || d.kind === 'model' || d.kind === 'cashflow') return {};
+  return Object.fromEntries(Object.entries(d).filter(([k]) => k !== 'kind').map(([k, v]) => [k, String(v)]));
+}
+
+function parametric(kind: ParametricKind, fields: Record<string, string>, unit?: OutcomeUnit): SimpleDistribution {
+  const n = (key: string) => parseNum(fields[key] || '', unit);
+  switch (kind) {
+    case 'triangular':
+    case 'pert':
+      return { kind, min: n('min'), mode: n('mode'), max: n('max') };
+    case 'uniform':
+      return { kind, min: n('min'), max: n('max') };
+    case 'normal':
+      return { kind, mean: n('mean'), sd: n('sd') };
+    case 'lognormal':
+      return { kind, median: n('median'), p90: n('p90') };
   }
+}
+
+// The driver editor has no scenario table; a discrete driver from a file reopens as its triangular summary
+function editableDriver(d: SimpleDistribution): Exclude<SimpleDistribution, { kind: 'discrete' }> {
+  if (d.kind !== 'discrete') return d;
+  const { worstCase, mostLikely, bestCase } = summarizeEstimates(d);
+  return { kind: 'triangular', min: worstCase, mode: mostLikely, max: bestCase };
+}
+
+interface EstimateDraft {
+  kind: DistributionKind;
+  fields: Record<string, string>;
+  scenarios: ScenarioInput[];
+  formula: string;
+  drivers: DriverInput[];
+  correlations: CorrelationInput[];
+  // Discount rate in percent
+  rate: string;
+  flows: FlowInput[];
+}
+
+function draftFrom(d: OutcomeDistribution | null): EstimateDraft {
+  return {
+    kind: d?.kind || 'triangular',
+    fields: distributionFields(d),
+    scenarios:
+      d?.kind === 'discrete'
+        ? d.scenarios.map((sc) => ({
+            label: sc.label,
+            value: String(sc.value),
+            probability: String(Math.round(sc.probability * 1000) / 10),
+          }))
+        : DEFAULT_SCENARIOS,
+    formula: d?.kind === 'model' ? d.formula : DEFAULT_MODEL.formula,
+    drivers:
+      d?.kind === 'model'
+        ? d.drivers.map((dr) => {
+            const dist = editableDriver(dr.distribution);
+            return { name: dr.name, kind: dist.kind, fields: distributionFields(dist) };
+          })
+        : DEFAULT_MODEL.drivers,
+    correlations: d?.kind === 'model' ? d.correlations.map((c) => ({ a: c.a, b: c.b, rho: String(c.rho) })) : [],
+    rate: d?.kind === 'cashflow' ? String(Math.round(d.rate * 1000) / 10) : DEFAULT_CASH_FLOW.rate,
+    flows:
+      d?.kind === 'cashflow'
+        ? d.flows.map((f) => {
+            const dist = editableDriver(f);
+            return { kind: dist.kind, fields: distributionFields(dist) };
+          })
+        : DEFAULT_CASH_FLOW.flows,
+  };
+}
 
-  return insights;
+const inputValues = (inputs: FlowInput[]) => inputs.flatMap((input) => DISTRIBUTION_FIELDS[input.kind].map((f) => input.fields[f.key] || ''));
+
+const draftValues = (draft: EstimateDraft) =>
+  draft.kind === 'discrete'
+    ? draft.scenarios.map((sc) => sc.value)
+    : draft.kind === 'model'
+      ? inputValues(draft.drivers)
+      : draft.kind === 'cashflow'
+        ? inputValues(draft.flows)
+        : DISTRIBUTION_FIELDS[draft.kind].map((f) => draft.fields[f.key] || '');
+
+const isDraftFilled = (draft: EstimateDraft) =>
+  draft.kind === 'discrete'
+    ? draft.scenarios.every((sc) => sc.value.trim() && sc.probability.trim())
+    : draft.kind === 'model'
+      ? !!draft.formula.trim() &&
+        draft.drivers.every((dr) => dr.name.trim()) &&
+        draft.correlations.every((c) => c.a && c.b && c.rho.trim()) &&
+        draftValues(draft).every((v) => v.trim())
+      : draft.kind === 'cashflow'
+        ? !!draft.rate.trim() && draftValues(draft).every((v) => v.trim())
+        : draftValues(draft).every((v) => v.trim());
+
+const isDraftEmpty = (draft: EstimateDraft) => draftValues(draft).every((v) => !v.trim());
+
+// Model drivers are quantities of their own, so only the outcome fields are read in the decision's unit
+function draftToDistribution(draft: EstimateDraft, unit: OutcomeUnit = DEFAULT_UNIT): OutcomeDistribution {
+  switch (draft.kind) {
+    case 'discrete':
+      return {
+        kind: draft.kind,
+        scenarios: draft.scenarios.map((sc) => ({
+          label: sc.label.trim(),
+          value: parseNum(sc.value, unit),
+          probability: parseFloat(sc.probability) / 100,
+        })),
+      };
+    case 'model':
+      return {
+        kind: draft.kind,
+        formula: draft.formula.trim(),
+        drivers: draft.drivers.map((dr) => ({ name: dr.name.trim(), distribution: parametric(dr.kind, dr.fields) })),
+        correlations: draft.correlations.map((c) => ({ a: c.a, b: c.b, rho: parseFloat(c.rho) })),
+      };
+    case 'cashflow':
+      return {
+        kind: draft.kind,
+        rate: parseFloat(draft.rate) / 100,
+        flows: draft.flows.map((f) => parametric(f.kind, f.fields, unit)),
+      };
+    default:
+      return parametric(draft.kind, draft.fields, unit);
+  }
 }
 
-function parseNum(s: string): number {
-  if (!s) return NaN;
-  const cleaned = s.replace(/[$,\s]/g, '').toLowerCase();
-  let multiplier = 1;
-  let numStr = cleaned;
-  if (cleaned.endsWith('m')) { multiplier = 1e6; numStr = cleaned.slice(0, -1); }
-  else if (cleaned.endsWith('k')) { multiplier = 1e3; numStr = cleaned.slice(0, -1); }
-  else if (cleaned.endsWith('b')) { multiplier = 1e9; numStr = cleaned.slice(0, -1); }
-  const val = parseFloat(numStr);
-  return isNaN(val) ? NaN : val * multiplier;
+function draftProblem(draft: EstimateDraft, unit: OutcomeUnit = DEFAULT_UNIT): string | null {
+  if (draftValues(draft).some((v) => isNaN(parseNum(v, draft.kind === 'model' ? undefined : unit))))
+    return `Please enter valid numbers. Use formats like ${[2000000, 500000, -100000].map((n) => exampleAmount(n, unit)).join(', ')}.`;
+  if (draft.kind === 'model' && draft.correlations.some((c) => isNaN(parseFloat(c.rho))))
+    return 'Correlations must be numbers between -1 and 1, e.g. -0.5.';
+  if (draft.kind === 'cashflow' && isNaN(parseFloat(draft.rate))) return 'Discount rate must be a percentage, e.g. 8.';
+  return checkDistribution(draftToDistribution(draft, unit));
 }
 
+// One colour per compared alternative, top choice first
+const COMPARISON_COLORS = ['#eab308', '#18181b', '#2563eb', '#dc2626', '#16a34a', '#9333ea'];
+const comparisonColor = (i: number) => COMPARISON_COLORS[i % COMPARISON_COLORS.length];
+
+const DEFAULT_TEMPLATE = DECISION_TEMPLATES.find((t) => t.id === DEFAULT_TEMPLATE_ID)!;
+
+// Custom templates may hint any amount; snap it to the closest threshold bucket
+const nearestThreshold = (value: number) =>
+  THRESHOLD_OPTIONS.reduce((best, o) => (Math.abs(o.value - value) < Math.abs(best.value - value) ? o : best)).value;
+
+// ══════════════════════════════════════
+// HELPER FUNCTIONS (from original copilot)
+// ══════════════════════════════════════
+
+let _idSeq = 0;
+const genId = () => `_${++_idSeq}_${Math.random().toString(36).slice(2, 6)}`;
+
 // ══════════════════════════════════════
 // STATE MANAGEMENT
 // ══════════════════════════════════════
 
-const INITIAL_STATE: DecisionState = {
+export const INITIAL_STATE: DecisionState = {
   statement: '',
   objectives: '',
   alternatives: [],
+  screening: EMPTY_SCREENING,
   criteria: [],
+  weighting: { method: 'manual' },
   scores: {},
+  scoreRanges: {},
+  aggregation: 'weighted-sum',
   topChoice: null,
   mcResult: null,
   risks: [],
+  template: null,
+  comparison: null,
+  unit: DEFAULT_UNIT,
   meta: { threshold: 0, reversibility: '', reversibilityLabel: '' },
 };
 
@@ -237,6 +439,7 @@ type Action =
   | { type: 'SET'; key: string; value: any }
   | { type: 'SET_META'; value: Partial<DecisionState['meta']> }
   | { type: 'SET_SCORE'; altId: string; critId: string; value: number }
+  | { type: 'LOAD'; value: DecisionState }
   | { type: 'RESET' };
 
 function decisionReducer(state: DecisionState, action: Action): DecisionState {
@@ -256,6 +459,12 @@ function decisionReducer(state: DecisionState, action: Action): DecisionState {
           },
         },
       };
+    case 'LOAD':
+      return {
+        ...INITIAL_STATE,
+        ...action.value,
+        meta: { ...INITIAL_STATE.meta, ...action.value.meta },
+      };
     case 'RESET':
       return INITIAL_STATE;
     default:
@@ -263,6 +472,274 @@ function decisionReducer(state: DecisionState, action: Action): DecisionState {
   }
 }
 
+// ══════════════════════════════════════
+// STAGE COMPLETENESS
+// ══════════════════════════════════════
+
+const PREMORTEM_THRESHOLD = 100000;
+
+type StageStatus = 'complete' | 'incomplete' | 'stale';
+
+interface StageCheck {
+  status: StageStatus;
+  issues: string[];
+}
+
+function isStageActive(stageId: string, d: DecisionState): boolean {
+  const override = d.template?.stages?.[stageId as 'uncertainty' | 'premortem'];
+  if (override) return override === 'include';
+  if (stageId === 'premortem') return d.meta.threshold > PREMORTEM_THRESHOLD;
+  return true;
+}
+
+const hasEstimates = (t: DecisionState['topChoice']) => !!t && t.bestCase > t.worstCase;
+
+// Derived from the decision itself, so edits made on an earlier stage are picked up without extra bookkeeping
+function checkStages(d: DecisionState): Record<string, StageCheck> {
+  const checks: Record<string, StageCheck> = {};
+  const check = (id: string, incomplete: string[], stale: string[] = []): StageCheck =>
+    (checks[id] = {
+      status: incomplete.length ? 'incomplete' : stale.length ? 'stale' : 'complete',
+      issues: incomplete.length ? incomplete : stale,
+    });
+
+  check(
+    'framing',
+    [
+      !d.statement.trim() && 'No decision statement',
+      !d.objectives.trim() && 'No success objectives',
+      !(d.meta.threshold > 0) && 'No economic threshold',
+      !d.meta.reversibility && 'No reversibility rating',
+    ].filter(Boolean) as string[]
+  );
+
+  const named = d.alternatives.filter((a) => a.name.trim());
+  check('alternatives', named.length < 2 ? ['At least two named alternatives are needed'] : []);
+
+  // Before scoring only the attribute constraints apply; score floors are checked with the rankings
+  const screenedIn = shortlist(d.alternatives, d.criteria, d.screening, null);
+  check(
+    'screening',
+    named.length >= 2 && screenedIn.filter((a) => a.name.trim()).length < 2 ? ['Fewer than two alternatives pass screening'] : []
+  );
+
+  const weightSum = d.criteria.reduce((sum, c) => sum + (c.weight || 0), 0);
+  check(
+    'criteria',
+    [
+      d.criteria.length < 2 && 'At least two weighted criteria are needed',
+      d.criteria.length >= 2 && Math.abs(weightSum - 1) > 0.001 && `Weights sum to ${(weightSum * 100).toFixed(0)}%, not 100%`,
+    ].filter(Boolean) as string[],
+    (d.screening?.constraints ?? [])
+      .filter((c) => c.kind === 'min-score' && !constraintCriterion(c, d.criteria))
+      .map((c) => `No criterion named "${c.label}" for its minimum score`)
+  );
+
+  const scoringStale: string[] = [];
+  for (const alt of screenedIn) {
+    const missing = d.criteria.filter((c) => d.scores?.[alt.id]?.[c.id] == null);
+    if (missing.length) scoringStale.push(`${alt.name || 'An alternative'} is unscored on ${missing.map((c) => c.name).join(', ')}`);
+  }
+  const top = rankDecision(d)[0];
+  const topChoiceStale = !!d.topChoice && (!top || top.id !== d.topChoice.id || top.name !== d.topChoice.name);
+  if (topChoiceStale) scoringStale.push(`Top choice "${d.topChoice!.name}" no longer matches the rankings`);
+  check('scoring', d.topChoice ? [] : ['No scores confirmed yet'], scoringStale);
+
+  const ranked = shortlist(d.alternatives, d.criteria, d.screening, d.scores);
+  check(
+    'uncertainty',
+    d.mcResult ? [] : ['No simulation run yet'],
+    [
+      (topChoiceStale || !hasEstimates(d.topChoice)) && 'Simulation was run for a different top choice',
+      !!d.comparison &&
+        d.comparison.alternatives.some((a) => !ranked.some((alt) => alt.id === a.id && alt.name === a.name)) &&
+        'Comparison includes alternatives that were renamed, removed or screened out',
+    ].filter(Boolean) as string[]
+  );
+
+  check(
+    'premortem',
+    d.risks.length ? [] : ['No risks recorded yet'],
+    topChoiceStale ? ['Risks were audited for a different top choice'] : []
+  );
+
+  const upstream = STAGES.filter((s) => s.id !== 'synthesis' && isStageActive(s.id, d)).map((s) => checks[s.id]);
+  check(
+    'synthesis',
+    upstream.some((c) => c.status === 'incomplete') ? ['Earlier stages are incomplete'] : [],
+    upstream.some((c) => c.status === 'stale') ? ['Memo is built on stale results'] : []
+  );
+
+  return checks;
+}
+
+// Where to land after loading a decision that arrived without a saved stage
+function inferStageId(d: DecisionState): string {
+  const checks = checkStages(d);
+  const open = STAGES.find((s) => isStageActive(s.id, d) && checks[s.id].status === 'incomplete');
+  return open ? open.id : 'synthesis';
+}
+
+// ══════════════════════════════════════
+// UNDO / REDO HISTORY
+// ══════════════════════════════════════
+
+const HISTORY_LIMIT = 100;
+
+interface HistoryEntry {
+  type: Action['type'];
+  label: string;
+  before: DecisionState;
+  after: DecisionState;
+}
+
+interface HistoryState {
+  present: DecisionState;
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+type HistoryAction = Action | { type: 'UNDO' } | { type: 'REDO' };
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const summarize = (parts: string[], limit = 2) =>
+  parts.length > limit ? `${parts.slice(0, limit).join(', ')} and ${parts.length - limit} more` : parts.join(', ');
+
+const thresholdLabel = (v: number) => THRESHOLD_OPTIONS.find((o) => o.value === v)?.label || 'unset';
+
+function describeScoreChanges(
+  state: DecisionState,
+  next: Record<string, Record<string, number>>
+): string[] {
+  const altName = (id: string) => state.alternatives.find((a) => a.id === id)?.name || id;
+  const critName = (id: string) => state.criteria.find((c) => c.id === id)?.name || id;
+  const changes: string[] = [];
+  for (const altId of Object.keys(next)) {
+    for (const critId of Object.keys(next[altId] || {})) {
+      const prev = state.scores?.[altId]?.[critId];
+      const value = next[altId][critId];
+      if (prev !== value) {
+        changes.push(`score ${altName(altId)} / ${critName(critId)} ${prev ?? '\u2014'} \u2192 ${value}`);
+      }
+    }
+  }
+  return changes;
+}
+
+// Returns null for actions that would not change anything, so they stay out of the history
+function describeAction(state: DecisionState, action: Action): string | null {
+  switch (action.type) {
+    case 'SET': {
+      const prev = (state as any)[action.key];
+      if (same(prev, action.value)) return null;
+      switch (action.key) {
+        case 'statement':
+        case 'objectives':
+          return `${action.key} edited`;
+        case 'alternatives': {
+          const next: Alternative[] = action.value || [];
+          const parts = [
+            ...next.filter((a) => !prev.some((p: Alternative) => p.id === a.id)).map((a) => `+${a.name}`),
+            ...prev.filter((p: Alternative) => !next.some((a) => a.id === p.id)).map((p: Alternative) => `\u2212${p.name}`),
+            ...next
+              .map((a) => [prev.find((p: Alternative) => p.id === a.id), a])
+              .filter(([p, a]) => p && p.name !== a.name)
+              .map(([p, a]) => `${p.name} \u2192 ${a.name}`),
+          ];
+          return `alternatives: ${summarize(parts, 3) || 'reordered'}`;
+        }
+        case 'criteria': {
+          const next: Criterion[] = action.value || [];
+          const reweighted = next
+            .map((c) => [prev.find((p: Criterion) => p.id === c.id), c])
+            .filter(([p, c]) => p && p.weight !== c.weight)
+            .map(([p, c]) => `${c.name} ${(p.weight * 100).toFixed(0)}% \u2192 ${(c.weight * 100).toFixed(0)}%`);
+          if (reweighted.length && next.length === prev.length) return `weights: ${summarize(reweighted)}`;
+          return `criteria set: ${summarize(next.map((c) => c.name), 3)}`;
+        }
+        case 'screening': {
+          const next: Screening = action.value || EMPTY_SCREENING;
+          const out = shortlist(state.alternatives, state.criteria, next, null);
+          return `screening: ${next.constraints.length} constraint${next.constraints.length === 1 ? '' : 's'}, ${
+            state.alternatives.length - out.length
+          } screened out`;
+        }
+        case 'aggregation':
+          return `aggregation \u2192 ${AGGREGATION_LABELS[action.value as AggregationMethod] ?? action.value}`;
+        case 'weighting':
+          return `weighting \u2192 ${WEIGHT_METHOD_LABELS[action.value?.method as WeightMethod] ?? 'manual'}`;
+        case 'scores':
+          return summarize(describeScoreChanges(state, action.value || {})) || 'scores updated';
+        case 'scoreRanges': {
+          const cells = Object.values(action.value || {}).reduce((n: number, row: any) => n + Object.keys(row).length, 0);
+          return cells ? `score ranges on ${cells} cell${cells === 1 ? '' : 's'}` : 'score ranges cleared';
+        }
+        case 'topChoice':
+          if (!action.value) return 'top choice cleared';
+          if (prev?.id === action.value.id)
+            return `estimates for ${action.value.name}: ${[action.value.worstCase, action.value.mostLikely, action.value.bestCase].map((v) => fmt(v, state.unit)).join(' / ')}`;
+          return `top choice \u2192 ${action.value.name}`;
+        case 'mcResult':
+          return action.value ? `simulation run (EV ${fmt(action.value.mean, state.unit)})` : 'simulation cleared';
+        case 'risks':
+          return `risks: ${prev.length} \u2192 ${(action.value || []).length}`;
+        case 'template':
+          return action.value ? `template \u2192 ${action.value.name}` : 'template cleared';
+        case 'unit':
+          return `unit \u2192 ${unitLabel(action.value) || 'count'}`;
+        case 'comparison':
+          return action.value ? `compared ${action.value.alternatives.length} alternatives` : 'comparison cleared';
+        default:
+          return `${action.key} updated`;
+      }
+    }
+    case 'SET_META': {
+      const parts = Object.entries(action.value)
+        .filter(([k, v]) => !same((state.meta as any)[k], v))
+        .filter(([k]) => k !== 'reversibilityLabel')
+        .map(([k, v]) =>
+          k === 'threshold'
+            ? `threshold ${thresholdLabel(state.meta.threshold)} \u2192 ${thresholdLabel(v as number)}`
+            : `${k} ${(state.meta as any)[k] || 'unset'} \u2192 ${v}`
+        );
+      return parts.length ? summarize(parts) : null;
+    }
+    case 'SET_SCORE': {
+      const changes = describeScoreChanges(state, { [action.altId]: { [action.critId]: action.value } });
+      return changes[0] || null;
+    }
+    case 'LOAD':
+      return `loaded \u201c${action.value.statement || 'untitled decision'}\u201d`;
+    case 'RESET':
+      return state === INITIAL_STATE ? null : 'lab reset';
+    default:
+      return null;
+  }
+}
+
+function historyReducer(history: HistoryState, action: HistoryAction): HistoryState {
+  const { present, past, future } = history;
+  if (action.type === 'UNDO') {
+    const entry = past[past.length - 1];
+    if (!entry) return history;
+    return { present: entry.before, past: past.slice(0, -1), future: [entry, ...future] };
+  }
+  if (action.type === 'REDO') {
+    const entry = future[0];
+    if (!entry) return history;
+    return { present: entry.after, past: [...past, entry], future: future.slice(1) };
+  }
+  const label = describeAction(present, action);
+  if (label === null) return history;
+  const next = decisionReducer(present, action);
+  return {
+    present: next,
+    past: [...past, { type: action.type, label, before: present, after: next }].slice(-HISTORY_LIMIT),
+    future: [],
+  };
+}
+
 // ══════════════════════════════════════
 // STAGE 1: FRAMING
 // ══════════════════════════════════════
@@ -281,11 +758,59 @@ function FramingStage({
   const [threshold, setThreshold] = useState(decision.meta.threshold || 0);
   const [reversibility, setReversibility] = useState(decision.meta.reversibility || '');
   const [reversibilityLabel, setReversibilityLabel] = useState(decision.meta.reversibilityLabel || '');
+  const [customTemplates, setCustomTemplates] = useState<DecisionTemplate[]>(() => listCustomTemplates());
+  const [templateId, setTemplateId] = useState(decision.template?.id || DEFAULT_TEMPLATE_ID);
+  const [templateErrors, setTemplateErrors] = useState<FieldError[]>([]);
+  const templateInputRef = useRef<HTMLInputElement>(null);
+
+  // A decision imported from elsewhere keeps its template even if it isn't installed here
+  const templates = [
+    ...DECISION_TEMPLATES,
+    ...customTemplates,
+    ...(decision.template && ![...DECISION_TEMPLATES, ...customTemplates].some((t) => t.id === decision.template!.id)
+      ? [decision.template]
+      : []),
+  ];
+  const selectedTemplate = templates.find((t) => t.id === templateId) || DEFAULT_TEMPLATE;
+  const isCustom = (id: string) => !DECISION_TEMPLATES.some((t) => t.id === id);
+
+  const chooseTemplate = (t: DecisionTemplate) => {
+    setTemplateId(t.id);
+    if (t.thresholdHint) setThreshold(nearestThreshold(t.thresholdHint));
+    const rev = REVERSIBILITY_OPTIONS.find((o) => o.value === t.reversibilityHint);
+    if (rev) {
+      setReversibility(rev.value);
+      setReversibilityLabel(rev.label);
+    }
+  };
+
+  const importTemplate = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const { template, errors } = parseTemplateFile(await file.text());
+    if (template && !isCustom(template.id)) {
+      setTemplateErrors([{ field: 'template.id', message: `"${template.id}" is a built-in template id` }]);
+      return;
+    }
+    setTemplateErrors(errors);
+    if (!template) return;
+    saveCustomTemplate(template);
+    setCustomTemplates(listCustomTemplates());
+    chooseTemplate(template);
+  };
+
+  const removeTemplate = (id: string) => {
+    deleteCustomTemplate(id);
+    setCustomTemplates(listCustomTemplates());
+    if (templateId === id) setTemplateId(DEFAULT_TEMPLATE_ID);
+  };
 
   const handleContinue = () => {
     dispatch({ type: 'SET', key: 'statement', value: statement });
     dispatch({ type: 'SET', key: 'objectives', value: objectives });
     dispatch({ type: 'SET_META', value: { threshold, reversibility, reversibilityLabel } });
+    dispatch({ type: 'SET', key: 'template', value: selectedTemplate });
     onComplete();
   };
 
@@ -293,6 +818,64 @@ function FramingStage({
 
   return (
     <div className="space-y-12">
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <label className="mono text-[10px] uppercase font-bold text-zinc-400">Decision Template</label>
+          <input
+            ref={templateInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={importTemplate}
+            className="hidden"
+          />
+          <button
+            onClick={() => templateInputRef.current?.click()}
+            className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-zinc-400 hover:text-black transition-colors"
+          >
+            <Upload size={12} /> Import Template
+          </button>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+          {templates.map((t) => (
+            <div
+              key={t.id}
+              onClick={() => chooseTemplate(t)}
+              className={`relative p-4 rounded-xl text-left cursor-pointer transition-all ${
+                templateId === t.id ? 'bg-black text-white' : 'bg-black/5 hover:bg-black/10 text-zinc-500'
+              }`}
+            >
+              <span className="text-xs font-black uppercase pr-6 block">{t.name}</span>
+              <span className="text-[10px] opacity-60 italic serif block mt-1">{t.description}</span>
+              {customTemplates.some((c) => c.id === t.id) && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    removeTemplate(t.id);
+                  }}
+                  title="Remove custom template"
+                  className="absolute top-3 right-3 opacity-50 hover:opacity-100 hover:text-red-500"
+                >
+                  <X size={12} />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        <p className="text-[10px] mono uppercase text-zinc-400">
+          Criteria: {selectedTemplate.criteria.map((c) => `${c.name} ${c.weight}%`).join(' \u00b7 ')}
+        </p>
+        {templateErrors.length > 0 && (
+          <div className="p-4 bg-red-50 rounded-xl text-xs text-red-700 space-y-1">
+            <p className="font-bold">Template not imported:</p>
+            {templateErrors.map((e, i) => (
+              <p key={i} className="mono">
+                {e.field} {e.message}
+              </p>
+            ))}
+          </div>
+        )}
+      </div>
+
       <div className="grid md:grid-cols-2 gap-12">
         <div className="space-y-6">
           <label className="mono text-[10px] uppercase font-bold text-zinc-400">The Core Inquiry</label>
@@ -392,6 +975,10 @@ function AlternativesStage({
   const [aiRationale, setAiRationale] = useState('');
   const [aiError, setAiError] = useState('');
 
+  const templateSuggestions = (decision.template?.suggestedAlternatives || []).filter(
+    (name) => !alternatives.some((a) => a.name.trim().toLowerCase() === name.toLowerCase())
+  );
+
   const addAlternative = () => {
     if (newAlt.trim() && alternatives.length < 5) {
       setAlternatives([...alternatives, { id: genId(), name: newAlt.trim() }]);
@@ -480,6 +1067,22 @@ function AlternativesStage({
             </button>
           </div>
         )}
+        {templateSuggestions.length > 0 && alternatives.length < 5 && (
+          <div className="flex flex-wrap items-center gap-2 pt-2">
+            <span className="mono text-[10px] uppercase font-bold text-zinc-400 mr-2">
+              {decision.template!.name} suggests
+            </span>
+            {templateSuggestions.map((name) => (
+              <button
+                key={name}
+                onClick={() => setAlternatives([...alternatives, { id: genId(), name }])}
+                className="text-xs px-3 py-2 rounded-lg bg-black/5 text-zinc-500 hover:bg-black hover:text-white transition-all flex items-center gap-1"
+              >
+                <Plus size={12} /> {name}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* AI Suggestions Panel */}
@@ -531,7 +1134,7 @@ function AlternativesStage({
               onClick={() => finishAndContinue()}
               className="mt-4 mono text-[11px] font-black uppercase tracking-widest bg-black text-white px-6 py-3 rounded-full hover:bg-yellow-500 hover:text-black transition-all self-start"
             >
-              Continue to Criteria
+              Continue to Screening
             </button>
           </div>
         )}
@@ -570,10 +1173,25 @@ function AlternativesStage({
 }
 
 // ══════════════════════════════════════
-// STAGE 3: CRITERIA (with rank-weighting)
+// STAGE 3: SCREENING (Dealbreakers)
 // ══════════════════════════════════════
 
-function CriteriaStage({
+const CONSTRAINT_KINDS: { kind: ConstraintKind; label: string; desc: string }[] = [
+  { kind: 'max', label: 'Upper Limit', desc: 'e.g. first-year cost at most $200K' },
+  { kind: 'min', label: 'Lower Limit', desc: 'e.g. uptime at least 99.9%' },
+  { kind: 'required', label: 'Must Have', desc: 'e.g. SOC 2 certified' },
+  { kind: 'min-score', label: 'Minimum Score', desc: 'e.g. at least 4 on Risk Level' },
+];
+
+// The unit as typed into a constraint; parseUnit reads it back
+const unitText = (u: OutcomeUnit | undefined) => {
+  if (!u || u.kind === 'count') return '';
+  if (u.kind === 'currency') return u.code;
+  if (u.kind === 'time') return u.period;
+  return u.kind === 'percent' ? '%' : u.label;
+};
+
+function ScreeningStage({
   decision,
   dispatch,
   onComplete,
@@ -584,93 +1202,539 @@ function CriteriaStage({
   onComplete: () => void;
   onBack: () => void;
 }) {
-  const [step, setStep] = useState(0); // 0=edit, 1=rank
-  const [criteria, setCriteria] = useState<{ id: string; name: string }[]>(
-    DEFAULT_CRITERIA_NAMES.map((name) => ({ id: genId(), name }))
-  );
-  const [newCrit, setNewCrit] = useState('');
-  const [ranked, setRanked] = useState<{ id: string; name: string }[] | null>(null);
-  const [manualWeights, setManualWeights] = useState<number[] | null>(null);
-
-  const getDefaultWeights = (count: number) => {
-    const presets: Record<number, number[]> = {
-      2: [60, 40],
-      3: [45, 35, 20],
-      4: [35, 25, 25, 15],
-      5: [35, 25, 20, 15, 5],
-    };
-    return presets[count] || Array(count).fill(Math.round(100 / count));
-  };
-
-  const weightSum = manualWeights ? manualWeights.reduce((s, w) => s + w, 0) : 0;
-  const weightsValid = manualWeights ? Math.abs(weightSum - 100) < 0.01 : false;
-
-  const moveUp = (i: number) => {
-    if (i === 0 || !ranked || !manualWeights) return;
-    const next = [...ranked];
-    [next[i - 1], next[i]] = [next[i], next[i - 1]];
-    setRanked(next);
-    const nextW = [...manualWeights];
-    [nextW[i - 1], nextW[i]] = [nextW[i], nextW[i - 1]];
-    setManualWeights(nextW);
-  };
-
-  const moveDown = (i: number) => {
-    if (!ranked || !manualWeights || i === ranked.length - 1) return;
-    const next = [...ranked];
-    [next[i], next[i + 1]] = [next[i + 1], next[i]];
-    setRanked(next);
-    const nextW = [...manualWeights];
-    [nextW[i], nextW[i + 1]] = [nextW[i + 1], nextW[i]];
-    setManualWeights(nextW);
-  };
-
-  const startRanking = () => {
-    const list = [...criteria];
-    setRanked(list);
-    setManualWeights(getDefaultWeights(list.length));
-    setStep(1);
-  };
-
-  const confirmWeights = () => {
-    if (!ranked || !manualWeights) return;
-    const weighted: Criterion[] = ranked.map((c, i) => ({
-      ...c,
-      weight: (manualWeights[i] || 5) / 100,
-    }));
-    dispatch({ type: 'SET', key: 'criteria', value: weighted });
+  const alternatives = decision.alternatives.filter((a) => a.name.trim());
+  const saved = decision.screening || EMPTY_SCREENING;
+  const [constraints, setConstraints] = useState<Constraint[]>(saved.constraints);
+  const [checks, setChecks] = useState<Record<string, Record<string, boolean>>>(() => {
+    const c: Record<string, Record<string, boolean>> = {};
+    for (const [altId, row] of Object.entries(saved.values))
+      for (const [id, v] of Object.entries(row)) if (typeof v === 'boolean') c[altId] = { ...c[altId], [id]: v };
+    return c;
+  });
+  // Numbers are edited as text: limits under `limit:<id>`, units under `unit:<id>`, values under `<id>:<altId>`
+  const [text, setText] = useState<Record<string, string>>(() => {
+    const t: Record<string, string> = {};
+    for (const c of saved.constraints) {
+      if (c.limit != null) t[`limit:${c.id}`] = String(c.limit);
+      t[`unit:${c.id}`] = unitText(c.unit);
+    }
+    for (const [altId, row] of Object.entries(saved.values))
+      for (const [id, v] of Object.entries(row)) if (typeof v === 'number') t[`${id}:${altId}`] = String(v);
+    return t;
+  });
+  const setField = (key: string, value: string) => setText((t) => ({ ...t, [key]: value }));
+  const update = (id: string, changes: Partial<Constraint>) =>
+    setConstraints((cs) => cs.map((c) => (c.id === id ? { ...c, ...changes } : c)));
+
+  const criterionNames = [
+    ...new Set([...decision.criteria.map((c) => c.name), ...(decision.template?.criteria || []).map((c) => c.name)]),
+  ];
+
+  const screening = useMemo((): Screening => {
+    const values: Screening['values'] = {};
+    const built = constraints.map((c) => {
+      const unit = (text[`unit:${c.id}`] || '').trim();
+      const amountUnit = (c.kind === 'max' || c.kind === 'min') && unit ? parseUnit(unit) : undefined;
+      const limit = parseNum(text[`limit:${c.id}`] || '', amountUnit);
+      for (const alt of alternatives) {
+        const v = c.kind === 'required' ? checks[alt.id]?.[c.id] : parseNum(text[`${c.id}:${alt.id}`] || '', amountUnit);
+        if (typeof v === 'boolean' || (c.kind !== 'required' && c.kind !== 'min-score' && !isNaN(v)))
+          values[alt.id] = { ...values[alt.id], [c.id]: v };
+      }
+      return {
+        id: c.id,
+        kind: c.kind,
+        label: c.label.trim(),
+        ...(c.kind !== 'required' && !isNaN(limit) && { limit }),
+        ...(amountUnit && { unit: amountUnit }),
+        dealbreaker: c.dealbreaker,
+      };
+    });
+    return { constraints: built, values };
+  }, [constraints, text, checks, alternatives]);
+
+  const results = screenAlternatives(alternatives, decision.criteria, screening, null);
+  const passing = results.filter((r) => !r.eliminated).length;
+  const problems = screening.constraints.flatMap((c, i) => [
+    ...(c.label ? [] : [`Constraint ${i + 1} needs a name`]),
+    ...(c.kind !== 'required' && c.limit == null ? [`${c.label || `Constraint ${i + 1}`} needs a limit`] : []),
+    ...(c.kind === 'min-score' && c.limit != null && (c.limit < 1 || c.limit > 10)
+      ? [`${c.label} needs a minimum score from 1 to 10`]
+      : []),
+  ]);
+
+  const finish = () => {
+    dispatch({ type: 'SET', key: 'screening', value: screening });
     onComplete();
   };
 
   return (
     <div className="space-y-12">
-      {step === 0 && (
-        <>
-          <div className="grid gap-4">
-            {criteria.map((crit, i) => (
-              <div key={crit.id} className="bg-black/5 p-6 rounded-3xl flex items-center gap-6">
-                <div className="flex-1">
+      <p className="text-sm text-zinc-500">
+        Set the must-haves every option has to meet before it is worth scoring. A failed dealbreaker screens the option
+        out; anything else only flags it. Screened-out options stay listed in the memo with the reason.
+      </p>
+
+      <div className="space-y-6">
+        {constraints.map((c) => {
+          const kind = CONSTRAINT_KINDS.find((k) => k.kind === c.kind)!;
+          return (
+            <div key={c.id} className="p-6 rounded-2xl border-2 border-black/5 bg-white space-y-4">
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="mono text-[10px] uppercase font-black text-zinc-400 w-28">{kind.label}</span>
+                <input
+                  value={c.label}
+                  onChange={(e) => update(c.id, { label: e.target.value })}
+                  placeholder={c.kind === 'min-score' ? 'Criterion name' : kind.desc.replace(/^e\.g\. /, '')}
+                  list={c.kind === 'min-score' ? 'screening-criteria' : undefined}
+                  className="flex-1 min-w-[12rem] bg-black/5 p-3 rounded-xl font-bold text-sm outline-none"
+                />
+                {c.kind !== 'required' && (
+                  <>
+                    <span className="mono text-xs text-zinc-400">{c.kind === 'max' ? '\u2264' : '\u2265'}</span>
+                    <input
+                      value={text[`limit:${c.id}`] || ''}
+                      onChange={(e) => setField(`limit:${c.id}`, e.target.value)}
+                      placeholder={c.kind === 'min-score' ? '4' : '200K'}
+                      className="w-24 bg-black/5 p-3 rounded-xl mono text-sm text-center outline-none border border-black/10 focus:border-yellow-500"
+                    />
+                  </>
+                )}
+                {(c.kind === 'max' || c.kind === 'min') && (
                   <input
-                    value={crit.name}
-                    onChange={(e) => {
-                      const newCrits = [...criteria];
-                      newCrits[i] = { ...newCrits[i], name: e.target.value };
-                      setCriteria(newCrits);
-                    }}
-                    className="bg-transparent font-black text-xl serif italic outline-none w-full"
+                    value={text[`unit:${c.id}`] || ''}
+                    onChange={(e) => setField(`unit:${c.id}`, e.target.value)}
+                    placeholder="Unit"
+                    title="A currency code (USD), a time period (weeks), percent, or any label; blank for a plain number"
+                    className="w-20 bg-black/5 p-3 rounded-xl mono text-sm text-center outline-none border border-black/10 focus:border-yellow-500"
                   />
-                </div>
-                {criteria.length > 2 && (
-                  <button
-                    onClick={() => setCriteria(criteria.filter((c) => c.id !== crit.id))}
-                    className="p-2 text-zinc-300 hover:text-red-500"
-                  >
-                    <X size={16} />
-                  </button>
                 )}
-              </div>
-            ))}
-          </div>
+                <button
+                  onClick={() => update(c.id, { dealbreaker: !c.dealbreaker })}
+                  className={`px-3 py-2 rounded-lg mono text-[10px] uppercase font-black transition-all ${
+                    c.dealbreaker
+                      ? 'bg-red-50 text-red-600 border border-red-200'
+                      : 'bg-yellow-50 text-yellow-700 border border-yellow-200'
+                  }`}
+                >
+                  {c.dealbreaker ? 'Dealbreaker' : 'Flag Only'}
+                </button>
+                <button
+                  onClick={() => setConstraints((cs) => cs.filter((x) => x.id !== c.id))}
+                  className="p-2 text-zinc-300 hover:text-red-500"
+                >
+                  <X size={16} />
+                </button>
+              </div>
+
+              {c.kind === 'min-score' ? (
+                <p className="text-xs text-zinc-400 italic">Checked against the scores once the options are scored.</p>
+              ) : (
+                <div className="grid md:grid-cols-2 gap-2">
+                  {alternatives.map((alt) => (
+                    <div key={alt.id} className="flex items-center justify-between gap-3 px-4 py-2 rounded-xl bg-black/[0.02]">
+                      <span className="text-sm font-bold truncate">{alt.name}</span>
+                      {c.kind === 'required' ? (
+                        <div className="flex gap-1">
+                          {[true, false].map((v) => (
+                            <button
+                              key={String(v)}
+                              onClick={() => setChecks((ch) => ({ ...ch, [alt.id]: { ...ch[alt.id], [c.id]: v } }))}
+                              className={`px-3 py-1 rounded-lg mono text-[10px] uppercase font-bold transition-all ${
+                                checks[alt.id]?.[c.id] === v ? 'bg-black text-white' : 'bg-black/5 text-zinc-400 hover:bg-black/10'
+                              }`}
+                            >
+                              {v ? 'Yes' : 'No'}
+                            </button>
+                          ))}
+                        </div>
+                      ) : (
+                        <input
+                          value={text[`${c.id}:${alt.id}`] || ''}
+                          onChange={(e) => setField(`${c.id}:${alt.id}`, e.target.value)}
+                          placeholder="Value"
+                          className="w-28 bg-white p-2 rounded-lg mono text-sm text-center outline-none border border-black/10 focus:border-yellow-500"
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+        <datalist id="screening-criteria">
+          {criterionNames.map((name) => (
+            <option key={name} value={name} />
+          ))}
+        </datalist>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          {CONSTRAINT_KINDS.map((k) => (
+            <button
+              key={k.kind}
+              onClick={() => setConstraints((cs) => [...cs, { id: genId(), kind: k.kind, label: '', dealbreaker: true }])}
+              className="text-left p-4 rounded-xl bg-black/5 text-zinc-500 hover:bg-black hover:text-white transition-all"
+            >
+              <span className="text-xs font-black uppercase flex items-center gap-1">
+                <Plus size={12} /> {k.label}
+              </span>
+              <span className="text-[10px] opacity-60 italic serif block mt-1">{k.desc}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {constraints.length > 0 && (
+        <div className="space-y-2">
+          <span className="mono text-[10px] uppercase font-black text-zinc-500 block">Screening Result</span>
+          {results.map((r) => (
+            <div
+              key={r.id}
+              className={`flex items-start gap-3 px-4 py-3 rounded-xl text-sm ${
+                r.eliminated
+                  ? 'bg-red-50 text-red-700 border border-red-200'
+                  : r.failures.length
+                    ? 'bg-yellow-50 text-yellow-700 border border-yellow-200'
+                    : 'bg-green-50 text-green-700 border border-green-200'
+              }`}
+            >
+              {r.eliminated ? (
+                <X size={14} className="mt-0.5 shrink-0" />
+              ) : r.failures.length ? (
+                <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+              ) : (
+                <Check size={14} className="mt-0.5 shrink-0" />
+              )}
+              <span>
+                <strong>{r.name}</strong>
+                {r.failures.length
+                  ? ` \u2014 ${r.eliminated ? 'screened out' : 'flagged'}: ${r.failures.map((f) => f.reason).join('; ')}`
+                  : ' passes'}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(problems.length > 0 || passing < 2) && constraints.length > 0 && (
+        <div className="px-4 py-3 rounded-xl text-xs mono font-bold flex items-center gap-2 bg-yellow-50 text-yellow-700 border border-yellow-200">
+          <AlertTriangle size={14} /> {problems[0] || 'At least two options must pass screening to compare them'}
+        </div>
+      )}
+
+      <div className="pt-8 border-t border-black/5 flex justify-between">
+        <button
+          onClick={onBack}
+          className="px-10 py-5 border border-black/10 rounded-2xl font-black uppercase text-[10px] tracking-widest text-zinc-400 hover:bg-black hover:text-white transition-all"
+        >
+          <ArrowLeft className="inline mr-2" size={14} /> Back
+        </button>
+        <button
+          onClick={finish}
+          disabled={problems.length > 0 || passing < 2}
+          className="px-12 py-5 bg-black text-white rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-yellow-500 hover:text-black transition-all flex items-center gap-4 disabled:opacity-30"
+        >
+          {constraints.length ? 'Confirm Screening' : 'No Constraints \u2014 Next'} <ArrowRight size={14} />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ══════════════════════════════════════
+// STAGE 4: CRITERIA (with rank-weighting)
+// ══════════════════════════════════════
+
+const WEIGHTING_MODES: { id: WeightMethod; desc: string }[] = [
+  { id: 'manual', desc: 'Order the criteria and split 100% between them.' },
+  { id: 'ahp', desc: 'Compare criteria two at a time; weights follow.' },
+  { id: 'swing', desc: 'Value each criterion\u2019s worst-to-best swing against the biggest one.' },
+  { id: 'rank-order-centroid', desc: 'Weights follow from the ranking alone, steeply.' },
+  { id: 'rank-sum', desc: 'Weights follow from the ranking alone, evenly stepped.' },
+];
+
+// Pairwise slider positions -8..8 map onto Saaty's 1/9..9, with 0 for equal importance
+const saatyFromPosition = (p: number) => (p >= 0 ? p + 1 : 1 / (1 - p));
+const positionFromSaaty = (v: number) => Math.round(v >= 1 ? v - 1 : 1 - 1 / v);
+
+// "Cost is 3× as important as Fit (moderately more important)"
+function describeJudgement(a: string, b: string, v: number, verbal = true): string {
+  if (Math.abs(v - 1) < 0.05) return `${a} and ${b} are equally important`;
+  const [more, less, x] = v > 1 ? [a, b, v] : [b, a, 1 / v];
+  const anchor = verbal && SAATY_SCALE.find((s) => s.value === x);
+  return `${more} is ${Number.isInteger(x) ? x : x.toFixed(1)}\u00d7 as important as ${less}${anchor ? ` (${anchor.label})` : ''}`;
+}
+
+// Saved judgements keyed for the given criteria order; a pair saved the other way round is its reciprocal
+function orientJudgements(saved: Record<string, number>, criteria: { id: string }[]): Record<string, number> {
+  return Object.fromEntries(
+    criteria.flatMap((a, i) =>
+      criteria.slice(i + 1).flatMap((b) => {
+        const v = saved[`${a.id}:${b.id}`] ?? (saved[`${b.id}:${a.id}`] ? 1 / saved[`${b.id}:${a.id}`] : null);
+        return v == null ? [] : [[`${a.id}:${b.id}`, v]];
+      })
+    )
+  );
+}
+
+// One Saaty judgement per pair of criteria, on a slider that leans toward the more important one
+function PairwiseWeights({
+  criteria,
+  judgements,
+  onChange,
+}: {
+  criteria: { id: string; name: string }[];
+  judgements: Record<string, number>;
+  onChange: (judgements: Record<string, number>) => void;
+}) {
+  const pairs = criteria.flatMap((a, i) => criteria.slice(i + 1).map((b) => ({ a, b, key: `${a.id}:${b.id}` })));
+  const judged = (key: string) => judgements[key] ?? 1;
+  const ahp = ahpWeights(pairwiseMatrix(criteria.length, (i, j) => judged(`${criteria[i].id}:${criteria[j].id}`)));
+  const flagged = new Set(ahp.inconsistencies.map((x) => `${criteria[x.i].id}:${criteria[x.j].id}`));
+  const consistent = ahp.consistencyRatio <= CONSISTENCY_THRESHOLD;
+
+  return (
+    <div className="space-y-8">
+      <p className="text-sm text-zinc-500">
+        For each pair, slide toward the criterion that matters more, and by how much: 3 is moderately, 5 strongly, 7 very
+        strongly and 9 extremely more important.
+      </p>
+      <div className="space-y-3">
+        {pairs.map(({ a, b, key }) => {
+          const v = judged(key);
+          return (
+            <div
+              key={key}
+              className={`p-4 rounded-2xl border-2 space-y-2 ${flagged.has(key) && !consistent ? 'border-yellow-500 bg-yellow-500/5' : 'border-black/5 bg-white'}`}
+            >
+              <div className="grid grid-cols-[1fr_12rem_1fr] items-center gap-4">
+                <span className={`font-black serif italic text-right ${v > 1 ? 'text-black' : 'text-zinc-400'}`}>{a.name}</span>
+                <input
+                  type="range"
+                  min="-8"
+                  max="8"
+                  step="1"
+                  value={-positionFromSaaty(v)}
+                  onChange={(e) => onChange({ ...judgements, [key]: saatyFromPosition(-Number(e.target.value)) })}
+                  className="w-full accent-black"
+                />
+                <span className={`font-black serif italic ${v < 1 ? 'text-black' : 'text-zinc-400'}`}>{b.name}</span>
+              </div>
+              <p className="text-center text-xs text-zinc-500">{describeJudgement(a.name, b.name, v)}</p>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="p-6 rounded-2xl bg-black/[0.02] border border-black/5 space-y-4">
+        <span className="mono text-[10px] uppercase font-black text-zinc-500 block">Derived Weights</span>
+        {criteria
+          .map((c, i) => ({ ...c, weight: ahp.weights[i] }))
+          .sort((x, y) => y.weight - x.weight)
+          .map((c) => (
+            <div key={c.id} className="grid grid-cols-[10rem_1fr_3rem] gap-3 items-center">
+              <span className="text-sm font-bold truncate">{c.name}</span>
+              <div className="h-2 bg-black/5 rounded-full overflow-hidden">
+                <div className="h-full bg-yellow-500" style={{ width: `${c.weight * 100}%` }} />
+              </div>
+              <span className="mono text-xs font-bold text-right">{(c.weight * 100).toFixed(0)}%</span>
+            </div>
+          ))}
+        <div
+          className={`px-4 py-3 rounded-xl text-xs mono font-bold flex items-center gap-2 ${
+            consistent ? 'bg-green-50 text-green-700 border border-green-200' : 'bg-yellow-50 text-yellow-700 border border-yellow-200'
+          }`}
+        >
+          {consistent ? <Check size={14} /> : <AlertTriangle size={14} />}
+          Consistency ratio {ahp.consistencyRatio.toFixed(2)}
+          {consistent
+            ? criteria.length > 2 && ` \u2014 within Saaty's ${CONSISTENCY_THRESHOLD.toFixed(2)} limit`
+            : ` \u2014 above Saaty's ${CONSISTENCY_THRESHOLD.toFixed(2)} limit; revisit the judgements below`}
+        </div>
+        {!consistent && (
+          <div className="space-y-2">
+            {ahp.inconsistencies.map((x) => {
+              const key = `${criteria[x.i].id}:${criteria[x.j].id}`;
+              const a = criteria[x.i].name;
+              const b = criteria[x.j].name;
+              return (
+                <div key={key} className="flex items-start gap-3 text-xs text-zinc-600">
+                  <HelpCircle size={14} className="text-yellow-600 mt-0.5 shrink-0" />
+                  <p className="flex-1">
+                    You said {describeJudgement(a, b, x.judged, false)}, but your other answers imply{' '}
+                    {describeJudgement(a, b, x.implied, false)}.
+                  </p>
+                  {Math.abs(x.suggested - x.judged) > 1e-9 && (
+                    <button
+                      onClick={() => onChange({ ...judgements, [key]: x.suggested })}
+                      className="shrink-0 px-3 py-1 rounded-lg bg-black/5 font-bold hover:bg-black hover:text-white transition-all"
+                    >
+                      Use {x.suggested >= 1 ? x.suggested : `1/${Math.round(1 / x.suggested)}`}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function CriteriaStage({
+  decision,
+  dispatch,
+  onComplete,
+  onBack,
+}: {
+  decision: DecisionState;
+  dispatch: React.Dispatch<Action>;
+  onComplete: () => void;
+  onBack: () => void;
+}) {
+  const [step, setStep] = useState(0); // 0=edit, 1=rank
+  const [criteria, setCriteria] = useState<{ id: string; name: string }[]>(() =>
+    decision.criteria.length > 0
+      ? decision.criteria.map(({ id, name }) => ({ id, name }))
+      : [...(decision.template || DEFAULT_TEMPLATE).criteria]
+          .sort((a, b) => b.weight - a.weight)
+          .map(({ name }) => ({ id: genId(), name }))
+  );
+  const [newCrit, setNewCrit] = useState('');
+  const [ranked, setRanked] = useState<{ id: string; name: string }[] | null>(null);
+  const [manualWeights, setManualWeights] = useState<number[] | null>(null);
+  const [mode, setMode] = useState<WeightMethod>(decision.weighting?.method ?? 'manual');
+  const [judgements, setJudgements] = useState<Record<string, number>>(() =>
+    orientJudgements(decision.weighting?.judgements ?? {}, decision.criteria)
+  );
+  const [swingPoints, setSwingPoints] = useState<Record<string, number>>(decision.weighting?.swingPoints ?? {});
+
+  const getDefaultWeights = (count: number) => {
+    const presets: Record<number, number[]> = {
+      2: [60, 40],
+      3: [45, 35, 20],
+      4: [35, 25, 25, 15],
+      5: [35, 25, 20, 15, 5],
+    };
+    return presets[count] || Array(count).fill(Math.round(100 / count));
+  };
+
+  const weightSum = manualWeights ? manualWeights.reduce((s, w) => s + w, 0) : 0;
+  const weightsValid = manualWeights ? Math.abs(weightSum - 100) < 0.01 : false;
+
+  // The most valued swing starts at 100 and the rest step down in ranked order
+  const swingOf = (id: string, i: number) => swingPoints[id] ?? Math.max(10, 100 - 20 * i);
+  // Shares for the ranked list under the chosen method; AHP and unfinished manual weights give none
+  const listWeights = (): number[] | null => {
+    if (!ranked) return null;
+    switch (mode) {
+      case 'swing':
+        return swingWeights(ranked.map((c, i) => swingOf(c.id, i)));
+      case 'rank-order-centroid':
+        return rankOrderCentroid(ranked.length);
+      case 'rank-sum':
+        return rankSumWeights(ranked.length);
+      default:
+        return null;
+    }
+  };
+  const computed = listWeights();
+
+  const moveUp = (i: number) => {
+    if (i === 0 || !ranked || !manualWeights) return;
+    const next = [...ranked];
+    [next[i - 1], next[i]] = [next[i], next[i - 1]];
+    setRanked(next);
+    const nextW = [...manualWeights];
+    [nextW[i - 1], nextW[i]] = [nextW[i], nextW[i - 1]];
+    setManualWeights(nextW);
+  };
+
+  const moveDown = (i: number) => {
+    if (!ranked || !manualWeights || i === ranked.length - 1) return;
+    const next = [...ranked];
+    [next[i], next[i + 1]] = [next[i + 1], next[i]];
+    setRanked(next);
+    const nextW = [...manualWeights];
+    [nextW[i], nextW[i + 1]] = [nextW[i + 1], nextW[i]];
+    setManualWeights(nextW);
+  };
+
+  // Template weights only apply while the criteria still match the template's by name
+  const getTemplateWeights = (list: { name: string }[]) => {
+    const source = (decision.template || DEFAULT_TEMPLATE).criteria;
+    const weights = list.map((c) => source.find((t) => t.name === c.name.trim())?.weight);
+    if (weights.some((w) => w == null)) return null;
+    return Math.abs(weights.reduce((s, w) => s + w!, 0) - 100) < 0.01 ? (weights as number[]) : null;
+  };
+
+  const startRanking = () => {
+    const preset = getTemplateWeights(criteria);
+    if (preset) {
+      const order = criteria.map((c, i) => i).sort((a, b) => preset[b] - preset[a]);
+      setRanked(order.map((i) => criteria[i]));
+      setManualWeights(order.map((i) => preset[i]));
+    } else {
+      setRanked([...criteria]);
+      setManualWeights(getDefaultWeights(criteria.length));
+    }
+    setStep(1);
+  };
+
+  const confirmWeights = () => {
+    if (!ranked || !manualWeights) return;
+    let weighted: Criterion[] = ranked.map((c, i) => ({
+      ...c,
+      weight: computed ? computed[i] : (manualWeights[i] || 5) / 100,
+    }));
+    const weighting: WeightElicitation = { method: mode };
+    if (mode === 'ahp') {
+      const key = (i: number, j: number) => `${criteria[i].id}:${criteria[j].id}`;
+      const ahp = ahpWeights(pairwiseMatrix(criteria.length, (i, j) => judgements[key(i, j)] ?? 1));
+      weighted = criteria.map((c, i) => ({ ...c, weight: ahp.weights[i] })).sort((a, b) => b.weight - a.weight);
+      weighting.consistencyRatio = ahp.consistencyRatio;
+      // Only judgements between the current criteria, so removed ones don't linger in the file
+      weighting.judgements = Object.fromEntries(
+        criteria.flatMap((_, i) => criteria.slice(i + 1).map((__, k) => [key(i, i + 1 + k), judgements[key(i, i + 1 + k)] ?? 1]))
+      );
+    }
+    if (mode === 'swing') weighting.swingPoints = Object.fromEntries(ranked.map((c, i) => [c.id, swingOf(c.id, i)]));
+    dispatch({ type: 'SET', key: 'criteria', value: weighted });
+    dispatch({ type: 'SET', key: 'weighting', value: weighting });
+    onComplete();
+  };
+
+  return (
+    <div className="space-y-12">
+      {step === 0 && (
+        <>
+          <div className="grid gap-4">
+            {criteria.map((crit, i) => (
+              <div key={crit.id} className="bg-black/5 p-6 rounded-3xl flex items-center gap-6">
+                <div className="flex-1">
+                  <input
+                    value={crit.name}
+                    onChange={(e) => {
+                      const newCrits = [...criteria];
+                      newCrits[i] = { ...newCrits[i], name: e.target.value };
+                      setCriteria(newCrits);
+                    }}
+                    className="bg-transparent font-black text-xl serif italic outline-none w-full"
+                  />
+                </div>
+                {criteria.length > 2 && (
+                  <button
+                    onClick={() => setCriteria(criteria.filter((c) => c.id !== crit.id))}
+                    className="p-2 text-zinc-300 hover:text-red-500"
+                  >
+                    <X size={16} />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
           {criteria.length < 5 && (
             <div className="flex gap-4">
               <input
@@ -719,98 +1783,494 @@ function CriteriaStage({
 
       {step === 1 && ranked && manualWeights && (
         <>
-          <p className="text-sm text-zinc-500">
-            Drag to reorder by importance. Adjust weights (must sum to 100%).
-          </p>
-          <div className="space-y-3">
-            {ranked.map((c, i) => (
-              <div
-                key={c.id}
-                className={`flex items-center gap-4 p-5 rounded-2xl border-2 transition-all ${
-                  i === 0 ? 'border-yellow-500 bg-yellow-500/5' : 'border-black/5 bg-white'
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+            {WEIGHTING_MODES.map((m) => (
+              <button
+                key={m.id}
+                onClick={() => setMode(m.id)}
+                className={`p-4 rounded-xl text-left transition-all ${
+                  mode === m.id ? 'bg-black text-white' : 'bg-black/5 text-zinc-500 hover:bg-black/10'
                 }`}
               >
-                <span className="mono text-sm font-bold w-8 text-center text-zinc-400">#{i + 1}</span>
-                <span className="flex-1 font-black serif italic text-lg">{c.name}</span>
-                <div className="flex items-center gap-2">
-                  <input
-                    type="number"
-                    min="0"
-                    max="100"
-                    step="1"
-                    value={manualWeights[i]}
-                    onChange={(e) => {
-                      const next = [...manualWeights];
-                      next[i] = Math.max(0, Math.min(100, Number(e.target.value) || 0));
-                      setManualWeights(next);
-                    }}
-                    className="w-16 text-center mono font-bold p-2 rounded-lg border border-black/10 outline-none focus:ring-1 ring-yellow-500"
-                  />
-                  <span className="mono text-xs text-zinc-400">%</span>
-                </div>
-                <div className="flex flex-col gap-0.5">
-                  <button
-                    onClick={() => moveUp(i)}
-                    disabled={i === 0}
-                    className="p-1 text-zinc-300 hover:text-black disabled:opacity-20"
-                  >
-                    <ChevronUp size={14} />
-                  </button>
-                  <button
-                    onClick={() => moveDown(i)}
-                    disabled={i === ranked.length - 1}
-                    className="p-1 text-zinc-300 hover:text-black disabled:opacity-20"
+                <span className="text-xs font-black uppercase block">{WEIGHT_METHOD_LABELS[m.id]}</span>
+                <span className="text-[10px] opacity-60 italic serif block mt-1">{m.desc}</span>
+              </button>
+            ))}
+          </div>
+
+          {mode === 'ahp' ? (
+            <PairwiseWeights criteria={criteria} judgements={judgements} onChange={setJudgements} />
+          ) : (
+            <>
+              <p className="text-sm text-zinc-500">
+                {mode === 'manual'
+                  ? 'Drag to reorder by importance. Adjust weights (must sum to 100%).'
+                  : mode === 'swing'
+                    ? 'Picture every criterion at its worst. Rate how much moving each one to its best is worth, with the most valuable swing at 100.'
+                    : 'Drag to reorder by importance. Weights follow from the order.'}
+              </p>
+              <div className="space-y-3">
+                {ranked.map((c, i) => (
+                  <div
+                    key={c.id}
+                    className={`flex items-center gap-4 p-5 rounded-2xl border-2 transition-all ${
+                      i === 0 ? 'border-yellow-500 bg-yellow-500/5' : 'border-black/5 bg-white'
+                    }`}
                   >
-                    <ChevronDown size={14} />
-                  </button>
-                </div>
+                    <span className="mono text-sm font-bold w-8 text-center text-zinc-400">#{i + 1}</span>
+                    <span className="flex-1 font-black serif italic text-lg">{c.name}</span>
+                    {mode === 'manual' ? (
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="1"
+                          value={manualWeights[i]}
+                          onChange={(e) => {
+                            const next = [...manualWeights];
+                            next[i] = Math.max(0, Math.min(100, Number(e.target.value) || 0));
+                            setManualWeights(next);
+                          }}
+                          className="w-16 text-center mono font-bold p-2 rounded-lg border border-black/10 outline-none focus:ring-1 ring-yellow-500"
+                        />
+                        <span className="mono text-xs text-zinc-400">%</span>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-3">
+                        {mode === 'swing' && (
+                          <>
+                            <input
+                              type="range"
+                              min="0"
+                              max="100"
+                              step="5"
+                              value={swingOf(c.id, i)}
+                              onChange={(e) => setSwingPoints({ ...swingPoints, [c.id]: Number(e.target.value) })}
+                              className="w-32 accent-yellow-500"
+                            />
+                            <span className="mono text-xs font-bold w-8 text-right">{swingOf(c.id, i)}</span>
+                          </>
+                        )}
+                        <span className="mono text-sm font-bold w-14 text-right text-zinc-500">
+                          {computed ? `${(computed[i] * 100).toFixed(1)}%` : '\u2014'}
+                        </span>
+                      </div>
+                    )}
+                    <div className="flex flex-col gap-0.5">
+                      <button
+                        onClick={() => moveUp(i)}
+                        disabled={i === 0}
+                        className="p-1 text-zinc-300 hover:text-black disabled:opacity-20"
+                      >
+                        <ChevronUp size={14} />
+                      </button>
+                      <button
+                        onClick={() => moveDown(i)}
+                        disabled={i === ranked.length - 1}
+                        className="p-1 text-zinc-300 hover:text-black disabled:opacity-20"
+                      >
+                        <ChevronDown size={14} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
               </div>
-            ))}
+
+              {mode === 'manual' && (
+                <div
+                  className={`px-4 py-3 rounded-xl text-xs mono font-bold flex items-center gap-2 ${
+                    weightsValid
+                      ? 'bg-green-50 text-green-700 border border-green-200'
+                      : 'bg-yellow-50 text-yellow-700 border border-yellow-200'
+                  }`}
+                >
+                  {weightsValid ? (
+                    <>
+                      <Check size={14} /> Weights sum to 100%
+                    </>
+                  ) : (
+                    <>
+                      <AlertTriangle size={14} /> Weights must sum to 100% (currently: {weightSum}%)
+                    </>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="pt-8 border-t border-black/5 flex justify-between">
+            <button
+              onClick={() => setStep(0)}
+              className="px-10 py-5 border border-black/10 rounded-2xl font-black uppercase text-[10px] tracking-widest text-zinc-400 hover:bg-black hover:text-white transition-all"
+            >
+              <ArrowLeft className="inline mr-2" size={14} /> Edit Criteria
+            </button>
+            <button
+              onClick={confirmWeights}
+              disabled={(mode === 'manual' && !weightsValid) || (mode === 'swing' && !computed)}
+              className="px-12 py-5 bg-black text-white rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-yellow-500 hover:text-black transition-all flex items-center gap-4 disabled:opacity-30"
+            >
+              Confirm Weights <ArrowRight size={14} />
+            </button>
           </div>
+        </>
+      )}
+    </div>
+  );
+}
 
-          <div
-            className={`px-4 py-3 rounded-xl text-xs mono font-bold flex items-center gap-2 ${
-              weightsValid
-                ? 'bg-green-50 text-green-700 border border-green-200'
-                : 'bg-yellow-50 text-yellow-700 border border-yellow-200'
+// ══════════════════════════════════════
+// STAGE 5: SCORING
+// ══════════════════════════════════════
+
+// Weighted score of every alternative against one criterion's share of the weight; each is a
+// straight line, the band is where the current winner stays #1 and the solid line is the what-if
+function WeightChart({
+  alternatives,
+  criteria,
+  scores,
+  stability,
+  weight,
+}: {
+  alternatives: Alternative[];
+  criteria: Criterion[];
+  scores: Record<string, Record<string, number>>;
+  stability: WeightStability;
+  weight: number;
+}) {
+  const ends = [0, 1].map(
+    (w) =>
+      Object.fromEntries(
+        calculateRankings(alternatives, reweight(criteria, stability.criterionId, w), scores).map((r) => [r.id, r.score])
+      ) as Record<string, number>
+  );
+  const y = (score: number) => 38 - ((score - 1) / 9) * 36;
+  return (
+    <div>
+      <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-40 bg-black/5 rounded-lg">
+        <rect x={stability.lo * 100} width={(stability.hi - stability.lo) * 100} y={0} height={40} fill="#eab308" fillOpacity={0.12} />
+        {alternatives.map((a, i) => (
+          <line
+            key={a.id}
+            x1={0}
+            x2={100}
+            y1={y(ends[0][a.id])}
+            y2={y(ends[1][a.id])}
+            stroke={comparisonColor(i)}
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        <line
+          x1={stability.weight * 100}
+          x2={stability.weight * 100}
+          y1={0}
+          y2={40}
+          stroke="#a1a1aa"
+          strokeWidth={1}
+          strokeDasharray="3 2"
+          vectorEffect="non-scaling-stroke"
+        />
+        <line x1={weight * 100} x2={weight * 100} y1={0} y2={40} stroke="#18181b" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between mono text-[10px] text-zinc-400 mt-1">
+        <span>0%</span>
+        <span>Shaded: winner holds &middot; dashed: current weight</span>
+        <span>100%</span>
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2">
+        {alternatives.map((a, i) => (
+          <span key={a.id} className="flex items-center gap-1 text-[10px] text-zinc-500">
+            <span className="w-3 h-0.5 inline-block" style={{ background: comparisonColor(i) }} />
+            {a.name}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const AGGREGATION_DESCRIPTIONS: Record<AggregationMethod, string> = {
+  'weighted-sum': 'Average of scores by weight; strengths fully offset weaknesses.',
+  topsis: 'Closeness to an ideal option; lopsided profiles pay a price.',
+  promethee: 'Pairwise wins criterion by criterion; gaps of a point or less are ignored.',
+};
+
+// The ranking under every aggregation method side by side, flagged when they disagree on the winner
+function MethodComparison({ methods, rankings }: { methods: MethodRanking[]; rankings: Ranking[] }) {
+  if (rankings.length < 2 || !methods.length) return null;
+  const dependent = winnerDependsOnMethod(methods);
+  return (
+    <div className="p-6 rounded-2xl bg-black/[0.02] border border-black/5 space-y-4">
+      <span className="mono text-[10px] uppercase font-black text-zinc-500 block">Method Comparison</span>
+      <table className="w-full">
+        <thead>
+          <tr className="mono text-[10px] text-zinc-400">
+            <th className="text-left py-2">ALTERNATIVE</th>
+            {methods.map((m) => (
+              <th key={m.method} className="py-2 text-center">
+                {AGGREGATION_LABELS[m.method].toUpperCase()}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rankings.map((r) => (
+            <tr key={r.id} className="border-t border-black/5">
+              <td className="py-2 text-sm font-bold">{r.name}</td>
+              {methods.map((m) => {
+                const rank = m.rankings.findIndex((x) => x.id === r.id);
+                return (
+                  <td key={m.method} className={`py-2 text-center mono text-xs ${rank === 0 ? 'font-black text-yellow-600' : ''}`}>
+                    #{rank + 1} <span className="text-zinc-400">({m.rankings[rank].score.toFixed(1)})</span>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div
+        className={`px-4 py-3 rounded-xl text-xs flex items-start gap-2 ${
+          dependent ? 'bg-yellow-50 text-yellow-700 border border-yellow-200' : 'text-zinc-500'
+        }`}
+      >
+        {dependent ? <AlertTriangle size={14} className="shrink-0 mt-0.5" /> : <Check size={14} className="shrink-0 mt-0.5" />}
+        {describeMethodAgreement(methods)}
+      </div>
+    </div>
+  );
+}
+
+// Two criteria against each other: every option as a dot, the two-criterion frontier as a
+// staircase, and options dominated across all criteria drawn hollow
+function TradeoffPlot({
+  alternatives,
+  criteria,
+  scores,
+  pareto,
+}: {
+  alternatives: Alternative[];
+  criteria: Criterion[];
+  scores: Record<string, Record<string, number>>;
+  pareto: ParetoResult;
+}) {
+  const heaviest = [...criteria].sort((a, b) => b.weight - a.weight);
+  const [xId, setXId] = useState(heaviest[0]?.id || '');
+  const [yId, setYId] = useState(heaviest[1]?.id || '');
+  const x = criteria.find((c) => c.id === xId) || heaviest[0];
+  const y = criteria.find((c) => c.id === yId) || heaviest[1];
+  if (alternatives.length < 2 || !x || !y) return null;
+
+  const score = (altId: string, c: Criterion) => scores[altId]?.[c.id] ?? 5;
+  const px = (v: number) => 8 + ((v - 1) / 9) * 88;
+  const py = (v: number) => 92 - ((v - 1) / 9) * 88;
+  // Options on the same spot are nudged apart so each stays visible
+  const seen: Record<string, number> = {};
+  const points = alternatives.map((a, i) => {
+    const key = `${score(a.id, x)}:${score(a.id, y)}`;
+    const nudge = (seen[key] = (seen[key] ?? -1) + 1) * 2.5;
+    return { a, i, cx: px(score(a.id, x)) + nudge, cy: py(score(a.id, y)) };
+  });
+  const frontier = x.id === y.id ? [] : paretoFrontier(alternatives, [x, y], scores).efficient;
+  const steps = alternatives
+    .filter((a) => frontier.includes(a.id))
+    .sort((a, b) => score(a.id, x) - score(b.id, x) || score(b.id, y) - score(a.id, y))
+    .flatMap((a, i, list) => {
+      const here = `${px(score(a.id, x))},${py(score(a.id, y))}`;
+      const next = list[i + 1];
+      return next ? [here, `${px(score(a.id, x))},${py(score(next.id, y))}`] : [here];
+    });
+  const selectClass = 'bg-black/5 p-2 rounded-lg mono text-xs text-black outline-none border border-black/10 focus:border-yellow-500';
+
+  return (
+    <div className="p-6 rounded-2xl bg-black/[0.02] border border-black/5 space-y-4">
+      <div>
+        <span className="mono text-[10px] uppercase font-black text-zinc-500 block">Tradeoff View</span>
+        <p className="text-xs text-zinc-500 mt-1">
+          Up and to the right is better. The line joins the options nothing beats on both criteria; hollow dots are
+          dominated across every criterion.
+        </p>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 mono text-[10px] text-zinc-400">
+        <span>X</span>
+        <select value={x.id} onChange={(e) => setXId(e.target.value)} className={selectClass}>
+          {criteria.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.name}
+            </option>
+          ))}
+        </select>
+        <span className="ml-4">Y</span>
+        <select value={y.id} onChange={(e) => setYId(e.target.value)} className={selectClass}>
+          {criteria.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      <svg viewBox="0 0 100 100" className="w-full max-w-md aspect-square bg-black/5 rounded-lg">
+        <line x1={8} x2={96} y1={92} y2={92} stroke="#d4d4d8" strokeWidth={0.4} />
+        <line x1={8} x2={8} y1={4} y2={92} stroke="#d4d4d8" strokeWidth={0.4} />
+        {steps.length > 1 && (
+          <polyline points={steps.join(' ')} fill="none" stroke="#eab308" strokeWidth={0.8} strokeDasharray="2 1" />
+        )}
+        {points.map(({ a, i, cx, cy }) => {
+          const dominated = pareto.dominated.some((d) => d.id === a.id);
+          return (
+            <circle
+              key={a.id}
+              cx={cx}
+              cy={cy}
+              r={2.2}
+              fill={dominated ? 'white' : comparisonColor(i)}
+              stroke={comparisonColor(i)}
+              strokeWidth={0.8}
+            >
+              <title>{`${a.name}: ${score(a.id, x)} on ${x.name}, ${score(a.id, y)} on ${y.name}`}</title>
+            </circle>
+          );
+        })}
+      </svg>
+      <div className="flex flex-wrap gap-x-4 gap-y-1">
+        {points.map(({ a, i }) => (
+          <span key={a.id} className="flex items-center gap-1 text-[10px] text-zinc-500">
+            <span
+              className="w-2.5 h-2.5 rounded-full inline-block border"
+              style={{
+                borderColor: comparisonColor(i),
+                background: pareto.dominated.some((d) => d.id === a.id) ? 'white' : comparisonColor(i),
+              }}
+            />
+            {a.name}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// One-at-a-time weight sensitivity: how far each weight can move before the winner changes,
+// and a what-if slider that re-ranks live and can be kept as the new weighting
+function WeightSensitivity({
+  alternatives,
+  criteria,
+  scores,
+  onApply,
+}: {
+  alternatives: Alternative[];
+  criteria: Criterion[];
+  scores: Record<string, Record<string, number>>;
+  onApply: (criteria: Criterion[]) => void;
+}) {
+  const stability = useMemo(() => weightStability(alternatives, criteria, scores), [alternatives, criteria, scores]);
+  const [selectedId, setSelectedId] = useState(criteria[0]?.id || '');
+  const [whatIf, setWhatIf] = useState<number | null>(null);
+  const selected = stability.find((s) => s.criterionId === selectedId) || stability[0];
+  if (!selected) return null;
+
+  const weight = whatIf ?? selected.weight;
+  const reweighted = reweight(criteria, selected.criterionId, weight);
+  const live = calculateRankings(alternatives, reweighted, scores);
+  const winner = calculateRankings(alternatives, criteria, scores)[0];
+  const pctLabel = (w: number) => `${(w * 100).toFixed(0)}%`;
+
+  return (
+    <div className="p-6 rounded-2xl bg-black/[0.02] border border-black/5 space-y-6">
+      <div>
+        <span className="mono text-[10px] uppercase font-black text-zinc-500 block">Weight Sensitivity</span>
+        <p className="text-xs text-zinc-500 mt-1">
+          The range each criterion&rsquo;s weight can take, the others rescaled in proportion, while {winner.name} stays #1.
+          Pick a criterion to explore it.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {stability.map((s) => (
+          <button
+            key={s.criterionId}
+            onClick={() => {
+              setSelectedId(s.criterionId);
+              setWhatIf(null);
+            }}
+            className={`w-full grid grid-cols-[8rem_1fr_6rem] gap-3 items-center text-left rounded-lg px-2 py-1 transition-all ${
+              s.criterionId === selected.criterionId ? 'bg-black/5' : 'hover:bg-black/[0.03]'
             }`}
-          >
-            {weightsValid ? (
-              <>
-                <Check size={14} /> Weights sum to 100%
-              </>
-            ) : (
-              <>
-                <AlertTriangle size={14} /> Weights must sum to 100% (currently: {weightSum}%)
-              </>
-            )}
-          </div>
+          >
+            <span className="mono text-[10px] text-zinc-600 truncate" title={s.name}>
+              {s.name}
+            </span>
+            <div className="relative h-3 bg-black/5 rounded">
+              <div
+                className="absolute top-0 bottom-0 bg-yellow-500/40 rounded"
+                style={{ left: `${s.lo * 100}%`, width: `${(s.hi - s.lo) * 100}%` }}
+              />
+              <div className="absolute -top-0.5 -bottom-0.5 w-0.5 bg-black" style={{ left: `${s.weight * 100}%` }} />
+            </div>
+            <span className="mono text-[10px] font-bold text-black text-right">
+              {s.belowRival || s.aboveRival ? `${pctLabel(s.lo)}\u2013${pctLabel(s.hi)}` : 'any weight'}
+            </span>
+          </button>
+        ))}
+      </div>
 
-          <div className="pt-8 border-t border-black/5 flex justify-between">
+      <WeightChart alternatives={alternatives} criteria={criteria} scores={scores} stability={selected} weight={weight} />
+
+      <div className="space-y-3">
+        <label className="flex items-center gap-3 text-xs text-zinc-600">
+          <span className="shrink-0 font-bold">{selected.name}</span>
+          <input
+            type="range"
+            min="0"
+            max="100"
+            step="1"
+            value={Math.round(weight * 100)}
+            onChange={(e) => setWhatIf(Number(e.target.value) / 100)}
+            className="flex-1 accent-black"
+          />
+          <span className="mono font-bold text-black w-10 text-right">{pctLabel(weight)}</span>
+        </label>
+        <div className="space-y-1">
+          {live.map((r, idx) => (
+            <div key={r.id} className={`flex justify-between text-xs ${idx === 0 ? 'font-bold text-black' : 'text-zinc-500'}`}>
+              <span>
+                #{idx + 1} {r.name}
+              </span>
+              <span className="mono">{r.score.toFixed(2)}</span>
+            </div>
+          ))}
+        </div>
+        {live[0] && live[0].id !== winner.id && (
+          <p className="text-xs text-red-500">
+            At {pctLabel(weight)} {live[0].name} overtakes {winner.name}.
+          </p>
+        )}
+        {whatIf != null && Math.abs(whatIf - selected.weight) > 1e-9 && (
+          <div className="flex gap-2">
             <button
-              onClick={() => setStep(0)}
-              className="px-10 py-5 border border-black/10 rounded-2xl font-black uppercase text-[10px] tracking-widest text-zinc-400 hover:bg-black hover:text-white transition-all"
+              onClick={() => setWhatIf(null)}
+              className="px-4 py-2 rounded-lg bg-black/5 text-zinc-500 text-xs font-bold hover:bg-black/10 transition-all"
             >
-              <ArrowLeft className="inline mr-2" size={14} /> Edit Criteria
+              Reset
             </button>
             <button
-              onClick={confirmWeights}
-              disabled={!weightsValid}
-              className="px-12 py-5 bg-black text-white rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-yellow-500 hover:text-black transition-all flex items-center gap-4 disabled:opacity-30"
+              onClick={() => {
+                onApply(reweighted);
+                setWhatIf(null);
+              }}
+              className="px-4 py-2 rounded-lg bg-black text-white text-xs font-bold hover:bg-yellow-500 hover:text-black transition-all"
             >
-              Confirm Weights <ArrowRight size={14} />
+              Keep {pctLabel(weight)} for {selected.name}
             </button>
           </div>
-        </>
-      )}
+        )}
+      </div>
     </div>
   );
 }
 
-// ══════════════════════════════════════
-// STAGE 4: SCORING
-// ══════════════════════════════════════
-
 function ScoringStage({
   decision,
   dispatch,
@@ -822,10 +2282,15 @@ function ScoringStage({
   onComplete: () => void;
   onBack: () => void;
 }) {
-  const { alternatives, criteria } = decision;
+  const { criteria } = decision;
+  // Options a dealbreaker screened out are never scored
+  const scored = useMemo(
+    () => shortlist(decision.alternatives, criteria, decision.screening, null),
+    [decision.alternatives, criteria, decision.screening]
+  );
   const [localScores, setLocalScores] = useState<Record<string, Record<string, number>>>(() => {
     const s: Record<string, Record<string, number>> = {};
-    alternatives.forEach((a) => {
+    scored.forEach((a) => {
       s[a.id] = {};
       criteria.forEach((c) => {
         s[a.id][c.id] = decision.scores?.[a.id]?.[c.id] ?? 5;
@@ -833,18 +2298,65 @@ function ScoringStage({
     });
     return s;
   });
+  const [localRanges, setLocalRanges] = useState<ScoreRanges>(() => decision.scoreRanges || {});
+  const [useRanges, setUseRanges] = useState(() => hasScoreRanges(scored, criteria, decision.scoreRanges));
+  const [method, setMethod] = useState<AggregationMethod>(decision.aggregation || 'weighted-sum');
   const [showResults, setShowResults] = useState(false);
   const [aiInsight, setAiInsight] = useState<string | null>(null);
   const [aiInsightLoading, setAiInsightLoading] = useState(false);
 
+  // Minimum scores from screening drop an option out of the rankings once it is scored
+  const floored = useMemo(
+    () => screenAlternatives(scored, criteria, decision.screening, localScores).filter((r) => r.eliminated),
+    [scored, criteria, decision.screening, localScores]
+  );
+  const alternatives = useMemo(() => scored.filter((a) => !floored.some((r) => r.id === a.id)), [scored, floored]);
+
   const rankings = useMemo(
-    () => calculateRankings(alternatives, criteria, localScores),
-    [alternatives, criteria, localScores]
+    () => rankWith(method, alternatives, criteria, localScores),
+    [method, alternatives, criteria, localScores]
+  );
+  const pareto = useMemo(() => paretoFrontier(alternatives, criteria, localScores), [alternatives, criteria, localScores]);
+  const dominatedBy = Object.fromEntries(pareto.dominated.map((d) => [d.id, d]));
+  const methods = useMemo(
+    () => (showResults ? compareMethods(alternatives, criteria, localScores) : []),
+    [showResults, alternatives, criteria, localScores]
   );
   const insights = useMemo(
-    () => detectScoringPatterns(rankings, alternatives, criteria, localScores),
-    [rankings, alternatives, criteria, localScores]
+    () => detectScoringPatterns(rankings, alternatives, criteria, localScores, method),
+    [rankings, alternatives, criteria, localScores, method]
   );
+  // Only ranges wider than a point, on the current alternatives and criteria, are kept
+  const savedRanges = useMemo(() => {
+    if (!useRanges) return {};
+    const kept: ScoreRanges = {};
+    for (const a of scored)
+      for (const c of criteria) {
+        const r = localRanges[a.id]?.[c.id];
+        if (r && r.high > r.low) kept[a.id] = { ...kept[a.id], [c.id]: r };
+      }
+    return kept;
+  }, [useRanges, localRanges, scored, criteria]);
+  const acceptability = useMemo(
+    () => (showResults ? rankAcceptability(alternatives, criteria, localScores, savedRanges, method) : null),
+    [showResults, alternatives, criteria, localScores, savedRanges, method]
+  );
+
+  const rangeOf = (altId: string, critId: string): ScoreRange => {
+    const score = localScores[altId]?.[critId] || 5;
+    return localRanges[altId]?.[critId] || { low: score, high: score };
+  };
+  const setRangeEnd = (altId: string, critId: string, end: keyof ScoreRange, value: number) => {
+    const v = Math.min(10, Math.max(1, Math.round(value) || 1));
+    const prev = rangeOf(altId, critId);
+    const range = end === 'low' ? { low: v, high: Math.max(prev.high, v) } : { low: Math.min(prev.low, v), high: v };
+    setLocalRanges((r) => ({ ...r, [altId]: { ...r[altId], [critId]: range } }));
+    // The point score stays the best guess inside its range
+    setLocalScores((s) => ({
+      ...s,
+      [altId]: { ...s[altId], [critId]: Math.min(range.high, Math.max(range.low, s[altId]?.[critId] || 5)) },
+    }));
+  };
 
   const fetchAiInsight = useCallback(async () => {
     if (rankings.length < 2) return;
@@ -867,11 +2379,18 @@ function ScoringStage({
 
   const handleContinue = () => {
     const topAlt = rankings[0];
+    const prevTop = decision.topChoice;
     dispatch({ type: 'SET', key: 'scores', value: localScores });
+    dispatch({ type: 'SET', key: 'scoreRanges', value: savedRanges });
+    if (method !== decision.aggregation) dispatch({ type: 'SET', key: 'aggregation', value: method });
     dispatch({
       type: 'SET',
       key: 'topChoice',
-      value: { id: topAlt.id, name: topAlt.name, bestCase: 0, mostLikely: 0, worstCase: 0 },
+      // Keep outcome estimates when the winner is unchanged so the simulation stays valid
+      value:
+        prevTop?.id === topAlt.id
+          ? { ...prevTop, name: topAlt.name }
+          : { id: topAlt.id, name: topAlt.name, bestCase: 0, mostLikely: 0, worstCase: 0 },
     });
     onComplete();
   };
@@ -879,6 +2398,44 @@ function ScoringStage({
   if (showResults) {
     return (
       <div className="space-y-12">
+        <div className="space-y-3">
+          <span className="mono text-[10px] uppercase font-black text-zinc-500 block">Aggregation Method</span>
+          <div className="grid md:grid-cols-3 gap-2">
+            {AGGREGATION_METHODS.map((m) => (
+              <button
+                key={m}
+                onClick={() => setMethod(m)}
+                className={`text-left p-4 rounded-xl border-2 transition-all ${
+                  method === m ? 'border-yellow-500 bg-yellow-500/5' : 'border-black/5 bg-white hover:border-black/20'
+                }`}
+              >
+                <span className="text-xs font-black uppercase block">{AGGREGATION_LABELS[m]}</span>
+                <span className="text-[11px] text-zinc-500">{AGGREGATION_DESCRIPTIONS[m]}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {floored.length > 0 && (
+          <div className="space-y-2">
+            {floored.map((r) => (
+              <div
+                key={r.id}
+                className="flex items-start gap-3 px-4 py-3 rounded-xl text-sm bg-red-50 text-red-700 border border-red-200"
+              >
+                <X size={14} className="mt-0.5 shrink-0" />
+                <span>
+                  <strong>{r.name}</strong> is screened out:{' '}
+                  {r.failures
+                    .filter((f) => f.eliminates)
+                    .map((f) => f.reason)
+                    .join('; ')}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className="overflow-x-auto">
           <table className="w-full">
             <thead>
@@ -891,7 +2448,9 @@ function ScoringStage({
                     <span className="text-zinc-300">({(c.weight * 100).toFixed(0)}%)</span>
                   </th>
                 ))}
-                <th className="p-4 mono text-[10px] text-yellow-600 text-center">WEIGHTED</th>
+                <th className="p-4 mono text-[10px] text-yellow-600 text-center">
+                  {method === 'weighted-sum' ? 'WEIGHTED' : AGGREGATION_LABELS[method].toUpperCase()}
+                </th>
               </tr>
             </thead>
             <tbody>
@@ -903,6 +2462,14 @@ function ScoringStage({
                   <td className="p-4 font-black serif italic text-lg">
                     {idx === 0 && <span className="mr-2">&#127942;</span>}
                     {r.name}
+                    {dominatedBy[r.id] && (
+                      <span
+                        title={`Dominated by ${dominatorNames(dominatedBy[r.id])}`}
+                        className="ml-2 not-italic font-sans mono text-[9px] uppercase font-bold px-2 py-0.5 rounded-full border border-zinc-300 text-zinc-400 align-middle"
+                      >
+                        Dominated
+                      </span>
+                    )}
                   </td>
                   {criteria.map((c) => (
                     <td key={c.id} className="p-4 text-center mono font-bold">
@@ -915,14 +2482,17 @@ function ScoringStage({
                     }`}
                   >
                     {r.score.toFixed(1)}
-                    <span className={`ml-2 text-[10px] font-bold px-2 py-0.5 rounded-full ${
-                      r.score >= 8 ? 'bg-green-100 text-green-700' :
-                      r.score >= 6 ? 'bg-yellow-100 text-yellow-700' :
-                      r.score >= 4 ? 'bg-orange-100 text-orange-700' :
-                      'bg-red-100 text-red-700'
-                    }`}>
-                      {r.score >= 8 ? 'Strong' : r.score >= 6 ? 'Moderate' : r.score >= 4 ? 'Weak' : 'Poor'}
-                    </span>
+                    {/* TOPSIS and PROMETHEE scores are relative to the other alternatives, so no absolute grade */}
+                    {method === 'weighted-sum' && (
+                      <span className={`ml-2 text-[10px] font-bold px-2 py-0.5 rounded-full ${
+                        r.score >= 8 ? 'bg-green-100 text-green-700' :
+                        r.score >= 6 ? 'bg-yellow-100 text-yellow-700' :
+                        r.score >= 4 ? 'bg-orange-100 text-orange-700' :
+                        'bg-red-100 text-red-700'
+                      }`}>
+                        {r.score >= 8 ? 'Strong' : r.score >= 6 ? 'Moderate' : r.score >= 4 ? 'Weak' : 'Poor'}
+                      </span>
+                    )}
                   </td>
                 </tr>
               ))}
@@ -930,6 +2500,53 @@ function ScoringStage({
           </table>
         </div>
 
+        <MethodComparison methods={methods} rankings={rankings} />
+
+        <TradeoffPlot alternatives={alternatives} criteria={criteria} scores={localScores} pareto={pareto} />
+
+        {acceptability && (
+          <div className="p-6 rounded-2xl bg-black/[0.02] border border-black/5 space-y-4">
+            <div>
+              <span className="mono text-[10px] uppercase font-black text-zinc-500 block">Rank Acceptability</span>
+              <p className="text-xs text-zinc-500 mt-1">
+                Ranged scores drawn {simulationProvenance({ trials: DEFAULT_TRIALS, seed: ACCEPTABILITY_SEED })}.{' '}
+                {describeAcceptability(acceptability)}
+              </p>
+            </div>
+            <table className="w-full">
+              <thead>
+                <tr className="mono text-[10px] text-zinc-400">
+                  <th className="text-left py-2">ALTERNATIVE</th>
+                  {acceptability.map((_, rank) => (
+                    <th key={rank} className="py-2 text-center">
+                      #{rank + 1}
+                    </th>
+                  ))}
+                  <th className="py-2 text-right">EXP. RANK</th>
+                </tr>
+              </thead>
+              <tbody>
+                {acceptability.map((a) => (
+                  <tr key={a.id} className="border-t border-black/5">
+                    <td className="py-2 text-sm font-bold">{a.name}</td>
+                    {a.ranks.map((p, rank) => (
+                      <td key={rank} className="py-1 px-1">
+                        <div
+                          className="mono text-[10px] text-center rounded py-1 text-black"
+                          style={{ background: `rgba(234, 179, 8, ${(p * 0.8).toFixed(2)})` }}
+                        >
+                          {(p * 100).toFixed(0)}%
+                        </div>
+                      </td>
+                    ))}
+                    <td className="py-2 mono text-xs text-right">{a.expectedRank.toFixed(1)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
         {/* AI Insight */}
         {aiInsightLoading && (
           <div className="flex items-center gap-3 p-4 rounded-xl bg-yellow-500/5 border border-yellow-500/10">
@@ -962,6 +2579,19 @@ function ScoringStage({
           </div>
         )}
 
+        {/* Stability intervals rely on the weighted sum being linear in each weight */}
+        {method === 'weighted-sum' && (
+          <WeightSensitivity
+            alternatives={alternatives}
+            criteria={criteria}
+            scores={localScores}
+            onApply={(value) => {
+              dispatch({ type: 'SET', key: 'criteria', value });
+              dispatch({ type: 'SET', key: 'weighting', value: { method: 'manual' } });
+            }}
+          />
+        )}
+
         <div className="pt-8 border-t border-black/5 flex justify-between">
           <button
             onClick={() => {
@@ -974,96 +2604,667 @@ function ScoringStage({
           </button>
           <button
             onClick={handleContinue}
-            className="px-12 py-5 bg-black text-white rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-yellow-500 hover:text-black transition-all flex items-center gap-4"
+            disabled={!rankings.length}
+            className="px-12 py-5 bg-black text-white rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-yellow-500 hover:text-black transition-all flex items-center gap-4 disabled:opacity-30"
+          >
+            {isStageActive('uncertainty', decision)
+              ? 'Uncertainty Analysis'
+              : isStageActive('premortem', decision)
+                ? 'Risk Audit'
+                : 'Generate Memo'}{' '}
+            <ArrowRight size={14} />
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-12">
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr>
+              <th className="text-left p-4 mono text-[10px] text-zinc-400">ALTERNATIVE</th>
+              {criteria.map((c) => (
+                <th key={c.id} className="p-4 mono text-[10px] text-zinc-400 text-center">
+                  {c.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {scored.map((alt) => (
+              <tr key={alt.id} className="border-t border-black/5">
+                <td className="p-4 font-black serif italic text-lg">{alt.name}</td>
+                {criteria.map((crit) => (
+                  <td key={crit.id} className="p-4 text-center">
+                    <div className="flex flex-col items-center gap-1">
+                      <input
+                        type="range"
+                        min="1"
+                        max="10"
+                        step="1"
+                        value={localScores[alt.id]?.[crit.id] || 5}
+                        onChange={(e) => {
+                          const score = parseInt(e.target.value);
+                          setLocalScores((prev) => ({
+                            ...prev,
+                            [alt.id]: { ...prev[alt.id], [crit.id]: score },
+                          }));
+                          // Moving the score outside its range widens the range to follow it
+                          const range = localRanges[alt.id]?.[crit.id];
+                          if (range && (score < range.low || score > range.high))
+                            setLocalRanges((prev) => ({
+                              ...prev,
+                              [alt.id]: {
+                                ...prev[alt.id],
+                                [crit.id]: { low: Math.min(range.low, score), high: Math.max(range.high, score) },
+                              },
+                            }));
+                        }}
+                        className="w-24 accent-black"
+                      />
+                      <span className="mono text-xs font-bold">
+                        {localScores[alt.id]?.[crit.id] || 5}
+                      </span>
+                      {useRanges && (
+                        <div className="flex items-center gap-1 mono text-[10px] text-zinc-400">
+                          {(['low', 'high'] as const).map((end, i) => (
+                            <React.Fragment key={end}>
+                              {i > 0 && <span>&ndash;</span>}
+                              <input
+                                type="number"
+                                min="1"
+                                max="10"
+                                value={rangeOf(alt.id, crit.id)[end]}
+                                onChange={(e) => setRangeEnd(alt.id, crit.id, end, Number(e.target.value))}
+                                title={end === 'low' ? 'Lowest plausible score' : 'Highest plausible score'}
+                                className="w-10 bg-black/5 px-1 py-0.5 rounded text-center text-black outline-none border border-black/10 focus:border-yellow-500"
+                              />
+                            </React.Fragment>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="p-5 rounded-xl bg-black/[0.02] border border-black/5">
+        <p className="text-xs text-zinc-500 mb-3 font-medium">Score each alternative on a 1–10 scale per criterion. Higher scores are better. These scores are weighted by the priority percentages you set in the previous step.</p>
+        <label className="flex items-center gap-2 text-xs text-zinc-500 mb-3">
+          <input type="checkbox" checked={useRanges} onChange={(e) => setUseRanges(e.target.checked)} className="accent-black" />
+          Unsure of some scores? Give them a low&ndash;high range and see how likely each alternative is to land on each rank.
+        </label>
+        <div className="flex justify-between text-[10px] mono text-zinc-400 uppercase">
+          <span>1-3: Poor</span>
+          <span>4-6: Average</span>
+          <span>7-8: Good</span>
+          <span>9-10: Excellent</span>
+        </div>
+      </div>
+
+      <div className="pt-8 border-t border-black/5 flex justify-between">
+        <button
+          onClick={onBack}
+          className="px-10 py-5 border border-black/10 rounded-2xl font-black uppercase text-[10px] tracking-widest text-zinc-400 hover:bg-black hover:text-white transition-all"
+        >
+          <ArrowLeft className="inline mr-2" size={14} /> Back
+        </button>
+        <button
+          onClick={() => {
+            dispatch({ type: 'SET', key: 'scores', value: localScores });
+            dispatch({ type: 'SET', key: 'scoreRanges', value: savedRanges });
+            setShowResults(true);
+          }}
+          className="px-12 py-5 bg-black text-white rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-yellow-500 hover:text-black transition-all flex items-center gap-4"
+        >
+          See Results <ArrowRight size={14} />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ══════════════════════════════════════
+// STAGE 6: UNCERTAINTY (Monte Carlo)
+// ══════════════════════════════════════
+
+// Formula, drivers and correlations for a 'model' estimate; driver amounts can be any unit
+function ModelForm({ draft, onChange }: { draft: EstimateDraft; onChange: (draft: EstimateDraft) => void }) {
+  const { formula, drivers, correlations } = draft;
+  const setDriver = (i: number, changes: Partial<DriverInput>) =>
+    onChange({ ...draft, drivers: drivers.map((dr, j) => (j === i ? { ...dr, ...changes } : dr)) });
+  const setCorrelation = (i: number, changes: Partial<CorrelationInput>) =>
+    onChange({ ...draft, correlations: correlations.map((c, j) => (j === i ? { ...c, ...changes } : c)) });
+  const names = drivers.map((dr) => dr.name.trim()).filter(Boolean);
+  const inputClass = 'bg-black/5 p-3 rounded-xl mono text-sm text-black outline-none border border-black/10 focus:border-yellow-500';
+
+  return (
+    <div className="w-full max-w-2xl space-y-8 text-left">
+      <div className="space-y-4">
+        <label className="mono text-[9px] uppercase font-bold tracking-widest text-zinc-500">Outcome Formula ($)</label>
+        <input
+          value={formula}
+          onChange={(e) => onChange({ ...draft, formula: e.target.value })}
+          placeholder="e.g. units * price - fixed_cost"
+          className={`w-full ${inputClass}`}
+        />
+        <p className="text-[10px] text-zinc-400">
+          Refer to drivers by name. Supports + &minus; &times; &divide; ^, parentheses and min(), max(), abs().
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        <label className="mono text-[9px] uppercase font-bold tracking-widest text-zinc-500">Drivers</label>
+        {drivers.map((dr, i) => (
+          <div key={i} className="p-4 rounded-xl bg-black/[0.02] border border-black/5 space-y-3">
+            <div className="flex gap-2 items-center">
+              <input
+                value={dr.name}
+                onChange={(e) => setDriver(i, { name: e.target.value.replace(/\s+/g, '_') })}
+                placeholder="driver_name"
+                className={`flex-1 ${inputClass}`}
+              />
+              <select
+                value={dr.kind}
+                onChange={(e) => setDriver(i, { kind: e.target.value as ParametricKind })}
+                className={inputClass}
+              >
+                {DRIVER_KINDS.map((k) => (
+                  <option key={k} value={k}>
+                    {DISTRIBUTION_LABELS[k]}
+                  </option>
+                ))}
+              </select>
+              {drivers.length > 1 && (
+                <button
+                  onClick={() => onChange({ ...draft, drivers: drivers.filter((_, j) => j !== i) })}
+                  className="p-2 text-zinc-300 hover:text-red-500"
+                >
+                  <X size={14} />
+                </button>
+              )}
+            </div>
+            <div className={`grid gap-2 ${DISTRIBUTION_FIELDS[dr.kind].length === 3 ? 'grid-cols-3' : 'grid-cols-2'}`}>
+              {DISTRIBUTION_FIELDS[dr.kind].map((f) => (
+                <input
+                  key={f.key}
+                  value={dr.fields[f.key] || ''}
+                  onChange={(e) => setDriver(i, { fields: { ...dr.fields, [f.key]: e.target.value } })}
+                  placeholder={f.label}
+                  title={f.label}
+                  className={inputClass}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+        {drivers.length < MAX_DRIVERS && (
+          <button
+            onClick={() => onChange({ ...draft, drivers: [...drivers, { name: '', kind: 'pert', fields: {} }] })}
+            className="text-xs px-3 py-2 rounded-lg bg-black/5 text-zinc-500 hover:bg-black hover:text-white transition-all flex items-center gap-1"
+          >
+            <Plus size={12} /> Add Driver
+          </button>
+        )}
+      </div>
+
+      {names.length >= 2 && (
+        <div className="space-y-3">
+          <label className="mono text-[9px] uppercase font-bold tracking-widest text-zinc-500">
+            Correlations (optional)
+          </label>
+          {correlations.map((c, i) => (
+            <div key={i} className="grid grid-cols-[1fr_1fr_6rem_2rem] gap-2 items-center">
+              {(['a', 'b'] as const).map((side) => (
+                <select key={side} value={c[side]} onChange={(e) => setCorrelation(i, { [side]: e.target.value })} className={inputClass}>
+                  <option value="">Driver&hellip;</option>
+                  {names.map((n) => (
+                    <option key={n} value={n}>
+                      {n}
+                    </option>
+                  ))}
+                </select>
+              ))}
+              <input
+                type="number"
+                min="-0.99"
+                max="0.99"
+                step="0.1"
+                value={c.rho}
+                onChange={(e) => setCorrelation(i, { rho: e.target.value })}
+                placeholder={'\u03c1'}
+                className={inputClass}
+              />
+              <button
+                onClick={() => onChange({ ...draft, correlations: correlations.filter((_, j) => j !== i) })}
+                className="p-2 text-zinc-300 hover:text-red-500"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => onChange({ ...draft, correlations: [...correlations, { a: '', b: '', rho: '' }] })}
+            className="text-xs px-3 py-2 rounded-lg bg-black/5 text-zinc-500 hover:bg-black hover:text-white transition-all flex items-center gap-1"
+          >
+            <Plus size={12} /> Add Correlation
+          </button>
+          <p className="text-[10px] text-zinc-400">
+            Rank correlation from -1 to 1: positive when two drivers tend to be high together, negative when one rises as the other falls.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CashFlowForm({ draft, onChange }: { draft: EstimateDraft; onChange: (draft: EstimateDraft) => void }) {
+  const { rate, flows } = draft;
+  const setFlow = (t: number, changes: Partial<FlowInput>) =>
+    onChange({ ...draft, flows: flows.map((f, j) => (j === t ? { ...f, ...changes } : f)) });
+  const inputClass = 'bg-black/5 p-3 rounded-xl mono text-sm text-black outline-none border border-black/10 focus:border-yellow-500';
+
+  return (
+    <div className="w-full max-w-2xl space-y-8 text-left">
+      <div className="space-y-4">
+        <label className="mono text-[9px] uppercase font-bold tracking-widest text-zinc-500 block">Discount Rate (%)</label>
+        <input
+          type="number"
+          min="0"
+          max="99"
+          step="0.5"
+          value={rate}
+          onChange={(e) => onChange({ ...draft, rate: e.target.value })}
+          className={`w-32 ${inputClass}`}
+        />
+        <p className="text-[10px] text-zinc-400">
+          Year 0 lands now and is not discounted; each later year is discounted at this rate per year.
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        <label className="mono text-[9px] uppercase font-bold tracking-widest text-zinc-500">Net Cash Flow per Year ($)</label>
+        {flows.map((f, t) => (
+          <div key={t} className="p-4 rounded-xl bg-black/[0.02] border border-black/5 space-y-3">
+            <div className="flex gap-2 items-center">
+              <span className="flex-1 mono text-xs font-bold text-black">
+                Year {t}
+                {t === 0 && <span className="text-zinc-400 font-normal"> &middot; now</span>}
+              </span>
+              <select
+                value={f.kind}
+                onChange={(e) => setFlow(t, { kind: e.target.value as ParametricKind })}
+                className={inputClass}
+              >
+                {DRIVER_KINDS.map((k) => (
+                  <option key={k} value={k}>
+                    {DISTRIBUTION_LABELS[k]}
+                  </option>
+                ))}
+              </select>
+              {flows.length > 2 && t === flows.length - 1 && (
+                <button
+                  onClick={() => onChange({ ...draft, flows: flows.slice(0, -1) })}
+                  className="p-2 text-zinc-300 hover:text-red-500"
+                >
+                  <X size={14} />
+                </button>
+              )}
+            </div>
+            <div className={`grid gap-2 ${DISTRIBUTION_FIELDS[f.kind].length === 3 ? 'grid-cols-3' : 'grid-cols-2'}`}>
+              {DISTRIBUTION_FIELDS[f.kind].map((field) => (
+                <input
+                  key={field.key}
+                  value={f.fields[field.key] || ''}
+                  onChange={(e) => setFlow(t, { fields: { ...f.fields, [field.key]: e.target.value } })}
+                  placeholder={field.label}
+                  title={field.label}
+                  className={inputClass}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+        {flows.length < MAX_CASH_FLOW_YEARS && (
+          <button
+            onClick={() => onChange({ ...draft, flows: [...flows, flows[flows.length - 1]] })}
+            className="text-xs px-3 py-2 rounded-lg bg-black/5 text-zinc-500 hover:bg-black hover:text-white transition-all flex items-center gap-1"
+          >
+            <Plus size={12} /> Add Year
+          </button>
+        )}
+        <p className="text-[10px] text-zinc-400">
+          Costs negative, returns positive. A new year starts as a copy of the last one. Years are drawn independently of each other.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+// What outcomes are measured in: a currency, a time period, a plain count, a percentage or any label
+function UnitPicker({ unit, onChange }: { unit: OutcomeUnit; onChange: (unit: OutcomeUnit) => void }) {
+  const selectClass = 'bg-black/5 p-3 rounded-xl mono text-sm text-black outline-none border border-black/10 focus:border-yellow-500';
+  return (
+    <div className="w-full max-w-2xl mb-8 text-left space-y-4">
+      <label className="mono text-[9px] uppercase font-bold tracking-widest text-zinc-500 block">Outcome Unit</label>
+      <div className="flex flex-wrap items-center gap-2">
+        {UNIT_KINDS.map((k) => (
+          <button
+            key={k.unit.kind}
+            onClick={() => unit.kind !== k.unit.kind && onChange(k.unit)}
+            className={`px-4 py-3 rounded-xl text-xs font-bold transition-all ${
+              unit.kind === k.unit.kind ? 'bg-black text-white' : 'bg-black/5 text-zinc-500 hover:bg-black/10'
+            }`}
           >
-            Uncertainty Analysis <ArrowRight size={14} />
+            {k.label}
           </button>
+        ))}
+        {unit.kind === 'currency' && (
+          <select value={unit.code} onChange={(e) => onChange({ kind: 'currency', code: e.target.value })} className={selectClass}>
+            {[...new Set([...Object.keys(CURRENCY_SYMBOLS), unit.code])].map((code) => (
+              <option key={code} value={code}>
+                {code}
+              </option>
+            ))}
+          </select>
+        )}
+        {unit.kind === 'time' && (
+          <select
+            value={unit.period}
+            onChange={(e) => onChange({ kind: 'time', period: e.target.value as typeof unit.period })}
+            className={selectClass}
+          >
+            {TIME_PERIODS.map((period) => (
+              <option key={period} value={period}>
+                {period}
+              </option>
+            ))}
+          </select>
+        )}
+        {unit.kind === 'custom' && (
+          <input
+            value={unit.label}
+            onChange={(e) => onChange({ kind: 'custom', label: e.target.value })}
+            placeholder="e.g. NPS points"
+            className={`w-40 ${selectClass}`}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function EstimateForm({
+  draft,
+  unit,
+  onChange,
+}: {
+  draft: EstimateDraft;
+  unit: OutcomeUnit;
+  onChange: (draft: EstimateDraft) => void;
+}) {
+  const { kind, fields, scenarios } = draft;
+  const setScenario = (i: number, changes: Partial<ScenarioInput>) =>
+    onChange({ ...draft, scenarios: scenarios.map((sc, j) => (j === i ? { ...sc, ...changes } : sc)) });
+
+  return (
+    <>
+      <div className="w-full max-w-2xl mb-8 text-left space-y-4">
+        <label className="mono text-[9px] uppercase font-bold tracking-widest text-zinc-500">Distribution</label>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+          {DISTRIBUTION_OPTIONS.map((opt) => (
+            <button
+              key={opt.kind}
+              onClick={() => onChange({ ...draft, kind: opt.kind })}
+              className={`p-4 rounded-xl text-left transition-all ${
+                kind === opt.kind ? 'bg-black text-white' : 'bg-black/5 text-zinc-500 hover:bg-black/10'
+              }`}
+            >
+              <span className="text-xs font-black uppercase block">{DISTRIBUTION_LABELS[opt.kind]}</span>
+              <span className="text-[10px] opacity-60 italic serif block mt-1">{opt.desc}</span>
+            </button>
+          ))}
         </div>
       </div>
-    );
-  }
 
+      {kind === 'model' ? (
+        <ModelForm draft={draft} onChange={onChange} />
+      ) : kind === 'cashflow' ? (
+        <CashFlowForm draft={draft} onChange={onChange} />
+      ) : kind !== 'discrete' ? (
+        <div className={`grid gap-8 w-full max-w-2xl ${DISTRIBUTION_FIELDS[kind].length === 3 ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+          {DISTRIBUTION_FIELDS[kind].map((f) => (
+            <div key={f.key} className="space-y-4">
+              <label className="mono text-[9px] uppercase font-bold tracking-widest text-zinc-500">
+                {f.label}
+                {unitSuffix(unit)}
+              </label>
+              <input
+                type="text"
+                value={fields[f.key] || ''}
+                onChange={(e) => onChange({ ...draft, fields: { ...fields, [f.key]: e.target.value } })}
+                placeholder={`e.g. ${exampleAmount(f.example, unit)}`}
+                className="w-full bg-black/5 p-4 rounded-xl mono text-black outline-none border border-black/10 focus:border-yellow-500"
+              />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="w-full max-w-2xl space-y-2 text-left">
+          <div className="grid grid-cols-[1fr_1fr_6rem_2rem] gap-2 mono text-[9px] uppercase font-bold tracking-widest text-zinc-500">
+            <span>Scenario</span>
+            <span>Outcome{unitSuffix(unit)}</span>
+            <span>Probability</span>
+            <span></span>
+          </div>
+          {scenarios.map((sc, i) => (
+            <div key={i} className="grid grid-cols-[1fr_1fr_6rem_2rem] gap-2 items-center">
+              <input
+                value={sc.label}
+                onChange={(e) => setScenario(i, { label: e.target.value })}
+                placeholder={`Scenario ${i + 1}`}
+                className="bg-black/5 p-3 rounded-xl text-sm text-black outline-none border border-black/10 focus:border-yellow-500"
+              />
+              <input
+                value={sc.value}
+                onChange={(e) => setScenario(i, { value: e.target.value })}
+                placeholder={`e.g. ${exampleAmount(500000, unit)}`}
+                className="bg-black/5 p-3 rounded-xl mono text-sm text-black outline-none border border-black/10 focus:border-yellow-500"
+              />
+              <div className="flex items-center gap-1">
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={sc.probability}
+                  onChange={(e) => setScenario(i, { probability: e.target.value })}
+                  className="w-full bg-black/5 p-3 rounded-xl mono text-sm text-black outline-none border border-black/10 focus:border-yellow-500"
+                />
+                <span className="mono text-xs text-zinc-400">%</span>
+              </div>
+              {scenarios.length > 2 ? (
+                <button
+                  onClick={() => onChange({ ...draft, scenarios: scenarios.filter((_, j) => j !== i) })}
+                  className="p-2 text-zinc-300 hover:text-red-500"
+                >
+                  <X size={14} />
+                </button>
+              ) : (
+                <span></span>
+              )}
+            </div>
+          ))}
+          {scenarios.length < 6 && (
+            <button
+              onClick={() => onChange({ ...draft, scenarios: [...scenarios, { label: '', value: '', probability: '' }] })}
+              className="text-xs px-3 py-2 rounded-lg bg-black/5 text-zinc-500 hover:bg-black hover:text-white transition-all flex items-center gap-1"
+            >
+              <Plus size={12} /> Add Scenario
+            </button>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
+
+// Overlaid histograms on the comparison's shared range, one outline per alternative
+function OutcomeOverlay({ comparison, unit }: { comparison: OutcomeComparison; unit: OutcomeUnit }) {
+  const peak = Math.max(...comparison.alternatives.flatMap((a) => a.histogram), 1e-9);
+  const [lo, hi] = comparison.range;
+  const zeroAt = hi > lo && lo < 0 && hi > 0 ? (-lo / (hi - lo)) * 100 : null;
   return (
-    <div className="space-y-12">
-      <div className="overflow-x-auto">
-        <table className="w-full">
-          <thead>
-            <tr>
-              <th className="text-left p-4 mono text-[10px] text-zinc-400">ALTERNATIVE</th>
-              {criteria.map((c) => (
-                <th key={c.id} className="p-4 mono text-[10px] text-zinc-400 text-center">
-                  {c.name}
-                </th>
-              ))}
-            </tr>
-          </thead>
-          <tbody>
-            {alternatives.map((alt) => (
-              <tr key={alt.id} className="border-t border-black/5">
-                <td className="p-4 font-black serif italic text-lg">{alt.name}</td>
-                {criteria.map((crit) => (
-                  <td key={crit.id} className="p-4 text-center">
-                    <div className="flex flex-col items-center gap-1">
-                      <input
-                        type="range"
-                        min="1"
-                        max="10"
-                        step="1"
-                        value={localScores[alt.id]?.[crit.id] || 5}
-                        onChange={(e) => {
-                          setLocalScores((prev) => ({
-                            ...prev,
-                            [alt.id]: { ...prev[alt.id], [crit.id]: parseInt(e.target.value) },
-                          }));
-                        }}
-                        className="w-24 accent-black"
-                      />
-                      <span className="mono text-xs font-bold">
-                        {localScores[alt.id]?.[crit.id] || 5}
-                      </span>
-                    </div>
-                  </td>
-                ))}
-              </tr>
-            ))}
-          </tbody>
-        </table>
+    <div className="mb-6">
+      <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-32 bg-black/5 rounded-lg">
+        {zeroAt != null && <line x1={zeroAt} x2={zeroAt} y1={0} y2={40} stroke="#a1a1aa" strokeWidth={0.2} strokeDasharray="1 1" />}
+        {comparison.alternatives.map((a, i) => {
+          const w = 100 / a.histogram.length;
+          const points = a.histogram.flatMap((h, b) => {
+            const y = 40 - (h / peak) * 36;
+            return [`${b * w},${y}`, `${(b + 1) * w},${y}`];
+          });
+          return (
+            <polyline
+              key={a.id}
+              points={['0,40', ...points, '100,40'].join(' ')}
+              fill={comparisonColor(i)}
+              fillOpacity={0.08}
+              stroke={comparisonColor(i)}
+              strokeWidth={0.4}
+              vectorEffect="non-scaling-stroke"
+            />
+          );
+        })}
+      </svg>
+      <div className="flex justify-between mono text-[10px] text-zinc-400 mt-1">
+        <span>{fmt(lo, unit)}</span>
+        {zeroAt != null && <span>{fmt(0, unit)} dashed</span>}
+        <span>{fmt(hi, unit)}</span>
       </div>
+    </div>
+  );
+}
 
-      <div className="p-5 rounded-xl bg-black/[0.02] border border-black/5">
-        <p className="text-xs text-zinc-500 mb-3 font-medium">Score each alternative on a 1–10 scale per criterion. Higher scores are better. These scores are weighted by the priority percentages you set in the previous step.</p>
-        <div className="flex justify-between text-[10px] mono text-zinc-400 uppercase">
-          <span>1-3: Poor</span>
-          <span>4-6: Average</span>
-          <span>7-8: Good</span>
-          <span>9-10: Excellent</span>
-        </div>
+// Percent across [lo, hi], clamped; a zero-width range puts everything in the middle
+const rangePosition = (value: number, lo: number, hi: number) => {
+  const span = hi - lo;
+  if (span === 0) return 50;
+  return Math.min(100, Math.max(0, ((value - lo) / span) * 100));
+};
+
+// Histogram of one run with its P10–P90 band, the mean and the CDF drawn over it;
+// `target` adds a marker for an exceedance query
+function DistributionChart({
+  result,
+  unit,
+  target,
+  compact = false,
+}: {
+  result: SimulationResult;
+  unit: OutcomeUnit;
+  target?: number | null;
+  compact?: boolean;
+}) {
+  const { lo, hi, bins } = result.histogram;
+  const peak = Math.max(...bins, 1e-9);
+  const x = (v: number) => rangePosition(v, lo, hi);
+  const w = 100 / bins.length;
+  const zeroAt = lo < 0 && hi > 0 ? x(0) : null;
+  const cdfPoints = (result.cdf || []).slice(1, 100).map((v, k) => `${x(v)},${40 - ((k + 1) / 100) * 38}`);
+  const marker = target != null && target >= lo && target <= hi ? x(target) : null;
+  return (
+    <div>
+      <svg viewBox="0 0 100 40" preserveAspectRatio="none" className={`w-full bg-black/5 rounded-lg ${compact ? 'h-20' : 'h-36'}`}>
+        <rect x={x(result.p10)} width={x(result.p90) - x(result.p10)} y={0} height={40} fill="#eab308" fillOpacity={0.12} />
+        {bins.map((h, b) => (
+          <rect key={b} x={b * w} width={w} y={40 - (h / peak) * 36} height={(h / peak) * 36} fill={compact ? '#18181b' : '#eab308'} fillOpacity={0.55} />
+        ))}
+        {zeroAt != null && <line x1={zeroAt} x2={zeroAt} y1={0} y2={40} stroke="#a1a1aa" strokeWidth={0.2} strokeDasharray="1 1" />}
+        {cdfPoints.length > 0 && (
+          <polyline points={cdfPoints.join(' ')} fill="none" stroke="#18181b" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+        )}
+        <line x1={x(result.mean)} x2={x(result.mean)} y1={0} y2={40} stroke="#ca8a04" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        {marker != null && (
+          <line x1={marker} x2={marker} y1={0} y2={40} stroke="#ef4444" strokeWidth={1} strokeDasharray="3 2" vectorEffect="non-scaling-stroke" />
+        )}
+      </svg>
+      <div className="flex justify-between mono text-[10px] text-zinc-400 mt-1">
+        <span>{fmt(lo, unit)}</span>
+        {!compact && <span>Shaded: P10&ndash;P90 &middot; line: cumulative share</span>}
+        <span>{fmt(hi, unit)}</span>
       </div>
+    </div>
+  );
+}
 
-      <div className="pt-8 border-t border-black/5 flex justify-between">
-        <button
-          onClick={onBack}
-          className="px-10 py-5 border border-black/10 rounded-2xl font-black uppercase text-[10px] tracking-widest text-zinc-400 hover:bg-black hover:text-white transition-all"
-        >
-          <ArrowLeft className="inline mr-2" size={14} /> Back
-        </button>
-        <button
-          onClick={() => {
-            dispatch({ type: 'SET', key: 'scores', value: localScores });
-            setShowResults(true);
-          }}
-          className="px-12 py-5 bg-black text-white rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-yellow-500 hover:text-black transition-all flex items-center gap-4"
-        >
-          See Results <ArrowRight size={14} />
-        </button>
+// Mean net flow per year with its P10–P90 whisker, around a zero baseline
+function CashFlowChart({ years }: { years: MetricSummary[] }) {
+  const lo = Math.min(0, ...years.map((y) => y.p10));
+  const hi = Math.max(0, ...years.map((y) => y.p90));
+  const y = (v: number) => 38 - (rangePosition(v, lo, hi) / 100) * 36;
+  const w = 100 / years.length;
+  return (
+    <div>
+      <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-32 bg-black/5 rounded-lg">
+        <line x1={0} x2={100} y1={y(0)} y2={y(0)} stroke="#a1a1aa" strokeWidth={0.2} />
+        {years.map((s, t) => (
+          <g key={t}>
+            <rect
+              x={t * w + w * 0.2}
+              width={w * 0.6}
+              y={Math.min(y(0), y(s.mean))}
+              height={Math.abs(y(s.mean) - y(0))}
+              fill={s.mean >= 0 ? '#eab308' : '#71717a'}
+              fillOpacity={0.7}
+            />
+            <line x1={(t + 0.5) * w} x2={(t + 0.5) * w} y1={y(s.p90)} y2={y(s.p10)} stroke="#18181b" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+          </g>
+        ))}
+      </svg>
+      <div className="flex mono text-[10px] text-zinc-400 mt-1">
+        {years.map((_, t) => (
+          <span key={t} className="flex-1 text-center">
+            Y{t}
+          </span>
+        ))}
       </div>
     </div>
   );
 }
 
-// ══════════════════════════════════════
-// STAGE 5: UNCERTAINTY (Monte Carlo)
-// ══════════════════════════════════════
+// Variance contribution per model driver, widest first; bars point right when the driver raises the outcome
+function TornadoChart({ drivers }: { drivers: DriverSensitivity[] }) {
+  const widest = Math.max(...drivers.map((d) => d.contribution), 1e-9);
+  return (
+    <div className="space-y-2">
+      {drivers.map((d) => (
+        <div key={d.name} className="grid grid-cols-[8rem_1fr_3rem] gap-3 items-center">
+          <span className="mono text-[10px] text-zinc-600 truncate text-right" title={d.name}>
+            {d.name}
+          </span>
+          <div className="relative h-5 bg-black/5 rounded">
+            <div className="absolute left-1/2 top-0 bottom-0 w-px bg-black/20" />
+            <div
+              className={`absolute top-0 bottom-0 rounded ${d.correlation >= 0 ? 'bg-yellow-500/70' : 'bg-zinc-500/60'}`}
+              style={{
+                [d.correlation >= 0 ? 'left' : 'right']: '50%',
+                width: `${(d.contribution / widest) * 50}%`,
+              }}
+            />
+          </div>
+          <span className="mono text-[10px] font-bold text-black">{(d.contribution * 100).toFixed(0)}%</span>
+        </div>
+      ))}
+    </div>
+  );
+}
 
 function UncertaintyStage({
   decision,
@@ -1076,104 +3277,214 @@ function UncertaintyStage({
   onComplete: () => void;
   onBack: () => void;
 }) {
-  const topName = decision.topChoice?.name || 'your top choice';
-  const [bestCase, setBestCase] = useState('');
-  const [mostLikely, setMostLikely] = useState('');
-  const [worstCase, setWorstCase] = useState('');
-  const [mcResult, setMcResult] = useState<SimulationResult | null>(null);
+  const topId = decision.topChoice?.id || '';
+  // Top choice first, then the rest in ranking order; only the top choice needs estimates
+  const ranked = rankDecision(decision);
+  const candidates = [
+    ...ranked.filter((r) => r.id === topId),
+    ...ranked.filter((r) => r.id !== topId && r.name.trim()),
+  ].map((r) => ({ id: r.id, name: r.id === topId ? decision.topChoice!.name : r.name }));
+
+  // Seed from a restored simulation so a resumed session shows its prior results
+  const restored = decision.mcResult && hasEstimates(decision.topChoice) ? decision.topChoice : null;
+  const restoredDist: OutcomeDistribution | null =
+    (restored && decision.mcResult?.distribution) ||
+    (restored ? { kind: 'triangular', min: restored.worstCase, mode: restored.mostLikely, max: restored.bestCase } : null);
+  const restoredComparison = restored && decision.comparison?.alternatives[0]?.id === topId ? decision.comparison : null;
+  const [drafts, setDrafts] = useState<Record<string, EstimateDraft>>(() =>
+    Object.fromEntries(
+      candidates.map((c) => [
+        c.id,
+        draftFrom(
+          c.id === topId
+            ? restoredDist
+            : restoredComparison?.alternatives.find((a) => a.id === c.id)?.result.distribution || null
+        ),
+      ])
+    )
+  );
+  const [activeId, setActiveId] = useState(topId);
+  const [mcResult, setMcResult] = useState<SimulationResult | null>(restored ? decision.mcResult : null);
+  const [comparison, setComparison] = useState<OutcomeComparison | null>(restoredComparison);
   const [isComputing, setIsComputing] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const runRef = useRef<SimulationRun | null>(null);
   const [validationError, setValidationError] = useState('');
+  const [trials, setTrials] = useState(decision.mcResult?.trials || DEFAULT_TRIALS);
+  const [targetInput, setTargetInput] = useState('');
+  const [percentileInput, setPercentileInput] = useState('95');
+  const [seedInput, setSeedInput] = useState('');
 
-  const handleSubmitValues = () => {
-    const bv = parseNum(bestCase);
-    const mv = parseNum(mostLikely);
-    const wv = parseNum(worstCase);
+  const topName = decision.topChoice?.name || 'your top choice';
+  const unit = decision.unit;
+  const draftOf = (id: string) => drafts[id] || draftFrom(null);
+  const active = candidates.find((c) => c.id === activeId) || candidates[0];
 
-    if (isNaN(bv) || isNaN(mv) || isNaN(wv)) {
-      setValidationError('Please enter valid numbers. Use formats like $2M, $500K, -$100K.');
-      return;
-    }
-    if (bv <= wv) {
-      setValidationError('Best case should be higher than worst case.');
-      return;
+  const setDraft = (id: string, draft: EstimateDraft) => {
+    setDrafts({ ...drafts, [id]: draft });
+    setValidationError('');
+  };
+
+  const handleSubmitValues = (seed?: number) => {
+    const entries: { id: string; name: string; distribution: OutcomeDistribution }[] = [];
+    for (const c of candidates) {
+      const draft = draftOf(c.id);
+      if (c.id !== topId && isDraftEmpty(draft)) continue;
+      const problem = isDraftFilled(draft) ? draftProblem(draft, unit) : 'Fill in every estimate, or clear them to leave this alternative out.';
+      if (problem) {
+        setActiveId(c.id);
+        setValidationError(candidates.length > 1 ? `${c.name}: ${problem}` : problem);
+        return;
+      }
+      entries.push({ id: c.id, name: c.name, distribution: draftToDistribution(draft, unit) });
     }
-    if (mv > bv || mv < wv) {
-      setValidationError('Most likely outcome should fall between worst and best case.');
-      return;
+    if (seed === undefined && seedInput.trim()) {
+      seed = Number(seedInput.trim());
+      if (!isValidSeed(seed)) {
+        setValidationError('Seed must be a whole number between 0 and 4294967295.');
+        return;
+      }
     }
     setValidationError('');
     setIsComputing(true);
-
-    setTimeout(() => {
-      const result = monteCarlo(wv, mv, bv);
-      setMcResult(result);
-      dispatch({
-        type: 'SET',
-        key: 'topChoice',
-        value: { ...decision.topChoice, bestCase: bv, mostLikely: mv, worstCase: wv },
+    setProgress(0);
+
+    const run = runSimulationJob({ entries, trials, seed: seed ?? newSeed() }, setProgress);
+    runRef.current = run;
+    run.output
+      .then((output) => {
+        if (!output) return;
+        setMcResult(output.result);
+        setComparison(output.comparison);
+        dispatch({
+          type: 'SET',
+          key: 'topChoice',
+          value: { ...decision.topChoice, ...summarizeEstimates(entries[0].distribution) },
+        });
+        dispatch({ type: 'SET', key: 'mcResult', value: output.result });
+        dispatch({ type: 'SET', key: 'comparison', value: output.comparison });
+        setIsComputing(false);
+      })
+      .catch((e) => {
+        console.error('Monte Carlo error:', e);
+        setValidationError(`Simulation failed: ${e.message}`);
+        setIsComputing(false);
+      })
+      .finally(() => {
+        if (runRef.current === run) runRef.current = null;
       });
-      dispatch({ type: 'SET', key: 'mcResult', value: result });
-      setIsComputing(false);
-    }, 150);
   };
 
-  const rangeBarPosition = (value: number, rangeMin: number, rangeMax: number) => {
-    const span = rangeMax - rangeMin;
-    if (span === 0) return 50;
-    return Math.min(100, Math.max(0, ((value - rangeMin) / span) * 100));
+  const cancelRun = () => {
+    runRef.current?.cancel();
+    setIsComputing(false);
   };
 
+  // Leaving the stage mid-run stops the worker instead of letting it finish into an unmounted stage
+  useEffect(() => () => runRef.current?.cancel(), []);
+
+  // Model and cash flow ranges come from a pilot simulation, so only recompute them when the result changes
+  const [rangeLo, rangeHi] = useMemo(
+    () =>
+      mcResult?.distribution
+        ? distributionRange(mcResult.distribution)
+        : [decision.topChoice?.worstCase ?? 0, decision.topChoice?.bestCase ?? 0],
+    [mcResult, decision.topChoice]
+  );
+  const converged = useMemo(() => !!mcResult && isConverged(mcResult), [mcResult]);
+
+  const dominance = comparison ? describeDominance(comparison) : [];
+  const verdict = comparison ? informationVerdict(comparison, unit) : null;
+  const clustered = detectScoringPatterns(
+    ranked,
+    ranked,
+    decision.criteria,
+    decision.scores,
+    decision.aggregation
+  ).some((i) => i.type === 'clustered');
+
+  const parsedTarget = parseNum(targetInput, unit);
+  const exceedTarget = Number.isFinite(parsedTarget) ? parsedTarget : null;
+  const exceedProb = mcResult && exceedTarget != null ? probExceeds(mcResult, exceedTarget) : null;
+  const queriedLevel = percentileInput.trim() === '' ? NaN : Number(percentileInput);
+  const queriedValue = mcResult && queriedLevel >= 0 && queriedLevel <= 100 ? percentile(mcResult, queriedLevel) : null;
+
   return (
     <div className="space-y-12">
       <div className="p-8 bg-white/50 rounded-[2rem] flex flex-col items-center text-center border border-black/5">
         <Brain className="text-yellow-600 mb-6" size={48} />
         <h3 className="serif text-3xl font-black italic mb-4 text-black">Monte Carlo Forecast</h3>
         <p className="text-zinc-500 text-xs max-w-md mb-6 leading-relaxed">
-          Monte Carlo simulation runs 10,000 random scenarios between your worst and best case estimates to map the realistic distribution of outcomes — so you see a probability range, not just a single guess.
+          Monte Carlo simulation runs thousands of random scenarios drawn from your outcome estimates to map the realistic distribution of outcomes — so you see a probability range, not just a single guess.
         </p>
         <p className="text-zinc-500 text-sm max-w-md mb-12">
           Enter your outcome estimates for <span className="text-black font-bold">{topName}</span> below.
+          {candidates.length > 1 && ' Add estimates for other alternatives to compare them side by side.'}
         </p>
 
         {!mcResult && !isComputing && (
           <>
-            <div className="grid md:grid-cols-3 gap-8 w-full max-w-2xl">
-              <div className="space-y-4">
-                <label className="mono text-[9px] uppercase font-bold tracking-widest text-zinc-500">
-                  Best Case ($)
-                </label>
-                <input
-                  type="text"
-                  value={bestCase}
-                  onChange={(e) => setBestCase(e.target.value)}
-                  placeholder="e.g. $2M"
-                  className="w-full bg-black/5 p-4 rounded-xl mono text-black outline-none border border-black/10 focus:border-yellow-500"
-                />
+            {candidates.length > 1 && (
+              <div className="w-full max-w-2xl mb-8 flex flex-wrap gap-2">
+                {candidates.map((c) => (
+                  <button
+                    key={c.id}
+                    onClick={() => setActiveId(c.id)}
+                    className={`px-4 py-3 rounded-xl text-xs font-bold transition-all flex items-center gap-2 ${
+                      active?.id === c.id ? 'bg-black text-white' : 'bg-black/5 text-zinc-500 hover:bg-black/10'
+                    }`}
+                  >
+                    {c.name}
+                    {c.id === topId && (
+                      <span className="mono text-[9px] uppercase tracking-widest text-yellow-500">Top choice</span>
+                    )}
+                    {isDraftFilled(draftOf(c.id)) && <Check size={12} className="text-green-500" />}
+                  </button>
+                ))}
               </div>
+            )}
+
+            <UnitPicker unit={unit} onChange={(value) => dispatch({ type: 'SET', key: 'unit', value })} />
+
+            {active && (
+              <EstimateForm
+                key={active.id}
+                draft={draftOf(active.id)}
+                unit={unit}
+                onChange={(draft) => setDraft(active.id, draft)}
+              />
+            )}
+
+            <div className="grid md:grid-cols-2 gap-8 w-full max-w-2xl mt-8 text-left">
               <div className="space-y-4">
-                <label className="mono text-[9px] uppercase font-bold tracking-widest text-zinc-500">
-                  Most Likely ($)
-                </label>
-                <input
-                  type="text"
-                  value={mostLikely}
-                  onChange={(e) => setMostLikely(e.target.value)}
-                  placeholder="e.g. $800K"
-                  className="w-full bg-black/5 p-4 rounded-xl mono text-black outline-none border border-black/10 focus:border-yellow-500"
-                />
+                <label className="mono text-[9px] uppercase font-bold tracking-widest text-zinc-500">Trials</label>
+                <div className="flex gap-2">
+                  {TRIAL_OPTIONS.map((n) => (
+                    <button
+                      key={n}
+                      onClick={() => setTrials(n)}
+                      className={`flex-1 p-4 rounded-xl mono text-xs font-bold transition-all ${
+                        trials === n ? 'bg-black text-white' : 'bg-black/5 text-zinc-500 hover:bg-black/10'
+                      }`}
+                    >
+                      {n.toLocaleString('en-US')}
+                    </button>
+                  ))}
+                </div>
               </div>
               <div className="space-y-4">
                 <label className="mono text-[9px] uppercase font-bold tracking-widest text-zinc-500">
-                  Worst Case ($)
+                  Seed (optional)
                 </label>
                 <input
                   type="text"
-                  value={worstCase}
+                  inputMode="numeric"
+                  value={seedInput}
                   onChange={(e) => {
-                    setWorstCase(e.target.value);
+                    setSeedInput(e.target.value);
                     setValidationError('');
                   }}
-                  placeholder="e.g. -$500K"
+                  placeholder="Random"
                   className="w-full bg-black/5 p-4 rounded-xl mono text-black outline-none border border-black/10 focus:border-yellow-500"
                 />
               </div>
@@ -1184,8 +3495,8 @@ function UncertaintyStage({
             )}
 
             <button
-              onClick={handleSubmitValues}
-              disabled={!bestCase.trim() || !mostLikely.trim() || !worstCase.trim()}
+              onClick={() => handleSubmitValues()}
+              disabled={!isDraftFilled(draftOf(topId))}
               className="mt-16 px-12 py-6 bg-yellow-500 text-black rounded-2xl font-black uppercase text-xs tracking-[0.3em] hover:scale-105 transition-all disabled:opacity-30"
             >
               Generate Neural Simulation
@@ -1194,54 +3505,68 @@ function UncertaintyStage({
         )}
 
         {isComputing && (
-          <div className="flex items-center gap-3 py-12">
-            <Loader2 className="animate-spin text-yellow-500" size={24} />
-            <span className="mono text-sm text-zinc-500">Running 10,000 Monte Carlo simulations...</span>
+          <div className="w-full max-w-md py-12 space-y-4">
+            <div className="flex items-center justify-center gap-3">
+              <Loader2 className="animate-spin text-yellow-500" size={24} />
+              <span className="mono text-sm text-zinc-500">
+                Running {trials.toLocaleString('en-US')} Monte Carlo simulations... {(progress * 100).toFixed(0)}%
+              </span>
+            </div>
+            <div className="h-2 rounded-full bg-black/10 overflow-hidden">
+              <div className="h-full bg-yellow-500 transition-all" style={{ width: `${progress * 100}%` }} />
+            </div>
+            <button
+              onClick={cancelRun}
+              className="px-6 py-3 border border-black/10 rounded-xl text-zinc-400 text-xs font-bold uppercase tracking-widest hover:bg-black/10 transition-all"
+            >
+              <X className="inline mr-2" size={12} /> Cancel
+            </button>
           </div>
         )}
 
         {mcResult && !isComputing && (
           <div className="w-full max-w-2xl text-left mt-8">
-            {/* Visual range bar */}
             <div className="mb-6">
-              <div className="relative h-12 rounded-lg overflow-hidden bg-black/10">
-                <div
-                  className="absolute h-full bg-yellow-500/30"
-                  style={{
-                    left: `${rangeBarPosition(mcResult.p10, parseNum(worstCase), parseNum(bestCase))}%`,
-                    width: `${
-                      rangeBarPosition(mcResult.p90, parseNum(worstCase), parseNum(bestCase)) -
-                      rangeBarPosition(mcResult.p10, parseNum(worstCase), parseNum(bestCase))
-                    }%`,
-                  }}
-                />
-                <div
-                  className="absolute w-1 h-full bg-yellow-500"
-                  style={{
-                    left: `${rangeBarPosition(mcResult.mean, parseNum(worstCase), parseNum(bestCase))}%`,
-                  }}
-                />
-                <div className="absolute inset-0 flex items-center justify-between px-3 text-xs mono">
-                  <span className="text-zinc-500">{fmt(parseNum(worstCase))}</span>
-                  <span className="text-yellow-600 font-bold">{fmt(mcResult.mean)}</span>
-                  <span className="text-zinc-500">{fmt(parseNum(bestCase))}</span>
+              {mcResult.histogram ? (
+                <DistributionChart result={mcResult} unit={unit} target={exceedTarget} />
+              ) : (
+                <div className="relative h-12 rounded-lg overflow-hidden bg-black/10">
+                  <div
+                    className="absolute h-full bg-yellow-500/30"
+                    style={{
+                      left: `${rangePosition(mcResult.p10, rangeLo, rangeHi)}%`,
+                      width: `${rangePosition(mcResult.p90, rangeLo, rangeHi) - rangePosition(mcResult.p10, rangeLo, rangeHi)}%`,
+                    }}
+                  />
+                  <div
+                    className="absolute w-1 h-full bg-yellow-500"
+                    style={{ left: `${rangePosition(mcResult.mean, rangeLo, rangeHi)}%` }}
+                  />
+                  <div className="absolute inset-0 flex items-center justify-between px-3 text-xs mono">
+                    <span className="text-zinc-500">{fmt(rangeLo, unit)}</span>
+                    <span className="text-yellow-600 font-bold">{fmt(mcResult.mean, unit)}</span>
+                    <span className="text-zinc-500">{fmt(rangeHi, unit)}</span>
+                  </div>
                 </div>
-              </div>
+              )}
+              {mcResult.distribution && (
+                <p className="mono text-[10px] text-zinc-400 mt-2">{describeDistribution(mcResult.distribution, unit)}</p>
+              )}
             </div>
 
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
               <div className="bg-black/5 p-4 rounded-xl">
                 <div className="mono text-[9px] uppercase text-zinc-500 mb-1">Expected Value</div>
-                <div className="mono font-bold text-black">{fmt(mcResult.mean)}</div>
+                <div className="mono font-bold text-black">{fmt(mcResult.mean, unit)}</div>
               </div>
               <div className="bg-black/5 p-4 rounded-xl">
                 <div className="mono text-[9px] uppercase text-zinc-500 mb-1">Median</div>
-                <div className="mono font-bold text-black">{fmt(mcResult.median)}</div>
+                <div className="mono font-bold text-black">{fmt(mcResult.median, unit)}</div>
               </div>
               <div className="bg-black/5 p-4 rounded-xl">
                 <div className="mono text-[9px] uppercase text-zinc-500 mb-1">P10 \u2013 P90</div>
                 <div className="mono font-bold text-black">
-                  {fmt(mcResult.p10)} to {fmt(mcResult.p90)}
+                  {fmt(mcResult.p10, unit)} to {fmt(mcResult.p90, unit)}
                 </div>
               </div>
               <div className="bg-black/5 p-4 rounded-xl">
@@ -1253,24 +3578,228 @@ function UncertaintyStage({
             </div>
 
             <div className="w-full max-w-2xl p-5 rounded-xl bg-black/5 border border-black/10 mt-2 mb-4 text-sm text-zinc-600 leading-relaxed">
-              In plain terms: across 10,000 simulated scenarios, the most likely outcome is around <strong className="text-black">{fmt(mcResult.mean)}</strong>. There's an 80% chance the actual result falls between <strong className="text-black">{fmt(mcResult.p10)}</strong> and <strong className="text-black">{fmt(mcResult.p90)}</strong>.{mcResult.probLoss > 0.05 ? ` Worth noting: there's a ${(mcResult.probLoss * 100).toFixed(0)}% chance of a net loss.` : ' The probability of a net loss is minimal.'}
+              In plain terms: across {(mcResult.trials ?? DEFAULT_TRIALS).toLocaleString('en-US')} simulated scenarios, the most likely outcome is around <strong className="text-black">{fmt(mcResult.mean, unit)}</strong>. There's an 80% chance the actual result falls between <strong className="text-black">{fmt(mcResult.p10, unit)}</strong> and <strong className="text-black">{fmt(mcResult.p90, unit)}</strong>.{mcResult.probLoss > 0.05 ? ` Worth noting: there's a ${(mcResult.probLoss * 100).toFixed(0)}% chance of a net loss.` : ' The probability of a net loss is minimal.'}
             </div>
 
+            {mcResult.cdf && (
+              <div className="w-full max-w-2xl p-5 rounded-xl bg-black/[0.02] border border-black/5 mb-4 space-y-3">
+                <span className="mono text-[9px] uppercase font-bold tracking-widest text-zinc-500 block">
+                  Query the Distribution
+                </span>
+                <div className="grid md:grid-cols-2 gap-4">
+                  <label className="flex items-center gap-2 text-xs text-zinc-600">
+                    <span className="shrink-0">Chance of exceeding</span>
+                    <input
+                      value={targetInput}
+                      onChange={(e) => setTargetInput(e.target.value)}
+                      placeholder={`e.g. ${exampleAmount(250000, unit)}`}
+                      className="w-28 bg-black/5 px-3 py-2 rounded-lg mono text-xs text-black outline-none border border-black/10 focus:border-yellow-500"
+                    />
+                    <span className="mono font-bold text-black">{exceedProb != null ? `${(exceedProb * 100).toFixed(0)}%` : '\u2014'}</span>
+                  </label>
+                  <label className="flex items-center gap-2 text-xs text-zinc-600">
+                    <span className="shrink-0">Outcome at P</span>
+                    <input
+                      value={percentileInput}
+                      onChange={(e) => setPercentileInput(e.target.value)}
+                      inputMode="numeric"
+                      className="w-16 bg-black/5 px-3 py-2 rounded-lg mono text-xs text-black outline-none border border-black/10 focus:border-yellow-500"
+                    />
+                    <span className="mono font-bold text-black">{queriedValue != null ? fmt(queriedValue, unit) : '\u2014'}</span>
+                  </label>
+                </div>
+                <p className="text-[10px] text-zinc-400">
+                  Read off the simulated CDF to within one percentile. The target shows as a red dashed line when it falls inside the chart.
+                </p>
+              </div>
+            )}
+
+            {mcResult.drivers?.length > 0 && (
+              <div className="w-full max-w-2xl p-5 rounded-xl bg-black/[0.02] border border-black/5 mb-4 space-y-3">
+                <span className="mono text-[9px] uppercase font-bold tracking-widest text-zinc-500 block">
+                  Variance Contribution &middot; {mcResult.drivers[0].name} matters most
+                </span>
+                <TornadoChart drivers={mcResult.drivers} />
+                <p className="text-[10px] text-zinc-400">
+                  Share of outcome variance explained by each driver's rank correlation with the outcome. Bars to the right raise the outcome; to the left, lower it.
+                </p>
+              </div>
+            )}
+
+            {mcResult.cashFlow && (
+              <div className="w-full max-w-2xl p-5 rounded-xl bg-black/[0.02] border border-black/5 mb-4 space-y-4">
+                <span className="mono text-[9px] uppercase font-bold tracking-widest text-zinc-500 block">
+                  Cash Flow &middot; figures above are NPV at {(mcResult.cashFlow.rate * 100).toFixed(1)}%
+                </span>
+                <CashFlowChart years={mcResult.cashFlow.years} />
+                <div className="grid grid-cols-2 gap-4">
+                  {[
+                    { label: 'IRR', summary: mcResult.cashFlow.irr, show: (v: number) => `${(v * 100).toFixed(1)}%` },
+                    { label: 'Payback (years)', summary: mcResult.cashFlow.payback, show: (v: number) => v.toFixed(1) },
+                  ].map(({ label, summary, show }) => (
+                    <div key={label} className="bg-black/5 p-4 rounded-xl">
+                      <div className="mono text-[9px] uppercase text-zinc-500 mb-1">{label} &middot; median</div>
+                      <div className="mono font-bold text-black">{summary ? show(summary.median) : 'n/a'}</div>
+                      {summary && (
+                        <div className="mono text-[10px] text-zinc-500 mt-1">
+                          P10 {show(summary.p10)} to P90 {show(summary.p90)}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <p className="text-[10px] text-zinc-400">{describeCashFlow(mcResult.cashFlow)}</p>
+              </div>
+            )}
+
+            {mcResult.convergence && (
+              <div className="w-full max-w-2xl p-5 rounded-xl bg-black/[0.02] border border-black/5 mb-4 space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="mono text-[9px] uppercase font-bold tracking-widest text-zinc-500">
+                    Convergence &middot; {simulationProvenance(mcResult)}
+                  </span>
+                  {converged ? (
+                    <span className="mono text-[10px] font-bold text-green-600 flex items-center gap-1">
+                      <Check size={12} /> Stable at this trial count
+                    </span>
+                  ) : (
+                    <span className="mono text-[10px] font-bold text-yellow-700 flex items-center gap-1">
+                      <AlertTriangle size={12} /> More trials would tighten these
+                    </span>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mono text-[10px] text-zinc-500">
+                  <span>EV &plusmn;{fmt(mcResult.convergence.mean, unit)}</span>
+                  <span>P10 &plusmn;{fmt(mcResult.convergence.p10, unit)}</span>
+                  <span>P90 &plusmn;{fmt(mcResult.convergence.p90, unit)}</span>
+                  <span>Loss &plusmn;{(mcResult.convergence.probLoss * 100).toFixed(1)} pts</span>
+                </div>
+                <p className="text-[10px] text-zinc-400">
+                  95% margins: how far each figure could move if the same estimates were re-run with a different seed.
+                </p>
+              </div>
+            )}
+
+            {comparison && (
+              <div className="w-full max-w-2xl p-5 rounded-xl bg-black/[0.02] border border-black/5 mb-4 space-y-4">
+                <span className="mono text-[9px] uppercase font-bold tracking-widest text-zinc-500 block">
+                  Alternative Comparison &middot; {comparison.alternatives.length} alternatives
+                </span>
+                <OutcomeOverlay comparison={comparison} unit={unit} />
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="mono text-[9px] uppercase text-zinc-500 text-left">
+                        <th className="py-2 font-bold">Alternative</th>
+                        <th className="py-2 font-bold text-right">EV</th>
+                        <th className="py-2 font-bold text-right">P10 &ndash; P90</th>
+                        <th className="py-2 font-bold text-right">P(loss)</th>
+                        <th className="py-2 font-bold text-right">P(best)</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {comparison.alternatives.map((a, i) => (
+                        <tr key={a.id} className="border-t border-black/5">
+                          <td className="py-2 font-bold text-black">
+                            <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ background: comparisonColor(i) }} />
+                            {a.name}
+                          </td>
+                          <td className="py-2 mono text-right">{fmt(a.result.mean, unit)}</td>
+                          <td className="py-2 mono text-right">
+                            {fmt(a.result.p10, unit)} to {fmt(a.result.p90, unit)}
+                          </td>
+                          <td className="py-2 mono text-right">{(a.result.probLoss * 100).toFixed(0)}%</td>
+                          <td className="py-2 mono text-right font-bold">{(a.probBest * 100).toFixed(0)}%</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <ul className="space-y-1 text-xs text-zinc-600">
+                  {dominance.length ? (
+                    dominance.map((s) => <li key={s}>{s}</li>)
+                  ) : (
+                    <li>No alternative stochastically dominates another.</li>
+                  )}
+                </ul>
+                <p className="text-[10px] text-zinc-400">
+                  P(best) is the share of trials in which each alternative drew the highest outcome, treating their outcomes as independent.
+                </p>
+              </div>
+            )}
+
+            {comparison?.information && verdict && (
+              <div className="w-full max-w-2xl p-5 rounded-xl bg-black/[0.02] border border-black/5 mb-4 space-y-4">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="mono text-[9px] uppercase font-bold tracking-widest text-zinc-500">
+                    Value of Information &middot; EVPI {fmt(comparison.information.evpi, unit)}
+                  </span>
+                  {verdict.action === 'gather' ? (
+                    <span className="mono text-[10px] font-bold text-yellow-700 flex items-center gap-1">
+                      <Compass size={12} /> Gather more information
+                    </span>
+                  ) : (
+                    <span className="mono text-[10px] font-bold text-green-600 flex items-center gap-1">
+                      <Check size={12} /> Decide now
+                    </span>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  {comparison.information.partial.slice(0, 6).map((p) => (
+                    <div key={`${p.alternative}:${p.input ?? ''}`} className="grid grid-cols-[12rem_1fr_4rem] gap-3 items-center">
+                      <span className="mono text-[10px] text-zinc-600 truncate text-right" title={describeInformation(comparison, p)}>
+                        {describeInformation(comparison, p)}
+                      </span>
+                      <div className="relative h-4 bg-black/5 rounded">
+                        <div
+                          className="absolute top-0 bottom-0 left-0 rounded bg-yellow-500/70"
+                          style={{ width: `${rangePosition(p.value, 0, comparison.information.evpi)}%` }}
+                        />
+                      </div>
+                      <span className="mono text-[10px] font-bold text-black text-right">{fmt(p.value, unit)}</span>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-sm text-zinc-600">{verdict.message}</p>
+                <p className="text-[10px] text-zinc-400">
+                  What learning each uncertainty before choosing is worth in expectation. Real research only narrows an uncertainty, so treat these as upper bounds.
+                </p>
+              </div>
+            )}
+
+            {!comparison && clustered && candidates.length > 1 && (
+              <div className="w-full max-w-2xl p-5 rounded-xl bg-yellow-500/10 border border-yellow-500/20 mb-4 text-sm text-zinc-600">
+                Your scores put the alternatives within a point of each other. Add estimates for {candidates[1].name} and re-run to see
+                whether more research is worth it before deciding.
+              </div>
+            )}
+
             <div className="flex justify-between mt-8">
-              <button
-                onClick={() => {
-                  setMcResult(null);
-                  setValidationError('');
-                }}
-                className="px-6 py-3 border border-black/10 rounded-xl text-zinc-400 text-xs font-bold uppercase tracking-widest hover:bg-black/10 transition-all"
-              >
-                <RefreshCw className="inline mr-2" size={12} /> Adjust Estimates
-              </button>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => {
+                    setMcResult(null);
+                    setValidationError('');
+                  }}
+                  className="px-6 py-3 border border-black/10 rounded-xl text-zinc-400 text-xs font-bold uppercase tracking-widest hover:bg-black/10 transition-all"
+                >
+                  <RefreshCw className="inline mr-2" size={12} /> Adjust Estimates
+                </button>
+                {mcResult.seed != null && (
+                  <button
+                    onClick={() => handleSubmitValues(mcResult.seed)}
+                    title={`Reproduce this run exactly (seed ${mcResult.seed})`}
+                    className="px-6 py-3 border border-black/10 rounded-xl text-zinc-400 text-xs font-bold uppercase tracking-widest hover:bg-black/10 transition-all"
+                  >
+                    Re-run Same Seed
+                  </button>
+                )}
+              </div>
               <button
                 onClick={onComplete}
                 className="px-8 py-3 bg-yellow-500 text-black rounded-xl font-black uppercase text-xs tracking-widest hover:scale-105 transition-all"
               >
-                {decision.meta.threshold > 100000 ? 'Risk Audit' : 'Generate Memo'}{' '}
+                {isStageActive('premortem', decision) ? 'Risk Audit' : 'Generate Memo'}{' '}
                 <ArrowRight className="inline ml-2" size={14} />
               </button>
             </div>
@@ -1293,7 +3822,7 @@ function UncertaintyStage({
 }
 
 // ══════════════════════════════════════
-// STAGE 6: PRE-MORTEM (Risk Audit)
+// STAGE 7: PRE-MORTEM (Risk Audit)
 // ══════════════════════════════════════
 
 function PreMortemStage({
@@ -1308,7 +3837,7 @@ function PreMortemStage({
   onBack: () => void;
 }) {
   const topName = decision.topChoice?.name || 'this decision';
-  const [completedRisks, setCompletedRisks] = useState<Risk[]>([]);
+  const [completedRisks, setCompletedRisks] = useState<Risk[]>(decision.risks);
   const [currentRisk, setCurrentRisk] = useState<Partial<Risk>>({
     description: '',
     likelihood: undefined,
@@ -1316,12 +3845,12 @@ function PreMortemStage({
     mitigation: '',
     theme: 'other',
   });
-  const [showReview, setShowReview] = useState(false);
+  const [showReview, setShowReview] = useState(decision.risks.length > 0);
 
   // AI risk brainstorming
   const [aiRisks, setAiRisks] = useState<any[] | null>(null);
   const [aiRiskLoading, setAiRiskLoading] = useState(false);
-  const [aiRisksDismissed, setAiRisksDismissed] = useState(false);
+  const [aiRisksDismissed, setAiRisksDismissed] = useState(decision.risks.length > 0);
   const [selectedAiRisks, setSelectedAiRisks] = useState<Record<number, boolean>>({});
 
   useEffect(() => {
@@ -1653,7 +4182,7 @@ function PreMortemStage({
 }
 
 // ══════════════════════════════════════
-// STAGE 7: SYNTHESIS (Decision Memo)
+// STAGE 8: SYNTHESIS (Decision Memo)
 // ══════════════════════════════════════
 
 // FIX 2 & 3 & 4: Headers bold not italic, no number prefixes; dash bullets + indented sub-items; numbered list spacing
@@ -1692,27 +4221,37 @@ function renderMarkdown(text: string): string {
   return html;
 }
 
-function SynthesisStage({
+export function SynthesisStage({
   decision,
   onReset,
+  readOnly = false,
+  date,
 }: {
   decision: DecisionState;
-  onReset: () => void;
+  onReset?: () => void;
+  readOnly?: boolean;
+  // The memo's date; today unless it is being shown as shared on an earlier day
+  date?: Date;
 }) {
   const memoRef = useRef<HTMLDivElement>(null);
   const [copyStatus, setCopyStatus] = useState('');
+  const [shareStatus, setShareStatus] = useState('');
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
   const [refinedMemo, setRefinedMemo] = useState<string | null>(null);
   const [memoRefining, setMemoRefining] = useState(false);
   const [showRefined, setShowRefined] = useState(false);
   const [aiError, setAiError] = useState<string | null>(null);
 
-  const rankings = useMemo(
-    () => calculateRankings(decision.alternatives, decision.criteria, decision.scores),
-    [decision.alternatives, decision.criteria, decision.scores]
+  const memo = useMemo(() => buildMemo(decision, date), [decision, date]);
+  const { rankings, simulation: mc } = memo;
+  const [rangeLo, rangeHi] = useMemo(
+    () =>
+      mc?.distribution
+        ? distributionRange(mc.distribution)
+        : [decision.topChoice?.worstCase ?? 0, decision.topChoice?.bestCase ?? 0],
+    [mc, decision.topChoice]
   );
-
-  const topAlt = rankings[0] || { name: 'N/A', score: 0 };
-  const mc = decision.mcResult;
+  const topAlt = memo.recommendation || { name: 'N/A', score: 0 };
 
   const handleRefineWithAI = async () => {
     if (!memoRef.current) return;
@@ -1753,6 +4292,19 @@ function SynthesisStage({
     );
   };
 
+  const handleShare = async () => {
+    try {
+      const url = await buildShareUrl(decision);
+      setShareUrl(url);
+      await navigator.clipboard.writeText(url);
+      setShareStatus('Link Copied!');
+    } catch (err) {
+      console.error('Share failed:', err);
+      setShareStatus('Copy the link below');
+    }
+    setTimeout(() => setShareStatus(''), 2000);
+  };
+
   return (
     <div className="space-y-12">
       <div id="memo-output" className="p-12 bg-white rounded-[2rem] border border-black/5 shadow-inner">
@@ -1762,9 +4314,9 @@ function SynthesisStage({
               Structural Decision Memo.
             </h1>
             <div className="flex gap-4 mono text-[10px] uppercase font-bold text-zinc-400">
-              <span>{new Date().toLocaleDateString()}</span>
+              <span>{memo.date}</span>
               <div className="w-1 h-1 bg-zinc-200 rounded-full my-auto"></div>
-              <span>Protocol v4.0.2</span>
+              <span>{MEMO_PROTOCOL}</span>
             </div>
           </div>
           <div className="w-16 h-16 bg-black text-white rounded-2xl flex items-center justify-center font-black text-2xl">
@@ -1784,7 +4336,8 @@ function SynthesisStage({
                 </span>
                 <h4 className="serif text-3xl font-black italic mt-2">{topAlt.name}</h4>
                 <p className="mt-4 mono text-xs font-bold opacity-60">
-                  Weighted Confidence: {topAlt.score.toFixed(1)} / 10
+                  {memo.aggregation === 'weighted-sum' ? 'Weighted Confidence' : `${AGGREGATION_LABELS[memo.aggregation]} Score`}:{' '}
+                  {topAlt.score.toFixed(1)} / 10
                 </p>
               </div>
             </div>
@@ -1797,17 +4350,24 @@ function SynthesisStage({
                 <div className="space-y-4">
                   <div className="flex justify-between mono text-[10px]">
                     <span className="text-zinc-400">Expected Value</span>
-                    <span className="font-bold">{fmt(mc.mean)}</span>
-                  </div>
-                  <div className="h-2 bg-black/5 rounded-full relative overflow-hidden">
-                    <div
-                      className="absolute top-0 h-full bg-black rounded-full"
-                      style={{ left: '30%', width: '40%' }}
-                    ></div>
+                    <span className="font-bold">{fmt(mc.mean, memo.unit)}</span>
                   </div>
+                  {mc.histogram ? (
+                    <DistributionChart result={mc} unit={memo.unit} compact />
+                  ) : (
+                    <div className="h-2 bg-black/5 rounded-full relative overflow-hidden">
+                      <div
+                        className="absolute top-0 h-full bg-black rounded-full"
+                        style={{
+                          left: `${rangePosition(mc.p10, rangeLo, rangeHi)}%`,
+                          width: `${rangePosition(mc.p90, rangeLo, rangeHi) - rangePosition(mc.p10, rangeLo, rangeHi)}%`,
+                        }}
+                      ></div>
+                    </div>
+                  )}
                   <div className="flex justify-between mono text-[9px] text-zinc-300">
-                    <span>P10: {fmt(mc.p10)}</span>
-                    <span>P90: {fmt(mc.p90)}</span>
+                    <span>P10: {fmt(mc.p10, memo.unit)}</span>
+                    <span>P90: {fmt(mc.p90, memo.unit)}</span>
                   </div>
                   {mc.probLoss > 0 && (
                     <div className="mono text-[10px] text-red-500">
@@ -1825,14 +4385,29 @@ function SynthesisStage({
             style={{ display: showRefined ? 'none' : 'block' }}
           >
             <h4 className="text-black font-black italic">Context Summary</h4>
-            <p className="text-zinc-600 leading-relaxed">
-              This decision evaluates {decision.statement.toLowerCase().replace(/\.$/, '')},{' '}
-              a {THRESHOLD_OPTIONS.find((o) => o.value === decision.meta.threshold)?.label || 'significant'}-scale{' '}
-              commitment with {decision.meta.reversibilityLabel?.toLowerCase() || 'moderate'} reversibility.{' '}
-              {decision.objectives
-                ? `Success is defined by: ${decision.objectives.toLowerCase().replace(/\.$/, '')}.`
-                : 'No specific success criteria were defined.'}
-            </p>
+            <p className="text-zinc-600 leading-relaxed">{memo.context}</p>
+
+            {memo.constraints.length > 0 && (
+              <>
+                <h4 className="text-black font-black italic mt-12">Screening</h4>
+                <p className="text-zinc-600">Alternatives were screened against: {memo.constraints.join('; ')}.</p>
+                {memo.screening.length ? (
+                  <div className="space-y-2 mt-4">
+                    {memo.screening.map((r) => (
+                      <div key={r.id} className="py-3 border-b border-black/5">
+                        <span className="text-sm uppercase mono tracking-widest">{r.name}</span>
+                        <span className={`mono text-xs ml-3 ${r.eliminated ? 'text-red-600' : 'text-yellow-700'}`}>
+                          {r.eliminated ? 'Screened out' : 'Flagged'}
+                        </span>
+                        <p className="text-sm text-zinc-500 mt-1">{r.failures.map((f) => f.reason).join('; ')}</p>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-zinc-600">Every alternative passed.</p>
+                )}
+              </>
+            )}
 
             <h4 className="text-black font-black italic mt-12">Analysis Results</h4>
             <div className="space-y-2 mt-4">
@@ -1846,35 +4421,92 @@ function SynthesisStage({
                   <span className="text-sm uppercase mono tracking-widest">
                     {idx === 0 ? '\u{1F3C6} ' : `#${idx + 1} `}
                     {r.name}
+                    {memo.dominated.some((d) => d.id === r.id) && (
+                      <span className="ml-2 normal-case tracking-normal text-zinc-400 font-normal">
+                        (dominated by {dominatorNames(memo.dominated.find((d) => d.id === r.id))})
+                      </span>
+                    )}
                   </span>
                   <span className="mono text-xs text-zinc-400">{r.score.toFixed(1)} / 10</span>
                 </div>
               ))}
             </div>
+            <p className="text-zinc-500 italic text-sm mt-4">{memo.aggregationNote}</p>
+
+            {rankings.length > 1 && (
+              <>
+                <h4 className="text-black font-black italic mt-12">Method Comparison</h4>
+                <div className="space-y-2 mt-4">
+                  {rankings.map((r) => (
+                    <div key={r.id} className="flex justify-between items-center py-3 border-b border-black/5">
+                      <span className="text-sm uppercase mono tracking-widest">{r.name}</span>
+                      <span className="mono text-xs text-zinc-400">
+                        {memo.methods
+                          .map((m) => `${AGGREGATION_LABELS[m.method]} #${m.rankings.findIndex((x) => x.id === r.id) + 1}`)
+                          .join(' \u00b7 ')}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-zinc-600 mt-4">
+                  {memo.methodDependent ? (
+                    <>
+                      <strong>Method-dependent:</strong> {memo.methodAgreement}
+                    </>
+                  ) : (
+                    memo.methodAgreement
+                  )}
+                </p>
+              </>
+            )}
+
+            {memo.acceptability && (
+              <>
+                <h4 className="text-black font-black italic mt-12">Rank Acceptability</h4>
+                <p className="text-zinc-600">
+                  Some scores were entered as ranges and drawn uniformly within them (
+                  {simulationProvenance({ trials: DEFAULT_TRIALS, seed: ACCEPTABILITY_SEED })}). {describeAcceptability(memo.acceptability)}
+                </p>
+                <div className="space-y-2 mt-4">
+                  {memo.acceptability.map((a) => (
+                    <div key={a.id} className="flex justify-between items-center py-3 border-b border-black/5">
+                      <span className="text-sm uppercase mono tracking-widest">{a.name}</span>
+                      <span className="mono text-xs text-zinc-400">
+                        {a.ranks.map((p, rank) => `#${rank + 1} ${(p * 100).toFixed(0)}%`).join(' \u00b7 ')}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
 
             <h4 className="text-black font-black italic mt-12">Criteria Weights</h4>
             <div className="space-y-2 mt-4">
-              {[...decision.criteria]
-                .sort((a, b) => b.weight - a.weight)
-                .map((c) => (
-                  <div key={c.id} className="flex justify-between items-center py-3 border-b border-black/5">
-                    <span className="font-bold text-sm uppercase mono tracking-widest">{c.name}</span>
-                    <span className="mono text-xs text-zinc-400">
-                      {(c.weight * 100).toFixed(0)}% Priority
-                    </span>
-                  </div>
-                ))}
+              {memo.weights.map((c) => (
+                <div key={c.id} className="flex justify-between items-center py-3 border-b border-black/5">
+                  <span className="font-bold text-sm uppercase mono tracking-widest">{c.name}</span>
+                  <span className="mono text-xs text-zinc-400">
+                    {(c.weight * 100).toFixed(0)}% Priority
+                  </span>
+                </div>
+              ))}
             </div>
+            <p className="text-zinc-500 italic text-sm mt-4">{memo.weighting}</p>
+            {memo.robustness && (
+              <p className="text-zinc-600 mt-4">
+                <strong>Robustness:</strong> {memo.robustness}
+              </p>
+            )}
 
             {mc && (
               <>
                 <h4 className="text-black font-black italic mt-12">Outcome Uncertainty</h4>
                 <p className="text-zinc-600">
-                  Based on Monte Carlo simulation (10,000 trials), the expected value of{' '}
-                  <strong>{topAlt.name}</strong> is <strong className="mono">{fmt(mc.mean)}</strong>.
+                  Based on Monte Carlo simulation {simulationBasis(mc, memo.unit)}, the expected value of{' '}
+                  <strong>{topAlt.name}</strong> is <strong className="mono">{fmt(mc.mean, memo.unit)}</strong>.
                   There's an 80% confidence that the outcome will fall between{' '}
-                  <strong className="mono">{fmt(mc.p10)}</strong> (P10) and{' '}
-                  <strong className="mono">{fmt(mc.p90)}</strong> (P90).
+                  <strong className="mono">{fmt(mc.p10, memo.unit)}</strong> (P10) and{' '}
+                  <strong className="mono">{fmt(mc.p90, memo.unit)}</strong> (P90).
                   {mc.probLoss > 0 && (
                     <>
                       {' '}
@@ -1883,14 +4515,84 @@ function SynthesisStage({
                     </>
                   )}
                 </p>
+                {mc.cdf && (
+                  <p className="text-zinc-600">
+                    <strong>Percentiles:</strong> {describePercentiles(mc, memo.unit)}
+                  </p>
+                )}
+                {mc.cashFlow && (
+                  <p className="text-zinc-600">
+                    <strong>Cash flow:</strong> {describeCashFlow(mc.cashFlow)}
+                  </p>
+                )}
+                {mc.drivers?.length > 0 && (
+                  <p className="text-zinc-600">
+                    <strong>Variance drivers:</strong> {describeDrivers(mc.drivers)}
+                  </p>
+                )}
+              </>
+            )}
+
+            {memo.comparison && (
+              <>
+                <h4 className="text-black font-black italic mt-12">Alternative Comparison</h4>
+                <p className="text-zinc-600">
+                  Each alternative was simulated independently ({simulationProvenance(memo.comparison)}).
+                </p>
+                <div className="space-y-2 mt-4">
+                  {memo.comparison.alternatives.map((a) => (
+                    <div key={a.id} className="flex justify-between items-center gap-4 py-3 border-b border-black/5">
+                      <span className="font-bold text-sm uppercase mono tracking-widest">{a.name}</span>
+                      <span className="mono text-xs text-zinc-400 text-right">
+                        EV {fmt(a.result.mean, memo.unit)} &middot; P10&ndash;P90 {fmt(a.result.p10, memo.unit)} to {fmt(a.result.p90, memo.unit)} &middot;{' '}
+                        {(a.result.probLoss * 100).toFixed(0)}% loss &middot; {(a.probBest * 100).toFixed(0)}% best
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                <ul className="list-disc pl-5 space-y-2 mt-4">
+                  {describeDominance(memo.comparison).map((s) => (
+                    <li key={s}>{s}</li>
+                  ))}
+                  {memo.comparison.dominance.length === 0 && <li>No alternative stochastically dominates another.</li>}
+                </ul>
+                {memo.comparison.alternatives
+                  .slice(1)
+                  .filter((a) => a.result.cashFlow)
+                  .map((a) => (
+                    <p key={a.id} className="text-zinc-600">
+                      <strong>{a.name} cash flow:</strong> {describeCashFlow(a.result.cashFlow)}
+                    </p>
+                  ))}
+              </>
+            )}
+
+            {memo.comparison?.information && memo.information && (
+              <>
+                <h4 className="text-black font-black italic mt-12">Value of Information</h4>
+                <p className="text-zinc-600">
+                  Knowing every outcome before choosing would be worth <strong>{fmt(memo.comparison.information.evpi, memo.unit)}</strong> in
+                  expectation (EVPI). Per uncertainty:
+                </p>
+                <ul className="list-disc pl-5 space-y-2">
+                  {memo.comparison.information.partial.slice(0, 5).map((p) => (
+                    <li key={`${p.alternative}:${p.input ?? ''}`}>
+                      {describeInformation(memo.comparison, p)} &mdash; up to {fmt(p.value, memo.unit)}
+                    </li>
+                  ))}
+                </ul>
+                <p className="text-zinc-600">
+                  <strong>Recommendation: {memo.information.action === 'gather' ? 'gather more information' : 'decide now'}.</strong>{' '}
+                  {memo.information.message}
+                </p>
               </>
             )}
 
-            {decision.risks.length > 0 && (
+            {memo.risks.length > 0 && (
               <>
                 <h4 className="text-black font-black italic mt-12">Key Risks &amp; Mitigation</h4>
                 <ul className="list-disc pl-5 space-y-2">
-                  {decision.risks.map((r, i) => (
+                  {memo.risks.map((r, i) => (
                     <li key={i}>
                       <strong>{r.description}</strong> (Likelihood: {r.likelihood}, Impact: {r.impact})
                       {r.mitigation && (
@@ -1907,14 +4609,12 @@ function SynthesisStage({
 
             <h4 className="text-black font-black italic mt-12">Next Steps</h4>
             <p className="text-zinc-600">
-              1. Share this memo with key stakeholders for alignment
-              <br />
-              2. Validate assumptions, especially around{' '}
-              {decision.criteria.length > 0 ? decision.criteria[0].name : 'key criteria'}
-              <br />
-              3. Implement mitigation plans for high-likelihood/high-impact risks
-              <br />
-              4. Set a review checkpoint at 90 days to reassess assumptions
+              {memo.nextSteps.map((step, i) => (
+                <React.Fragment key={i}>
+                  {i > 0 && <br />}
+                  {i + 1}. {step}
+                </React.Fragment>
+              ))}
             </p>
           </div>
         </div>
@@ -1999,7 +4699,15 @@ function SynthesisStage({
           >
             <Copy size={14} /> {copyStatus || 'Copy to Ledger'}
           </button>
-          {!refinedMemo && !memoRefining && (
+          {!readOnly && (
+            <button
+              onClick={handleShare}
+              className="px-8 py-4 bg-black/5 text-black rounded-xl font-black uppercase text-[10px] tracking-widest flex items-center gap-2 hover:bg-black/10 transition-all"
+            >
+              <Share2 size={14} /> {shareStatus || 'Share'}
+            </button>
+          )}
+          {!readOnly && !refinedMemo && !memoRefining && (
             <button
               onClick={handleRefineWithAI}
               className="px-8 py-4 bg-yellow-500/10 text-yellow-700 rounded-xl font-black uppercase text-[10px] tracking-widest flex items-center gap-2 hover:bg-yellow-500 hover:text-black transition-all"
@@ -2008,11 +4716,78 @@ function SynthesisStage({
             </button>
           )}
         </div>
+        {onReset && (
+          <button
+            onClick={onReset}
+            className="px-8 py-4 border border-black/10 text-zinc-400 rounded-xl font-black uppercase text-[10px] tracking-widest flex items-center gap-2 hover:bg-black hover:text-white transition-all"
+          >
+            <RotateCcw size={14} /> Reset Lab
+          </button>
+        )}
+      </div>
+
+      {shareUrl && (
+        <div className="p-5 rounded-xl bg-black/[0.02] border border-black/5 space-y-2">
+          <span className="mono text-[10px] uppercase font-bold text-zinc-400">
+            Read-only link &mdash; the decision is encoded in the link itself, nothing is stored on a server
+          </span>
+          <input
+            readOnly
+            value={shareUrl}
+            onFocus={(e) => e.target.select()}
+            className="w-full bg-white p-3 rounded-lg mono text-xs text-zinc-600 outline-none border border-black/10"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ══════════════════════════════════════
+// SESSION RESUME PROMPT
+// ══════════════════════════════════════
+
+function ResumePrompt({
+  session,
+  onResume,
+  onStartFresh,
+}: {
+  session: StoredSession;
+  onResume: () => void;
+  onStartFresh: () => void;
+}) {
+  const stage = STAGES.find((s) => s.id === session.stageId) || STAGES[0];
+  const savedAt = new Date(session.savedAt);
+
+  return (
+    <div className="glass-card p-12 rounded-[3rem] shadow-2xl shadow-black/5 space-y-10">
+      <div className="flex items-center gap-3">
+        <RotateCcw size={14} className="text-yellow-600" />
+        <span className="mono text-[10px] uppercase font-bold tracking-[0.4em] text-zinc-400">
+          Saved Session Detected
+        </span>
+      </div>
+      <div className="space-y-4">
+        <h3 className="serif text-4xl font-black italic tracking-tighter">
+          {session.decision.statement || 'Untitled decision'}
+        </h3>
+        <p className="mono text-[10px] uppercase font-bold text-zinc-400">
+          Stopped at {stage.label}
+          {!isNaN(savedAt.getTime()) && ` \u2014 ${savedAt.toLocaleString()}`}
+        </p>
+      </div>
+      <div className="pt-8 border-t border-black/5 flex justify-between">
+        <button
+          onClick={onStartFresh}
+          className="px-10 py-5 border border-black/10 rounded-2xl font-black uppercase text-[10px] tracking-widest text-zinc-400 hover:bg-black hover:text-white transition-all"
+        >
+          Start Fresh
+        </button>
         <button
-          onClick={onReset}
-          className="px-8 py-4 border border-black/10 text-zinc-400 rounded-xl font-black uppercase text-[10px] tracking-widest flex items-center gap-2 hover:bg-black hover:text-white transition-all"
+          onClick={onResume}
+          className="px-12 py-5 bg-black text-white rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-yellow-500 hover:text-black transition-all flex items-center gap-4"
         >
-          <RotateCcw size={14} /> Reset Lab
+          Resume Session <ArrowRight size={14} />
         </button>
       </div>
     </div>
@@ -2023,37 +4798,154 @@ function SynthesisStage({
 // MAIN COMPONENT
 // ══════════════════════════════════════
 
-const DecisionLab: React.FC = () => {
-  const [decision, dispatch] = useReducer(decisionReducer, INITIAL_STATE);
-  const [currentStageIdx, setCurrentStageIdx] = useState(0);
+const DecisionLab: React.FC<{ decisionId?: string }> = ({ decisionId }) => {
+  const navigate = useNavigate();
+  // Library mode: a saved record replaces the anonymous session as the source of truth
+  const [record] = useState(() => (decisionId ? getDecision(decisionId) : null));
+  const [history, dispatch] = useReducer(historyReducer, record, (r) => ({
+    present: r ? decisionReducer(INITIAL_STATE, { type: 'LOAD', value: r.decision }) : INITIAL_STATE,
+    past: [],
+    future: [],
+  }));
+  const decision = history.present;
+  const [currentStageIdx, setCurrentStageIdx] = useState(() =>
+    record ? Math.max(0, STAGES.findIndex((s) => s.id === record.stageId)) : 0
+  );
   const [loading, setLoading] = useState(false);
+  const [pendingSession, setPendingSession] = useState<StoredSession | null>(() =>
+    decisionId ? null : loadSession()
+  );
+  const [name, setName] = useState(record?.name || '');
+  const [importErrors, setImportErrors] = useState<FieldError[] | null>(null);
+  const [stageKey, setStageKey] = useState(0);
+  const [showHistory, setShowHistory] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const shouldShowPreMortem = decision.meta.threshold > 100000;
+  const stageChecks = useMemo(() => checkStages(decision), [decision]);
+  const activeStages = useMemo(() => STAGES.map((s) => isStageActive(s.id, decision)), [decision]);
+
+  // A stage is reachable once every active stage before it holds data (stale counts — it gets a warning instead)
+  const isUnlocked = (idx: number) =>
+    STAGES.slice(0, idx).every((s, i) => !activeStages[i] || stageChecks[s.id].status !== 'incomplete');
 
   const goNext = useCallback(() => {
     setCurrentStageIdx((i) => {
       let next = Math.min(i + 1, STAGES.length - 1);
-      if (STAGES[next].id === 'premortem' && !shouldShowPreMortem) {
-        next = Math.min(next + 1, STAGES.length - 1);
-      }
+      while (next < STAGES.length - 1 && !activeStages[next]) next++;
       return next;
     });
-  }, [shouldShowPreMortem]);
+  }, [activeStages]);
 
   const goBack = useCallback(() => {
     setCurrentStageIdx((i) => {
       let prev = Math.max(i - 1, 0);
-      if (STAGES[prev].id === 'premortem' && !shouldShowPreMortem) {
-        prev = Math.max(prev - 1, 0);
-      }
+      while (prev > 0 && !activeStages[prev]) prev--;
       return prev;
     });
-  }, [shouldShowPreMortem]);
+  }, [activeStages]);
 
   const resetApp = useCallback(() => {
     dispatch({ type: 'RESET' });
     setCurrentStageIdx(0);
-  }, []);
+    if (!decisionId) clearSession();
+  }, [decisionId]);
+
+  const resumeSession = () => {
+    if (!pendingSession) return;
+    dispatch({ type: 'LOAD', value: pendingSession.decision });
+    setCurrentStageIdx(Math.max(0, STAGES.findIndex((s) => s.id === pendingSession.stageId)));
+    setPendingSession(null);
+  };
+
+  const startFresh = () => {
+    clearSession();
+    setPendingSession(null);
+  };
+
+  const saveToLibrary = () => {
+    const created = createDecision(decision.statement, decision, STAGES[currentStageIdx].id);
+    clearSession();
+    navigate(`/lab/${created.id}`);
+  };
+
+  const exportJson = () => {
+    const url = URL.createObjectURL(new Blob([exportDecision(decision)], { type: 'application/json' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = decisionFileName(decision);
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importJson = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const { decision: imported, errors } = parseDecisionFile(await file.text());
+    if (!imported) {
+      setImportErrors(errors);
+      return;
+    }
+    setImportErrors(null);
+    dispatch({ type: 'LOAD', value: imported });
+    setCurrentStageIdx(STAGES.findIndex((s) => s.id === inferStageId(imported)));
+    // Stages copy the decision into local state on mount, so remount them
+    setStageKey((k) => k + 1);
+  };
+
+  // Stepping over a RESET or LOAD moves the whole decision, so follow it with the stage
+  const stepHistory = useCallback(
+    (direction: 'UNDO' | 'REDO') => {
+      const entry = direction === 'UNDO' ? history.past[history.past.length - 1] : history.future[0];
+      if (!entry) return;
+      dispatch({ type: direction });
+      if (entry.type === 'RESET' || entry.type === 'LOAD') {
+        const target = direction === 'UNDO' ? entry.before : entry.after;
+        setCurrentStageIdx(STAGES.findIndex((s) => s.id === inferStageId(target)));
+      }
+      setStageKey((k) => k + 1);
+    },
+    [history]
+  );
+
+  useEffect(() => {
+    if (pendingSession) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey)) return;
+      // Leave text fields to the browser's own undo
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, [contenteditable="true"]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        stepHistory('UNDO');
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        stepHistory('REDO');
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [stepHistory, pendingSession]);
+
+  const renameDecision = (value: string) => {
+    setName(value);
+    if (decisionId) updateDecision(decisionId, { name: value });
+  };
+
+  // Autosave — held back while the resume prompt is open so it can't overwrite the saved session
+  useEffect(() => {
+    if (decisionId) {
+      updateDecision(decisionId, { decision, stageId: STAGES[currentStageIdx].id });
+      return;
+    }
+    if (pendingSession) return;
+    if (decision === INITIAL_STATE) {
+      clearSession();
+      return;
+    }
+    saveSession(decision, STAGES[currentStageIdx].id);
+  }, [decisionId, decision, currentStageIdx, pendingSession]);
 
   useEffect(() => {
     const style = document.createElement('style');
@@ -2075,88 +4967,279 @@ const DecisionLab: React.FC = () => {
   }, []);
 
   const currentStage = STAGES[currentStageIdx];
+  const staleStages = STAGES.filter(
+    (s, idx) =>
+      idx <= currentStageIdx && s.id !== 'synthesis' && activeStages[idx] && stageChecks[s.id].status === 'stale'
+  );
 
   return (
     <section className="py-40 px-6 sm:px-12 bg-[#fbfaf8] relative border-y border-black/5 overflow-hidden">
       <div className="max-w-5xl mx-auto">
-        {/* Progress System */}
-        <div className="flex justify-between items-center mb-24 px-4 overflow-x-auto no-scrollbar gap-8">
-          {STAGES.map((s, idx) => {
-            if (s.id === 'premortem' && !shouldShowPreMortem) return null;
-            return (
-              <div key={s.id} className="flex flex-col items-center min-w-[60px] relative">
-                <div
-                  onClick={() => idx < currentStageIdx && setCurrentStageIdx(idx)}
-                  className={`w-10 h-10 rounded-xl flex items-center justify-center transition-all z-10 ${
-                    idx === currentStageIdx
-                      ? 'bg-black text-white shadow-xl scale-110 cursor-default'
-                      : idx < currentStageIdx
-                      ? 'bg-yellow-500 text-black cursor-pointer'
-                      : 'bg-black/5 text-zinc-300 cursor-default'
-                  }`}
+        {pendingSession ? (
+          <ResumePrompt session={pendingSession} onResume={resumeSession} onStartFresh={startFresh} />
+        ) : (
+          <>
+            {/* Library Controls */}
+            <div className="flex justify-between items-center mb-16 px-4 gap-6">
+              {decisionId ? (
+                <input
+                  value={name}
+                  onChange={(e) => renameDecision(e.target.value)}
+                  placeholder="Untitled decision"
+                  className="flex-1 bg-transparent serif italic font-black text-2xl tracking-tight outline-none"
+                />
+              ) : (
+                <span className="mono text-[10px] uppercase font-bold tracking-[0.3em] text-zinc-400">
+                  Unsaved Session
+                </span>
+              )}
+              <div className="flex gap-3">
+                <button
+                  onClick={() => stepHistory('UNDO')}
+                  disabled={!history.past.length}
+                  title="Undo (Ctrl/\u2318+Z)"
+                  className="p-3 border border-black/10 rounded-xl text-zinc-400 hover:bg-black hover:text-white transition-all disabled:opacity-30"
                 >
-                  {idx < currentStageIdx ? <Check size={18} /> : <s.icon size={18} />}
-                </div>
-                <span
-                  className={`mono text-[9px] uppercase font-bold tracking-widest mt-4 ${
-                    idx === currentStageIdx ? 'text-black' : idx < currentStageIdx ? 'text-zinc-600' : 'text-zinc-300'
+                  <Undo2 size={12} />
+                </button>
+                <button
+                  onClick={() => stepHistory('REDO')}
+                  disabled={!history.future.length}
+                  title="Redo (Ctrl/\u2318+Shift+Z)"
+                  className="p-3 border border-black/10 rounded-xl text-zinc-400 hover:bg-black hover:text-white transition-all disabled:opacity-30"
+                >
+                  <Redo2 size={12} />
+                </button>
+                <button
+                  onClick={() => setShowHistory((v) => !v)}
+                  title="Change history"
+                  className={`p-3 border rounded-xl transition-all ${
+                    showHistory ? 'bg-black text-white border-black' : 'border-black/10 text-zinc-400 hover:bg-black hover:text-white'
                   }`}
                 >
-                  {s.label}
-                </span>
-                {idx < STAGES.length - 1 && (
-                  <div className="absolute top-5 left-10 w-full h-[1px] bg-black/5 -z-0"></div>
+                  <ScrollText size={12} />
+                </button>
+                <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={importJson} className="hidden" />
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  title="Import decision JSON"
+                  className="p-3 border border-black/10 rounded-xl text-zinc-400 hover:bg-black hover:text-white transition-all"
+                >
+                  <Upload size={12} />
+                </button>
+                <button
+                  onClick={exportJson}
+                  disabled={decision === INITIAL_STATE}
+                  title="Export decision JSON"
+                  className="p-3 border border-black/10 rounded-xl text-zinc-400 hover:bg-black hover:text-white transition-all disabled:opacity-30"
+                >
+                  <Download size={12} />
+                </button>
+                <button
+                  onClick={() => navigate('/lab')}
+                  className="px-5 py-3 border border-black/10 rounded-xl font-black uppercase text-[10px] tracking-widest text-zinc-400 hover:bg-black hover:text-white transition-all flex items-center gap-2"
+                >
+                  <FolderOpen size={12} /> Library
+                </button>
+                {!decisionId && (
+                  <button
+                    onClick={saveToLibrary}
+                    disabled={decision === INITIAL_STATE}
+                    className="px-5 py-3 bg-black text-white rounded-xl font-black uppercase text-[10px] tracking-widest hover:bg-yellow-500 hover:text-black transition-all flex items-center gap-2 disabled:opacity-30"
+                  >
+                    <Save size={12} /> Save to Library
+                  </button>
                 )}
               </div>
-            );
-          })}
-        </div>
-
-        {/* Stage Header */}
-        <div className="relative animate-in fade-in slide-in-from-bottom-12 duration-700">
-          <div className="mb-16">
-            <div className="flex items-center gap-3 mb-6">
-              <Scan size={14} className="text-yellow-600 animate-pulse" />
-              <span className="mono text-[10px] uppercase font-bold tracking-[0.4em] text-zinc-400">
-                Decision Protocol // {currentStage.label}
-              </span>
             </div>
-            <h2 className="serif text-6xl font-black italic tracking-tighter text-black">
-              {currentStage.id === 'framing' && 'Context Architecture.'}
-              {currentStage.id === 'alternatives' && 'Choice Parameters.'}
-              {currentStage.id === 'criteria' && 'Valuation Logic.'}
-              {currentStage.id === 'scoring' && 'Diagnostic Scores.'}
-              {currentStage.id === 'uncertainty' && 'Neural Forecast.'}
-              {currentStage.id === 'premortem' && 'Risk Audit.'}
-              {currentStage.id === 'synthesis' && 'Final Refraction.'}
-            </h2>
-          </div>
 
-          {/* Stage Content */}
-          <div className="glass-card p-12 rounded-[3rem] shadow-2xl shadow-black/5 relative overflow-hidden">
-            {currentStage.id === 'framing' && (
-              <FramingStage decision={decision} dispatch={dispatch} onComplete={goNext} />
-            )}
-            {currentStage.id === 'alternatives' && (
-              <AlternativesStage decision={decision} dispatch={dispatch} onComplete={goNext} onBack={goBack} />
-            )}
-            {currentStage.id === 'criteria' && (
-              <CriteriaStage decision={decision} dispatch={dispatch} onComplete={goNext} onBack={goBack} />
-            )}
-            {currentStage.id === 'scoring' && (
-              <ScoringStage decision={decision} dispatch={dispatch} onComplete={goNext} onBack={goBack} />
-            )}
-            {currentStage.id === 'uncertainty' && (
-              <UncertaintyStage decision={decision} dispatch={dispatch} onComplete={goNext} onBack={goBack} />
-            )}
-            {currentStage.id === 'premortem' && shouldShowPreMortem && (
-              <PreMortemStage decision={decision} dispatch={dispatch} onComplete={goNext} onBack={goBack} />
+            {showHistory && (
+              <div className="mb-16 p-6 rounded-2xl bg-white border border-black/5 space-y-3">
+                <span className="mono text-[10px] uppercase font-black text-zinc-400 flex items-center gap-2">
+                  <ScrollText size={14} /> Change History
+                </span>
+                {history.past.length === 0 && history.future.length === 0 ? (
+                  <p className="text-sm text-zinc-400 italic">No changes yet.</p>
+                ) : (
+                  <ol className="space-y-1 max-h-64 overflow-y-auto">
+                    {[...history.future].reverse().map((entry, i) => (
+                      <li key={`f${i}`} className="flex gap-3 text-sm text-zinc-300 line-through">
+                        <span className="mono text-[10px] w-8 text-right shrink-0 pt-0.5">
+                          {history.past.length + history.future.length - i}
+                        </span>
+                        {entry.label}
+                      </li>
+                    ))}
+                    {[...history.past].reverse().map((entry, i) => (
+                      <li key={`p${i}`} className={`flex gap-3 text-sm ${i === 0 ? 'text-black font-bold' : 'text-zinc-600'}`}>
+                        <span className="mono text-[10px] w-8 text-right shrink-0 pt-0.5 text-zinc-400">
+                          {history.past.length - i}
+                        </span>
+                        {entry.label}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
             )}
-            {currentStage.id === 'synthesis' && (
-              <SynthesisStage decision={decision} onReset={resetApp} />
+
+            {importErrors && (
+              <div className="mb-16 p-6 rounded-2xl bg-red-500/5 border border-red-500/10 space-y-3">
+                <div className="flex justify-between items-center">
+                  <span className="mono text-[10px] uppercase font-black text-red-600 flex items-center gap-2">
+                    <AlertTriangle size={14} /> Import rejected
+                  </span>
+                  <button onClick={() => setImportErrors(null)} className="text-zinc-400 hover:text-black">
+                    <X size={14} />
+                  </button>
+                </div>
+                <ul className="space-y-1 text-sm text-red-700">
+                  {importErrors.slice(0, 12).map((e, i) => (
+                    <li key={i}>
+                      <span className="mono text-xs font-bold">{e.field}</span> {e.message}
+                    </li>
+                  ))}
+                  {importErrors.length > 12 && (
+                    <li className="text-xs text-red-500">and {importErrors.length - 12} more&hellip;</li>
+                  )}
+                </ul>
+              </div>
             )}
-          </div>
-        </div>
+
+            {/* Progress System */}
+            <div className="flex justify-between items-center mb-24 px-4 overflow-x-auto no-scrollbar gap-8">
+              {STAGES.map((s, idx) => {
+                if (!activeStages[idx]) return null;
+                const { status, issues } = stageChecks[s.id];
+                const unlocked = isUnlocked(idx);
+                const isCurrent = idx === currentStageIdx;
+                return (
+                  <div key={s.id} className="flex flex-col items-center min-w-[60px] relative">
+                    <button
+                      onClick={() => unlocked && !isCurrent && setCurrentStageIdx(idx)}
+                      disabled={!unlocked}
+                      title={issues.length ? issues.join('\n') : `${s.label} complete`}
+                      className={`w-10 h-10 rounded-xl flex items-center justify-center transition-all z-10 relative ${
+                        isCurrent
+                          ? 'bg-black text-white shadow-xl scale-110 cursor-default'
+                          : status === 'stale' && unlocked
+                          ? 'bg-orange-100 text-orange-600 cursor-pointer'
+                          : status === 'complete' && unlocked
+                          ? 'bg-yellow-500 text-black cursor-pointer'
+                          : unlocked
+                          ? 'bg-black/10 text-zinc-500 cursor-pointer'
+                          : 'bg-black/5 text-zinc-300 cursor-default'
+                      }`}
+                    >
+                      {!isCurrent && status === 'complete' ? (
+                        <Check size={18} />
+                      ) : !isCurrent && status === 'stale' ? (
+                        <AlertTriangle size={18} />
+                      ) : (
+                        <s.icon size={18} />
+                      )}
+                      {isCurrent && status !== 'incomplete' && (
+                        <span
+                          className={`absolute -top-1 -right-1 w-3 h-3 rounded-full border-2 border-white ${
+                            status === 'stale' ? 'bg-orange-500' : 'bg-yellow-500'
+                          }`}
+                        />
+                      )}
+                    </button>
+                    <span
+                      className={`mono text-[9px] uppercase font-bold tracking-widest mt-4 ${
+                        isCurrent ? 'text-black' : unlocked ? 'text-zinc-600' : 'text-zinc-300'
+                      }`}
+                    >
+                      {s.label}
+                    </span>
+                    {idx < STAGES.length - 1 && (
+                      <div className="absolute top-5 left-10 w-full h-[1px] bg-black/5 -z-0"></div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Stage Header */}
+            <div className="relative animate-in fade-in slide-in-from-bottom-12 duration-700">
+              <div className="mb-16">
+                <div className="flex items-center gap-3 mb-6">
+                  <Scan size={14} className="text-yellow-600 animate-pulse" />
+                  <span className="mono text-[10px] uppercase font-bold tracking-[0.4em] text-zinc-400">
+                    Decision Protocol // {currentStage.label}
+                  </span>
+                </div>
+                <h2 className="serif text-6xl font-black italic tracking-tighter text-black">
+                  {currentStage.id === 'framing' && 'Context Architecture.'}
+                  {currentStage.id === 'alternatives' && 'Choice Parameters.'}
+                  {currentStage.id === 'screening' && 'Dealbreaker Filter.'}
+                  {currentStage.id === 'criteria' && 'Valuation Logic.'}
+                  {currentStage.id === 'scoring' && 'Diagnostic Scores.'}
+                  {currentStage.id === 'uncertainty' && 'Neural Forecast.'}
+                  {currentStage.id === 'premortem' && 'Risk Audit.'}
+                  {currentStage.id === 'synthesis' && 'Final Refraction.'}
+                </h2>
+              </div>
+
+              {/* Stale Results Warning */}
+              {staleStages.length > 0 && (
+                <div className="mb-8 p-6 rounded-2xl bg-orange-50 border border-orange-200 space-y-3">
+                  <span className="mono text-[10px] uppercase font-black text-orange-600 flex items-center gap-2">
+                    <AlertTriangle size={14} /> Upstream changes invalidated these results
+                  </span>
+                  {staleStages.map((s) => (
+                    <div key={s.id} className="flex justify-between items-start gap-4">
+                      <ul className="text-sm text-orange-800 space-y-1">
+                        {stageChecks[s.id].issues.map((issue, i) => (
+                          <li key={i}>
+                            <strong>{s.label}:</strong> {issue}
+                          </li>
+                        ))}
+                      </ul>
+                      {s.id !== currentStage.id && (
+                        <button
+                          onClick={() => setCurrentStageIdx(STAGES.indexOf(s))}
+                          className="shrink-0 mono text-[10px] font-black uppercase tracking-widest text-orange-700 underline"
+                        >
+                          Revisit
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Stage Content */}
+              <div key={stageKey} className="glass-card p-12 rounded-[3rem] shadow-2xl shadow-black/5 relative overflow-hidden">
+                {currentStage.id === 'framing' && (
+                  <FramingStage decision={decision} dispatch={dispatch} onComplete={goNext} />
+                )}
+                {currentStage.id === 'alternatives' && (
+                  <AlternativesStage decision={decision} dispatch={dispatch} onComplete={goNext} onBack={goBack} />
+                )}
+                {currentStage.id === 'screening' && (
+                  <ScreeningStage decision={decision} dispatch={dispatch} onComplete={goNext} onBack={goBack} />
+                )}
+                {currentStage.id === 'criteria' && (
+                  <CriteriaStage decision={decision} dispatch={dispatch} onComplete={goNext} onBack={goBack} />
+                )}
+                {currentStage.id === 'scoring' && (
+                  <ScoringStage decision={decision} dispatch={dispatch} onComplete={goNext} onBack={goBack} />
+                )}
+                {currentStage.id === 'uncertainty' && (
+                  <UncertaintyStage decision={decision} dispatch={dispatch} onComplete={goNext} onBack={goBack} />
+                )}
+                {currentStage.id === 'premortem' && activeStages[currentStageIdx] && (
+                  <PreMortemStage decision={decision} dispatch={dispatch} onComplete={goNext} onBack={goBack} />
+                )}
+                {currentStage.id === 'synthesis' && (
+                  <SynthesisStage decision={decision} onReset={resetApp} />
+                )}
+              </div>
+            </div>
+          </>
+        )}
 
         {/* Global Loading Overlay */}
         {loading && (
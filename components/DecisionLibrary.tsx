@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, ArrowRight, Plus, Copy, Archive, ArchiveRestore, Trash2 } from 'lucide-react';
+import { STAGES, INITIAL_STATE } from './DecisionLab';
+import {
+  LibraryRecord,
+  listDecisions,
+  createDecision,
+  duplicateDecision,
+  updateDecision,
+  deleteDecision,
+} from '../services/decisionStorage';
+
+const DecisionLibrary: React.FC = () => {
+  const navigate = useNavigate();
+  const [records, setRecords] = useState<LibraryRecord[]>(() => listDecisions());
+  const [showArchived, setShowArchived] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<string | null>(null);
+
+  const refresh = () => setRecords(listDecisions());
+
+  const newDecision = () => {
+    const created = createDecision('', INITIAL_STATE, STAGES[0].id);
+    navigate(`/lab/${created.id}`);
+  };
+
+  const visible = records.filter((r) => r.archived === showArchived);
+  const archivedCount = records.filter((r) => r.archived).length;
+
+  return (
+    <div className="min-h-screen bg-[#fbfaf8]">
+      {/* Nav */}
+      <nav className="fixed top-0 w-full z-50 px-6 sm:px-12 py-4">
+        <div className="max-w-7xl mx-auto">
+          <button
+            onClick={() => navigate('/')}
+            className="flex items-center gap-3 text-[10px] font-bold uppercase tracking-[0.2em] text-zinc-500 hover:text-black transition-colors bg-white/70 backdrop-blur-xl border border-black/5 rounded-full px-6 py-3"
+          >
+            <ArrowLeft size={12} /> Back to yellowlights.ai
+          </button>
+        </div>
+      </nav>
+
+      {/* Header */}
+      <header className="pt-40 pb-16 px-6 sm:px-12">
+        <div className="max-w-5xl mx-auto flex flex-col md:flex-row md:items-end justify-between gap-12">
+          <div>
+            <span className="mono text-[10px] font-bold text-yellow-600 uppercase tracking-[0.4em] mb-4 block">
+              Laboratory // Saved Decisions
+            </span>
+            <h1 className="serif text-6xl md:text-7xl font-black italic tracking-tighter">
+              Decision <span className="text-zinc-400">Library.</span>
+            </h1>
+          </div>
+          <button
+            onClick={newDecision}
+            className="px-10 py-5 bg-black text-white rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-yellow-500 hover:text-black transition-all flex items-center gap-4 self-start md:self-auto"
+          >
+            <Plus size={14} /> New Decision
+          </button>
+        </div>
+      </header>
+
+      <main className="px-6 sm:px-12 pb-40">
+        <div className="max-w-5xl mx-auto space-y-8">
+          <div className="flex gap-2">
+            {[false, true].map((archived) => (
+              <button
+                key={String(archived)}
+                onClick={() => setShowArchived(archived)}
+                className={`text-xs px-4 py-2 rounded-lg font-bold transition-all ${
+                  showArchived === archived ? 'bg-black text-white' : 'bg-black/5 text-zinc-500'
+                }`}
+              >
+                {archived ? `Archived (${archivedCount})` : `Active (${records.length - archivedCount})`}
+              </button>
+            ))}
+          </div>
+
+          {visible.length === 0 && (
+            <div className="p-12 rounded-[2rem] border border-dashed border-black/10 text-center">
+              <p className="serif italic text-xl text-zinc-400">
+                {showArchived ? 'Nothing archived yet.' : 'No saved decisions yet.'}
+              </p>
+            </div>
+          )}
+
+          {visible.map((r) => {
+            const stageIdx = Math.max(0, STAGES.findIndex((s) => s.id === r.stageId));
+            const stage = STAGES[stageIdx];
+            return (
+              <div key={r.id} className="glass-card p-8 rounded-[2rem] flex flex-col md:flex-row md:items-center gap-8">
+                <div className="flex-1 min-w-0 cursor-pointer" onClick={() => navigate(`/lab/${r.id}`)}>
+                  <h3 className="serif text-2xl font-black italic truncate">{r.name}</h3>
+                  {r.decision.statement && r.decision.statement !== r.name && (
+                    <p className="text-sm font-light text-zinc-500 truncate mt-1">{r.decision.statement}</p>
+                  )}
+                  <div className="flex flex-wrap items-center gap-4 mt-4 mono text-[10px] uppercase font-bold text-zinc-400">
+                    <span className="flex items-center gap-2">
+                      <stage.icon size={12} className="text-yellow-600" />
+                      {stage.label} ({stageIdx + 1}/{STAGES.length})
+                    </span>
+                    <div className="w-1 h-1 bg-zinc-200 rounded-full"></div>
+                    <span>Top choice: {r.decision.topChoice?.name || '—'}</span>
+                    <div className="w-1 h-1 bg-zinc-200 rounded-full"></div>
+                    <span>{new Date(r.updatedAt).toLocaleDateString()}</span>
+                  </div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => {
+                      duplicateDecision(r.id);
+                      refresh();
+                    }}
+                    title="Duplicate as template"
+                    className="p-3 rounded-xl bg-black/5 text-zinc-400 hover:bg-black hover:text-white transition-all"
+                  >
+                    <Copy size={14} />
+                  </button>
+                  <button
+                    onClick={() => {
+                      updateDecision(r.id, { archived: !r.archived });
+                      refresh();
+                    }}
+                    title={r.archived ? 'Restore' : 'Archive'}
+                    className="p-3 rounded-xl bg-black/5 text-zinc-400 hover:bg-black hover:text-white transition-all"
+                  >
+                    {r.archived ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (pendingDelete !== r.id) {
+                        setPendingDelete(r.id);
+                        return;
+                      }
+                      deleteDecision(r.id);
+                      setPendingDelete(null);
+                      refresh();
+                    }}
+                    onBlur={() => setPendingDelete(null)}
+                    title="Delete"
+                    className={`p-3 rounded-xl transition-all flex items-center gap-2 ${
+                      pendingDelete === r.id
+                        ? 'bg-red-500 text-white'
+                        : 'bg-black/5 text-zinc-400 hover:bg-red-500 hover:text-white'
+                    }`}
+                  >
+                    <Trash2 size={14} />
+                    {pendingDelete === r.id && (
+                      <span className="text-[10px] font-black uppercase tracking-widest">Confirm</span>
+                    )}
+                  </button>
+                  <button
+                    onClick={() => navigate(`/lab/${r.id}`)}
+                    className="px-6 py-3 bg-black text-white rounded-xl font-black uppercase text-[10px] tracking-widest hover:bg-yellow-500 hover:text-black transition-all flex items-center gap-2"
+                  >
+                    Open <ArrowRight size={12} />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default DecisionLibrary;
@@ -0,0 +1,48 @@
+import React, { useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import DecisionLab from './DecisionLab';
+import { getDecision } from '../services/decisionStorage';
+
+const LabPage: React.FC = () => {
+  const { decisionId } = useParams<{ decisionId: string }>();
+  const navigate = useNavigate();
+  const record = decisionId ? getDecision(decisionId) : null;
+
+  useEffect(() => {
+    window.scrollTo(0, 0);
+  }, [decisionId]);
+
+  if (!record) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-zinc-400 mb-4">Decision not found.</p>
+          <button onClick={() => navigate('/lab')} className="text-sm font-bold underline">
+            Return to library
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#fbfaf8]">
+      {/* Nav */}
+      <nav className="fixed top-0 w-full z-50 px-6 sm:px-12 py-4">
+        <div className="max-w-7xl mx-auto">
+          <button
+            onClick={() => navigate('/lab')}
+            className="flex items-center gap-3 text-[10px] font-bold uppercase tracking-[0.2em] text-zinc-500 hover:text-black transition-colors bg-white/70 backdrop-blur-xl border border-black/5 rounded-full px-6 py-3"
+          >
+            <ArrowLeft size={12} /> Back to library
+          </button>
+        </div>
+      </nav>
+
+      <DecisionLab key={record.id} decisionId={record.id} />
+    </div>
+  );
+};
+
+export default LabPage;
@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import { SynthesisStage } from './DecisionLab';
+import { DecisionState } from '../types';
+import { FieldError } from '../services/decisionFile';
+import { decodeShareFragment } from '../services/shareLink';
+
+const SharedMemoPage: React.FC = () => {
+  const { hash } = useLocation();
+  const navigate = useNavigate();
+  const [decision, setDecision] = useState<DecisionState | null>(null);
+  const [sharedAt, setSharedAt] = useState<Date | undefined>();
+  const [errors, setErrors] = useState<FieldError[]>([]);
+  const [decoding, setDecoding] = useState(true);
+
+  useEffect(() => {
+    window.scrollTo(0, 0);
+    let cancelled = false;
+    setDecoding(true);
+    decodeShareFragment(hash).then((result) => {
+      if (cancelled) return;
+      setDecision(result.decision);
+      setSharedAt(result.exportedAt);
+      setErrors(result.errors);
+      setDecoding(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [hash]);
+
+  return (
+    <div className="min-h-screen bg-[#fbfaf8]">
+      {/* Nav */}
+      <nav className="fixed top-0 w-full z-50 px-6 sm:px-12 py-4">
+        <div className="max-w-7xl mx-auto">
+          <button
+            onClick={() => navigate('/')}
+            className="flex items-center gap-3 text-[10px] font-bold uppercase tracking-[0.2em] text-zinc-500 hover:text-black transition-colors bg-white/70 backdrop-blur-xl border border-black/5 rounded-full px-6 py-3"
+          >
+            <ArrowLeft size={12} /> Back to yellowlights.ai
+          </button>
+        </div>
+      </nav>
+
+      <main className="pt-40 pb-40 px-6 sm:px-12">
+        <div className="max-w-5xl mx-auto">
+          <span className="mono text-[10px] font-bold text-yellow-600 uppercase tracking-[0.4em] mb-12 block">
+            Shared Decision Memo // Read Only
+          </span>
+
+          {decoding && (
+            <div className="flex items-center gap-3 py-12">
+              <Loader2 className="animate-spin text-yellow-500" size={24} />
+              <span className="mono text-sm text-zinc-500">Decoding shared decision...</span>
+            </div>
+          )}
+
+          {!decoding && decision && <SynthesisStage decision={decision} date={sharedAt} readOnly />}
+
+          {!decoding && !decision && (
+            <div className="p-12 rounded-[2rem] bg-red-500/5 border border-red-500/10 space-y-4">
+              <p className="serif italic text-2xl text-black">This link couldn&rsquo;t be opened.</p>
+              <ul className="space-y-1 text-sm text-red-700">
+                {errors.map((e, i) => (
+                  <li key={i}>
+                    <span className="mono text-xs font-bold">{e.field}</span> {e.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default SharedMemoPage;
@@ -0,0 +1,79 @@
+import { DecisionTemplate } from './types';
+
+export const DEFAULT_TEMPLATE_ID = 'general';
+
+export const DECISION_TEMPLATES: DecisionTemplate[] = [
+  {
+    id: 'general',
+    name: 'General Decision',
+    description: 'Balanced value, speed, fit and risk lens for any significant choice.',
+    criteria: [
+      { name: 'Expected ROI / Value', weight: 35 },
+      { name: 'Time to Outcome', weight: 25 },
+      { name: 'Strategic Fit', weight: 25 },
+      { name: 'Risk Level', weight: 15 },
+    ],
+    suggestedAlternatives: [],
+  },
+  {
+    id: 'hiring',
+    name: 'Hiring',
+    description: 'Compare candidates on capability, trajectory and team impact rather than interview charisma.',
+    criteria: [
+      { name: 'Role Capability', weight: 35 },
+      { name: 'Growth Trajectory', weight: 20 },
+      { name: 'Team Complement', weight: 25 },
+      { name: 'Total Compensation Cost', weight: 20 },
+    ],
+    suggestedAlternatives: ['Candidate A', 'Candidate B', 'Keep the role open', 'Promote internally'],
+    thresholdHint: 250000,
+    reversibilityHint: 'moderate',
+    stages: { premortem: 'include' },
+  },
+  {
+    id: 'vendor-selection',
+    name: 'Vendor Selection',
+    description: 'Weigh fit, cost of ownership, vendor stability and switching risk.',
+    criteria: [
+      { name: 'Functional Fit', weight: 30 },
+      { name: 'Total Cost of Ownership', weight: 25 },
+      { name: 'Vendor Viability', weight: 20 },
+      { name: 'Integration Effort', weight: 15 },
+      { name: 'Lock-in Risk', weight: 10 },
+    ],
+    suggestedAlternatives: ['Incumbent vendor', 'Challenger vendor', 'Open-source option'],
+    thresholdHint: 250000,
+    reversibilityHint: 'moderate',
+  },
+  {
+    id: 'build-vs-buy',
+    name: 'Build vs. Buy',
+    description: 'Trade control and differentiation against speed and maintenance burden.',
+    criteria: [
+      { name: 'Time to Value', weight: 30 },
+      { name: 'Lifetime Cost', weight: 25 },
+      { name: 'Strategic Differentiation', weight: 25 },
+      { name: 'Maintenance Burden', weight: 20 },
+    ],
+    suggestedAlternatives: ['Build in-house', 'Buy off-the-shelf', 'Buy and extend', 'Partner'],
+    thresholdHint: 750000,
+    reversibilityHint: 'hard',
+    stages: { premortem: 'include' },
+  },
+  {
+    id: 'market-entry',
+    name: 'Market Entry',
+    description: 'Size the prize against competitive intensity, capability gaps and regulatory exposure.',
+    criteria: [
+      { name: 'Market Attractiveness', weight: 30 },
+      { name: 'Competitive Position', weight: 25 },
+      { name: 'Capability Fit', weight: 20 },
+      { name: 'Regulatory Exposure', weight: 15 },
+      { name: 'Payback Period', weight: 10 },
+    ],
+    suggestedAlternatives: ['Enter now', 'Pilot in one region', 'Partner with a local player', 'Wait 12 months'],
+    thresholdHint: 1500000,
+    reversibilityHint: 'hard',
+    stages: { premortem: 'include' },
+  },
+];
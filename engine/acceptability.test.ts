@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { hasScoreRanges, rankAcceptability } from './acceptability';
+
+const alternatives = [
+  { id: 'a', name: 'A' },
+  { id: 'b', name: 'B' },
+];
+
+const criteria = [
+  { id: 'x', name: 'X', weight: 0.5 },
+  { id: 'y', name: 'Y', weight: 0.5 },
+];
+
+const scores = { a: { x: 8, y: 8 }, b: { x: 4, y: 4 } };
+
+describe('hasScoreRanges', () => {
+  it('only counts ranges wider than a point', () => {
+    expect(hasScoreRanges(alternatives, criteria, undefined)).toBe(false);
+    expect(hasScoreRanges(alternatives, criteria, { b: { x: { low: 4, high: 4 } } })).toBe(false);
+    expect(hasScoreRanges(alternatives, criteria, { b: { x: { low: 2, high: 6 } } })).toBe(true);
+  });
+
+  it('ignores ranges on criteria that are not listed', () => {
+    expect(hasScoreRanges(alternatives, criteria, { b: { z: { low: 2, high: 6 } } })).toBe(false);
+  });
+});
+
+describe('rankAcceptability', () => {
+  it('is null when every score is a single number', () => {
+    expect(rankAcceptability(alternatives, criteria, scores, {})).toBeNull();
+    expect(rankAcceptability(alternatives, criteria, scores, { b: { x: { low: 4, high: 4 } } })).toBeNull();
+  });
+
+  it('is null when there is no weight to rank by', () => {
+    const unweighted = criteria.map((c) => ({ ...c, weight: 0 }));
+    expect(rankAcceptability(alternatives, unweighted, scores, { b: { x: { low: 2, high: 6 } } })).toBeNull();
+  });
+
+  it.each(['weighted-sum', 'topsis', 'promethee'] as const)('is certain when the ranges cannot change the order (%s)', (method) => {
+    const result = rankAcceptability(alternatives, criteria, scores, { b: { x: { low: 2, high: 6 } } }, method, 500);
+    expect(result).toEqual([
+      { id: 'a', name: 'A', ranks: [1, 0], expectedRank: 1 },
+      { id: 'b', name: 'B', ranks: [0, 1], expectedRank: 2 },
+    ]);
+  });
+
+  it('splits evenly when a range straddles the rival symmetrically', () => {
+    // B's weighted score is uniform on 3–7 against A's fixed 5
+    const result = rankAcceptability(
+      alternatives,
+      criteria,
+      { a: { x: 5, y: 5 }, b: { y: 5 } },
+      { b: { x: { low: 1, high: 9 } } },
+      'weighted-sum',
+      4000
+    );
+    for (const r of result) {
+      expect(r.ranks[0]).toBeCloseTo(0.5, 1);
+      expect(r.expectedRank).toBeCloseTo(1.5, 1);
+    }
+  });
+
+  it('gives every alternative and every rank a total probability of 1', () => {
+    const three = [...alternatives, { id: 'c', name: 'C' }];
+    const result = rankAcceptability(
+      three,
+      criteria,
+      { a: { x: 6, y: 6 }, b: { x: 5, y: 7 }, c: { x: 7, y: 4 } },
+      { a: { x: { low: 3, high: 9 } }, b: { y: { low: 4, high: 9 } }, c: { x: { low: 5, high: 10 } } },
+      'weighted-sum',
+      1000
+    );
+    for (const r of result) expect(r.ranks.reduce((s, p) => s + p, 0)).toBeCloseTo(1);
+    for (let rank = 0; rank < three.length; rank++) expect(result.reduce((s, r) => s + r.ranks[rank], 0)).toBeCloseTo(1);
+    expect(result.map((r) => r.expectedRank)).toEqual([...result.map((r) => r.expectedRank)].sort((p, q) => p - q));
+  });
+
+  it('is reproducible for a seed', () => {
+    const ranges = { a: { x: { low: 1, high: 9 } }, b: { x: { low: 1, high: 9 } } };
+    const run = (seed: number) =>
+      rankAcceptability(alternatives, criteria, { a: { y: 5 }, b: { y: 5 } }, ranges, 'weighted-sum', 500, seed);
+    expect(run(7)).toEqual(run(7));
+    expect(run(7)).not.toEqual(run(8));
+  });
+});
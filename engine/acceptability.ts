@@ -0,0 +1,90 @@
+import { AggregationMethod, Alternative, Criterion, ScoreRange } from '../types';
+import { mulberry32 } from './random';
+import { rankWith } from './rankings';
+import { DEFAULT_TRIALS } from './simulation';
+import { RankAcceptability, ScoreMatrix } from './types';
+
+/** Fixed so the scoring results and the memo quote the same rank probabilities. */
+export const ACCEPTABILITY_SEED = 1;
+
+export type ScoreRanges = Record<string, Record<string, ScoreRange>>;
+
+// A range only counts once it is wider than a point
+const rangeOf = (ranges: ScoreRanges | undefined, altId: string, critId: string) => {
+  const r = ranges?.[altId]?.[critId];
+  return r && r.high > r.low ? r : null;
+};
+
+/** True when any of these alternatives has a score range on any of these criteria. */
+export const hasScoreRanges = (alternatives: Alternative[], criteria: Criterion[], ranges: ScoreRanges | undefined) =>
+  alternatives.some((a) => criteria.some((c) => rangeOf(ranges, a.id, c.id)));
+
+/**
+ * Rank acceptability (SMAA-2) over score ranges: each trial draws every ranged cell
+ * uniformly between its low and high, ranks the alternatives with `method` and
+ * tallies where each lands. Other cells keep their score, unscored cells count as 5
+ * as in calculateRankings, and weights stay as set. Sorted by expected rank; null
+ * when no cell has a range or there is nothing to rank.
+ */
+export function rankAcceptability(
+  alternatives: Alternative[],
+  criteria: Criterion[],
+  scores: ScoreMatrix,
+  ranges: ScoreRanges | undefined,
+  method: AggregationMethod = 'weighted-sum',
+  n = DEFAULT_TRIALS,
+  seed = ACCEPTABILITY_SEED
+): RankAcceptability[] | null {
+  const totalW = criteria.reduce((s, c) => s + (c.weight || 0), 0);
+  if (!alternatives.length || !totalW || !hasScoreRanges(alternatives, criteria, ranges)) return null;
+
+  // Each alternative's fixed part of the weighted score, plus the ranged cells drawn per trial
+  const parts = alternatives.map((alt) => {
+    let fixed = 0;
+    const drawn: { weight: number; low: number; span: number }[] = [];
+    for (const c of criteria) {
+      const weight = (c.weight || 0) / totalW;
+      const r = rangeOf(ranges, alt.id, c.id);
+      if (r) drawn.push({ weight, low: r.low, span: r.high - r.low });
+      else fixed += weight * (scores?.[alt.id]?.[c.id] ?? 5);
+    }
+    return { fixed, drawn };
+  });
+
+  const random = mulberry32(seed);
+  const counts = alternatives.map(() => new Array(alternatives.length).fill(0));
+  const totals = new Array(alternatives.length).fill(0);
+  const order = alternatives.map((_, i) => i);
+  // The weighted sum is linear in each cell, so it only redraws the ranged part; the
+  // other methods rank a whole drawn score matrix
+  const index = new Map(alternatives.map((a, i) => [a.id, i]));
+  const drawScores = () => {
+    const drawn: ScoreMatrix = {};
+    for (const alt of alternatives)
+      drawn[alt.id] = Object.fromEntries(
+        criteria.map((c) => {
+          const r = rangeOf(ranges, alt.id, c.id);
+          return [c.id, r ? r.low + (r.high - r.low) * random() : (scores?.[alt.id]?.[c.id] ?? 5)];
+        })
+      );
+    return drawn;
+  };
+  for (let k = 0; k < n; k++) {
+    if (method === 'weighted-sum') {
+      parts.forEach((p, i) => (totals[i] = p.drawn.reduce((s, d) => s + d.weight * (d.low + d.span * random()), p.fixed)));
+      order.sort((a, b) => totals[b] - totals[a] || a - b);
+      order.forEach((alt, rank) => counts[alt][rank]++);
+    } else {
+      rankWith(method, alternatives, criteria, drawScores()).forEach((r, rank) => counts[index.get(r.id)][rank]++);
+    }
+  }
+
+  return alternatives
+    .map((alt, i) => ({
+      id: alt.id,
+      name: alt.name,
+      ranks: counts[i].map((c) => c / n),
+      expectedRank: counts[i].reduce((s, c, rank) => s + c * (rank + 1), 0) / n,
+    }))
+    .sort((a, b) => a.expectedRank - b.expectedRank);
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { nearestSaaty } from './ahp';
+
+describe('nearestSaaty', () => {
+  it('rounds on a log scale', () => {
+    expect(nearestSaaty(1.2)).toBe(1);
+    expect(nearestSaaty(1.45)).toBe(2);
+    expect(nearestSaaty(2.6)).toBe(3);
+    expect(nearestSaaty(1 / 1.45)).toBe(1 / 2);
+  });
+
+  it('keeps exact scale values', () => {
+    for (let v = 1; v <= 9; v++) {
+      expect(nearestSaaty(v)).toBe(v);
+      expect(nearestSaaty(1 / v)).toBeCloseTo(1 / v);
+    }
+  });
+
+  it('clamps to 1/9 and 9', () => {
+    expect(nearestSaaty(20)).toBe(9);
+    expect(nearestSaaty(0.01)).toBeCloseTo(1 / 9);
+  });
+});
@@ -0,0 +1,90 @@
+/** Saaty's verbal anchors on the 1–9 scale; the even numbers sit between them. */
+export const SAATY_SCALE: { value: number; label: string }[] = [
+  { value: 1, label: 'equally important' },
+  { value: 3, label: 'moderately more important' },
+  { value: 5, label: 'strongly more important' },
+  { value: 7, label: 'very strongly more important' },
+  { value: 9, label: 'extremely more important' },
+];
+
+/** Consistency ratio above which Saaty recommends revisiting the judgements. */
+export const CONSISTENCY_THRESHOLD = 0.1;
+
+// Saaty's random index: the mean consistency index of random reciprocal matrices of each size
+const RANDOM_INDEX = [0, 0, 0, 0.58, 0.9, 1.12, 1.24, 1.32, 1.41, 1.45, 1.49];
+
+const POWER_ITERATIONS = 100;
+
+export interface PairwiseInconsistency {
+  /** Row and column of the judgement, i < j. */
+  i: number;
+  j: number;
+  /** What was judged, and what the derived weights imply, as "i is x times j". */
+  judged: number;
+  implied: number;
+  /** The 1–9 scale value (or its reciprocal) closest to the implied ratio. */
+  suggested: number;
+}
+
+export interface AhpResult {
+  weights: number[];
+  lambdaMax: number;
+  consistencyIndex: number;
+  /** Consistency index over the random index; 0 for two criteria, which can't be inconsistent. */
+  consistencyRatio: number;
+  /** Judgements furthest from what the weights imply, worst first. */
+  inconsistencies: PairwiseInconsistency[];
+}
+
+/** The n-by-n reciprocal matrix from the upper-triangle judgements `judge(i, j)`, i < j. */
+export function pairwiseMatrix(n: number, judge: (i: number, j: number) => number): number[][] {
+  const m = Array.from({ length: n }, () => new Array(n).fill(1));
+  for (let i = 0; i < n; i++)
+    for (let j = i + 1; j < n; j++) {
+      m[i][j] = judge(i, j);
+      m[j][i] = 1 / m[i][j];
+    }
+  return m;
+}
+
+// 1/9 … 1/2, 1 … 9: every value a judgement can take
+const SAATY_VALUES = Array.from({ length: 17 }, (_, k) => (k < 8 ? 1 / (9 - k) : k - 7));
+
+/** Nearest value on the 1–9 scale or its reciprocal, compared on a log scale. */
+export function nearestSaaty(ratio: number): number {
+  const target = Math.log(ratio);
+  return SAATY_VALUES.reduce((best, v) => (Math.abs(Math.log(v) - target) < Math.abs(Math.log(best) - target) ? v : best));
+}
+
+/**
+ * Saaty's analytic hierarchy process over a positive reciprocal matrix, where entry
+ * (i, j) says how many times more important i is than j. Weights are the principal
+ * eigenvector, by power iteration, and sum to 1; `inconsistencies` lists up to `worst`
+ * judgements that disagree with them, leaving out any the weights reproduce exactly.
+ */
+export function ahpWeights(matrix: number[][], worst = 3): AhpResult {
+  const n = matrix.length;
+  let w = new Array(n).fill(1 / n);
+  for (let k = 0; k < POWER_ITERATIONS; k++) {
+    const next = matrix.map((row) => row.reduce((s, a, j) => s + a * w[j], 0));
+    const total = next.reduce((s, v) => s + v, 0);
+    w = next.map((v) => v / total);
+  }
+  const lambdaMax = n ? matrix.reduce((s, row, i) => s + row.reduce((t, a, j) => t + a * w[j], 0) / w[i], 0) / n : 0;
+  const consistencyIndex = n > 2 ? Math.max(0, (lambdaMax - n) / (n - 1)) : 0;
+  const ri = RANDOM_INDEX[Math.min(n, RANDOM_INDEX.length - 1)];
+
+  const pairs: (PairwiseInconsistency & { error: number })[] = [];
+  for (let i = 0; i < n; i++)
+    for (let j = i + 1; j < n; j++) {
+      const implied = w[i] / w[j];
+      pairs.push({ i, j, judged: matrix[i][j], implied, suggested: nearestSaaty(implied), error: Math.abs(Math.log(matrix[i][j] / implied)) });
+    }
+  const inconsistencies = pairs
+    .filter((p) => p.error > 1e-6)
+    .sort((a, b) => b.error - a.error)
+    .slice(0, worst)
+    .map(({ error, ...p }) => p);
+
+  return { weights: w, lambdaMax, consistencyIndex, consistencyRatio: ri ? consistencyIndex / ri : 0, inconsistencies };
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { cashFlowMetrics, irr, npv, payback } from './cashflow';
+
+describe('npv', () => {
+  it('discounts every flow after the first', () => {
+    expect(npv([-100, 110], 0.1)).toBeCloseTo(0, 12);
+    expect(npv([-100, 60, 60], 0)).toBe(20);
+    expect(npv([50], 0.2)).toBe(50);
+  });
+});
+
+describe('irr', () => {
+  it('finds the rate where NPV is zero', () => {
+    expect(irr([-100, 110])).toBeCloseTo(0.1, 6);
+    expect(irr([-100, 60, 60])).toBeCloseTo(0.1307, 4);
+    expect(irr([-100, 0, 0, 133.1])).toBeCloseTo(0.1, 6);
+  });
+
+  it('is undefined when NPV never changes sign', () => {
+    expect(irr([-100, -50, -10])).toBeNull();
+    expect(irr([100, 50])).toBeNull();
+    expect(irr([0, 0])).toBeNull();
+  });
+});
+
+describe('payback', () => {
+  it('interpolates within the year cumulative cash turns non-negative', () => {
+    expect(payback([-100, 50, 50, 50])).toBe(2);
+    expect(payback([-100, 40, 80])).toBe(1.75);
+  });
+
+  it('is immediate when nothing is spent up front', () => {
+    expect(payback([10, 5])).toBe(0);
+  });
+
+  it('never happens when cumulative cash stays or ends up negative', () => {
+    expect(payback([-100, 30, 30])).toBeNull();
+    expect(payback([-100, 150, -200])).toBeNull();
+  });
+
+  it('counts the last time cumulative cash turns non-negative', () => {
+    expect(payback([-100, 150, -100, 100])).toBe(2.5);
+  });
+});
+
+describe('cashFlowMetrics', () => {
+  it('summarises IRR and payback over the trials that have them', () => {
+    // Two trials, one column per year: the first pays back, the second never turns positive
+    const m = cashFlowMetrics(0.1, [
+      [-100, -100],
+      [110, -10],
+    ]);
+    expect(m.irrDefined).toBe(0.5);
+    expect(m.irr?.median).toBeCloseTo(0.1, 6);
+    expect(m.paidBack).toBe(0.5);
+    expect(m.payback?.median).toBeCloseTo(100 / 110, 12);
+    expect(m.years.map((y) => y.mean)).toEqual([-100, 50]);
+  });
+
+  it('reports no IRR or payback when no trial has one', () => {
+    const m = cashFlowMetrics(0.1, [[-100], [-10]]);
+    expect(m).toMatchObject({ irr: null, irrDefined: 0, payback: null, paidBack: 0 });
+  });
+});
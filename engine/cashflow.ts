@@ -0,0 +1,88 @@
+import { CashFlowMetrics, MetricSummary } from '../types';
+
+/** Longest horizon a cash flow estimate may cover, counting year 0. */
+export const MAX_CASH_FLOW_YEARS = 31;
+
+// IRR search bracket: -99% to +1000% a year
+const IRR_LO = -0.99;
+const IRR_HI = 10;
+const IRR_TOLERANCE = 1e-7;
+
+/** Net present value of yearly flows at `rate`; the first flow lands now and is not discounted. */
+export function npv(flows: number[], rate: number): number {
+  let total = 0;
+  let factor = 1;
+  for (const f of flows) {
+    total += f / factor;
+    factor *= 1 + rate;
+  }
+  return total;
+}
+
+/**
+ * Internal rate of return by bisection, or null when NPV keeps one sign across the
+ * bracket (flows that never turn positive, say). Flows that change sign more than
+ * once can have several IRRs; this returns one of them.
+ */
+export function irr(flows: number[]): number | null {
+  let lo = IRR_LO;
+  let hi = IRR_HI;
+  const below = Math.sign(npv(flows, lo));
+  if (below === 0 || below === Math.sign(npv(flows, hi))) return null;
+  while (hi - lo > IRR_TOLERANCE) {
+    const mid = (lo + hi) / 2;
+    if (Math.sign(npv(flows, mid)) === below) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * Years until cumulative undiscounted cash turns non-negative for good, interpolated
+ * within the year it happens; null when it is still negative at the horizon.
+ */
+export function payback(flows: number[]): number | null {
+  let cumulative = flows[0];
+  let year: number | null = cumulative >= 0 ? 0 : null;
+  for (let t = 1; t < flows.length; t++) {
+    const before = cumulative;
+    cumulative += flows[t];
+    if (cumulative < 0) year = null;
+    else if (before < 0) year = t - 1 - before / flows[t];
+  }
+  return year;
+}
+
+function summarizeMetric(values: number[]): MetricSummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  const n = sorted.length;
+  return {
+    mean: sorted.reduce((acc, v) => acc + v, 0) / n,
+    median: sorted[Math.floor(n / 2)],
+    p10: sorted[Math.floor(n * 0.1)],
+    p90: sorted[Math.floor(n * 0.9)],
+  };
+}
+
+/** IRR, payback and per-year summaries from simulated flows, one column per year. */
+export function cashFlowMetrics(rate: number, years: number[][]): CashFlowMetrics {
+  const n = years[0].length;
+  const irrs: number[] = [];
+  const paybacks: number[] = [];
+  const row = new Array(years.length);
+  for (let i = 0; i < n; i++) {
+    years.forEach((column, t) => (row[t] = column[i]));
+    const r = irr(row);
+    if (r !== null) irrs.push(r);
+    const p = payback(row);
+    if (p !== null) paybacks.push(p);
+  }
+  return {
+    rate,
+    irr: irrs.length ? summarizeMetric(irrs) : null,
+    irrDefined: irrs.length / n,
+    payback: paybacks.length ? summarizeMetric(paybacks) : null,
+    paidBack: paybacks.length / n,
+    years: years.map(summarizeMetric),
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { OutcomeDistribution } from '../types';
+import { alternativeSeed, compareOutcomes, simulateAlternatives } from './comparison';
+import { simulate } from './simulation';
+
+const entry = (id: string, distribution: OutcomeDistribution) => ({ id, name: id.toUpperCase(), distribution });
+
+const pair = (a: OutcomeDistribution, b: OutcomeDistribution, seed: number) => compareOutcomes([entry('a', a), entry('b', b)], 10000, seed);
+
+describe('compareOutcomes', () => {
+  it('finds first-order dominance when one outcome is better at every level', () => {
+    const c = pair({ kind: 'normal', mean: 100, sd: 10 }, { kind: 'normal', mean: 50, sd: 10 }, 1);
+    expect(c.dominance).toEqual([{ dominant: 'a', dominated: 'b', order: 'first' }]);
+    expect(c.alternatives[0].probBest).toBeGreaterThan(0.99);
+  });
+
+  it('finds second-order dominance for a higher mean with less risk', () => {
+    const c = pair({ kind: 'normal', mean: 100, sd: 5 }, { kind: 'normal', mean: 95, sd: 40 }, 2);
+    expect(c.dominance).toEqual([{ dominant: 'a', dominated: 'b', order: 'second' }]);
+  });
+
+  it('finds no dominance between identical estimates or crossing ones', () => {
+    const same = { kind: 'triangular', min: 0, mode: 5, max: 10 } as const;
+    expect(pair(same, same, 3).dominance).toEqual([]);
+    expect(pair({ kind: 'normal', mean: 100, sd: 5 }, { kind: 'normal', mean: 100, sd: 40 }, 4).dominance).toEqual([]);
+  });
+
+  it('splits the chance of being best across alternatives', () => {
+    const wide = { kind: 'uniform', min: 0, max: 10 } as const;
+    const c = compareOutcomes([entry('a', wide), entry('b', wide), entry('c', { kind: 'uniform', min: 0, max: 1 })], 10000, 5);
+    expect(c.alternatives.reduce((s, a) => s + a.probBest, 0)).toBeCloseTo(1, 9);
+    expect(c.alternatives[0].probBest).toBeCloseTo(0.5, 1);
+  });
+
+  it('keeps the run seed for the top choice, so its result matches a plain simulation', () => {
+    const d = { kind: 'pert', min: 0, mode: 4, max: 10 } as const;
+    expect(alternativeSeed(42, 0)).toBe(42);
+    const c = compareOutcomes([entry('a', d), entry('b', d)], 2000, 42);
+    expect(c.alternatives[0].result).toEqual(simulate(d, 2000, 42));
+    expect(c.alternatives[1].result.mean).not.toBe(c.alternatives[0].result.mean);
+  });
+});
+
+describe('simulateAlternatives', () => {
+  it('skips the comparison for a single alternative', () => {
+    const { result, comparison } = simulateAlternatives([entry('a', { kind: 'uniform', min: 0, max: 1 })], 1000, 1);
+    expect(comparison).toBeNull();
+    expect(result.mean).toBeCloseTo(0.5, 1);
+  });
+});
@@ -0,0 +1,122 @@
+import { AlternativeOutcome, DominanceFinding, OutcomeComparison, OutcomeDistribution, SimulationResult } from '../types';
+import { runSimulation, DEFAULT_TRIALS } from './simulation';
+import { newSeed } from './random';
+import { ProgressCallback } from './types';
+import { valueOfInformation } from './information';
+
+export interface SimulationEntry {
+  id: string;
+  name: string;
+  distribution: OutcomeDistribution;
+}
+
+export const COMPARISON_BINS = 30;
+
+// Quantile levels compared for dominance; the outer 1% of each tail is too noisy to judge
+const LEVELS = Array.from({ length: 99 }, (_, i) => (i + 1) / 100);
+
+/** Seed for the alternative at `index`; index 0 keeps the run seed, so the top choice matches a plain simulate(). */
+export const alternativeSeed = (seed: number, index: number) => (seed + Math.imul(index, 0x9e3779b9)) >>> 0;
+
+const at = (sorted: number[], q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+
+const quantiles = (sorted: number[]) => LEVELS.map((q) => at(sorted, q));
+
+// Standard error of each sample quantile: sqrt(q(1 - q) / n) over the density, with the
+// density read off the spacing of neighbouring quantiles
+const quantileErrors = (sorted: number[]) =>
+  LEVELS.map((q) => {
+    const lo = Math.max(0.005, q - 0.01);
+    const hi = Math.min(0.995, q + 0.01);
+    return ((at(sorted, hi) - at(sorted, lo)) / (hi - lo)) * Math.sqrt((q * (1 - q)) / sorted.length);
+  });
+
+const cumulative = (values: number[]) => {
+  let sum = 0;
+  return values.map((v) => (sum += v));
+};
+
+// Never meaningfully below; `tol` absorbs the sampling noise at each level
+const neverBelow = (a: number[], b: number[], tol: number[]) => a.every((v, i) => v >= b[i] - tol[i]);
+
+/**
+ * Simulates every alternative with the same trial count and compares them.
+ * Draws are independent across alternatives, so P(best) ignores any shared
+ * drivers. Assumes each distribution passed `checkDistribution`.
+ */
+export function compareOutcomes(
+  entries: SimulationEntry[],
+  n = DEFAULT_TRIALS,
+  seed = newSeed(),
+  onProgress?: ProgressCallback
+): OutcomeComparison {
+  // Each alternative's run is one slice of the progress bar; the comparison itself is the last
+  const slice = (i: number) => onProgress && ((f: number) => onProgress((i + f) / (entries.length + 1)));
+  const runs = entries.map((e, i) => runSimulation(e.distribution, n, alternativeSeed(seed, i), slice(i)));
+  const samples = runs.map((r) => r.samples);
+  const sorted = samples.map((s) => [...s].sort((a, b) => a - b));
+  const qs = sorted.map(quantiles);
+  const errs = sorted.map(quantileErrors);
+  const means = samples.map((s) => s.reduce((acc, v) => acc + v, 0) / n);
+  const sds = samples.map((s, i) => Math.sqrt(s.reduce((acc, v) => acc + (v - means[i]) ** 2, 0) / n));
+
+  const lo = Math.min(...qs.map((q) => q[0]));
+  const hi = Math.max(...qs.map((q) => q[q.length - 1]));
+  const span = Math.max(hi - lo, 1e-9);
+
+  const wins = entries.map(() => 0);
+  for (let k = 0; k < n; k++) {
+    const best = Math.max(...samples.map((s) => s[k]));
+    const winners = samples.map((s, i) => (s[k] === best ? i : -1)).filter((i) => i >= 0);
+    for (const i of winners) wins[i] += 1 / winners.length;
+  }
+
+  const alternatives: AlternativeOutcome[] = entries.map((e, i) => {
+    const histogram = new Array(COMPARISON_BINS).fill(0);
+    for (const v of samples[i]) {
+      if (v < lo || v > hi) continue;
+      histogram[Math.min(COMPARISON_BINS - 1, Math.floor(((v - lo) / span) * COMPARISON_BINS))] += 1 / n;
+    }
+    return {
+      id: e.id,
+      name: e.name,
+      result: runs[i].result,
+      probBest: wins[i] / n,
+      histogram,
+    };
+  });
+
+  const dominance: DominanceFinding[] = [];
+  entries.forEach((a, i) =>
+    entries.forEach((b, j) => {
+      // Strictly better needs a clearly higher mean, so identical estimates never dominate each other
+      if (i === j || means[i] - means[j] <= (2 * Math.hypot(sds[i], sds[j])) / Math.sqrt(n)) return;
+      // Two standard errors of the difference at each level, plus a hair for float noise
+      const tol = errs[i].map((e, k) => 2 * Math.hypot(e, errs[j][k]) + span * 1e-9);
+      if (neverBelow(qs[i], qs[j], tol)) dominance.push({ dominant: a.id, dominated: b.id, order: 'first' });
+      // Second order compares running sums of quantiles, i.e. the area under each CDF
+      else if (neverBelow(cumulative(qs[i]), cumulative(qs[j]), cumulative(tol)))
+        dominance.push({ dominant: a.id, dominated: b.id, order: 'second' });
+    })
+  );
+
+  const information = valueOfInformation(entries.map((e, i) => ({ id: e.id, samples: samples[i], inputs: runs[i].inputs })));
+
+  onProgress?.(1);
+  return { seed, trials: n, range: [lo, hi], alternatives, dominance, information };
+}
+
+/**
+ * The Uncertainty stage's run: the first entry (the top choice) alone, or every entry
+ * compared when there are several. Either way `result` is the top choice's simulation.
+ */
+export function simulateAlternatives(
+  entries: SimulationEntry[],
+  n = DEFAULT_TRIALS,
+  seed = newSeed(),
+  onProgress?: ProgressCallback
+): { result: SimulationResult; comparison: OutcomeComparison | null } {
+  if (entries.length === 1) return { result: runSimulation(entries[0].distribution, n, seed, onProgress).result, comparison: null };
+  const comparison = compareOutcomes(entries, n, seed, onProgress);
+  return { result: comparison.alternatives[0].result, comparison };
+}
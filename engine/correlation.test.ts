@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { cholesky, inverseNormal, rankCorrelate, rankCorrelation } from './correlation';
+import { mulberry32 } from './random';
+
+describe('inverseNormal', () => {
+  it('matches known normal quantiles', () => {
+    expect(inverseNormal(0.5)).toBeCloseTo(0, 9);
+    expect(inverseNormal(0.975)).toBeCloseTo(1.959964, 5);
+    expect(inverseNormal(0.01)).toBeCloseTo(-2.326348, 5);
+    expect(inverseNormal(0.9)).toBeCloseTo(-inverseNormal(0.1), 9);
+  });
+});
+
+describe('cholesky', () => {
+  it('factors a positive-definite matrix', () => {
+    const L = cholesky([
+      [4, 2],
+      [2, 3],
+    ])!;
+    expect(L[0]).toEqual([2, 0]);
+    expect(L[1][0]).toBe(1);
+    expect(L[1][1]).toBeCloseTo(Math.SQRT2, 12);
+  });
+
+  it('rejects a matrix that is not positive definite', () => {
+    const contradictory = [
+      [1, 0.9, -0.9],
+      [0.9, 1, 0.9],
+      [-0.9, 0.9, 1],
+    ];
+    expect(cholesky(contradictory)).toBeNull();
+    expect(
+      cholesky([
+        [1, 1],
+        [1, 1],
+      ])
+    ).toBeNull();
+  });
+});
+
+describe('rankCorrelation', () => {
+  it('is 1 for any increasing relation, -1 for a decreasing one, and handles ties', () => {
+    expect(rankCorrelation([1, 2, 3, 4], [1, 8, 27, 64])).toBeCloseTo(1, 12);
+    expect(rankCorrelation([1, 2, 3, 4], [4, 3, 2, 1])).toBeCloseTo(-1, 12);
+    expect(rankCorrelation([1, 1, 2, 2], [1, 1, 2, 2])).toBeCloseTo(1, 12);
+    expect(rankCorrelation([1, 2, 3], [5, 5, 5])).toBe(0);
+  });
+});
+
+describe('rankCorrelate', () => {
+  const random = mulberry32(3);
+  const column = () => Array.from({ length: 5000 }, () => random());
+  // The normal-score correlation whose Spearman correlation is `rho`
+  const target = (rho: number) => [
+    [1, 2 * Math.sin((Math.PI * rho) / 6)],
+    [2 * Math.sin((Math.PI * rho) / 6), 1],
+  ];
+
+  it('reproduces the target rank correlation', () => {
+    for (const rho of [0.6, -0.4]) {
+      const [a, b] = rankCorrelate([column(), column()], target(rho), mulberry32(9));
+      expect(rankCorrelation(a, b)).toBeCloseTo(rho, 1);
+    }
+  });
+
+  it('only reorders each column, keeping its values', () => {
+    const columns = [column(), column()];
+    const out = rankCorrelate(columns, target(0.8), mulberry32(1));
+    out.forEach((col, j) => expect([...col].sort()).toEqual([...columns[j]].sort()));
+  });
+
+  it('throws for a target that is not positive definite', () => {
+    expect(() =>
+      rankCorrelate(
+        [column(), column()],
+        [
+          [1, 1.2],
+          [1.2, 1],
+        ],
+        random
+      )
+    ).toThrow('not positive definite');
+  });
+});
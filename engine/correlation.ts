@@ -0,0 +1,123 @@
+import { Rng } from './random';
+
+// Acklam's rational approximation of the standard normal quantile; relative error below 1.2e-9
+const A = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+const B = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+const C = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+const D = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+
+export function inverseNormal(p: number): number {
+  const tail = (q: number) =>
+    (((((C[0] * q + C[1]) * q + C[2]) * q + C[3]) * q + C[4]) * q + C[5]) / ((((D[0] * q + D[1]) * q + D[2]) * q + D[3]) * q + 1);
+  if (p < 0.02425) return tail(Math.sqrt(-2 * Math.log(p)));
+  if (p > 1 - 0.02425) return -tail(Math.sqrt(-2 * Math.log(1 - p)));
+  const q = p - 0.5;
+  const r = q * q;
+  return ((((((A[0] * r + A[1]) * r + A[2]) * r + A[3]) * r + A[4]) * r + A[5]) * q) /
+    (((((B[0] * r + B[1]) * r + B[2]) * r + B[3]) * r + B[4]) * r + 1);
+}
+
+/** Lower-triangular L with L·Lᵀ = m, or null when m is not positive definite. */
+export function cholesky(m: number[][]): number[][] | null {
+  const k = m.length;
+  const L = m.map(() => new Array(k).fill(0));
+  for (let i = 0; i < k; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = m[i][j];
+      for (let p = 0; p < j; p++) sum -= L[i][p] * L[j][p];
+      if (i === j) {
+        if (sum <= 1e-10) return null;
+        L[i][i] = Math.sqrt(sum);
+      } else {
+        L[i][j] = sum / L[j][j];
+      }
+    }
+  }
+  return L;
+}
+
+function invertLower(L: number[][]): number[][] {
+  const k = L.length;
+  const inv = L.map(() => new Array(k).fill(0));
+  for (let i = 0; i < k; i++) {
+    inv[i][i] = 1 / L[i][i];
+    for (let j = 0; j < i; j++) {
+      let sum = 0;
+      for (let p = j; p < i; p++) sum -= L[i][p] * inv[p][j];
+      inv[i][j] = sum / L[i][i];
+    }
+  }
+  return inv;
+}
+
+const identity = (k: number) => Array.from({ length: k }, (_, i) => Array.from({ length: k }, (_, j) => (i === j ? 1 : 0)));
+
+const multiply = (a: number[][], b: number[][]) =>
+  a.map((row) => b[0].map((_, j) => row.reduce((sum, v, p) => sum + v * b[p][j], 0)));
+
+function pearson(a: number[], b: number[]): number {
+  const n = a.length;
+  const ma = a.reduce((s, v) => s + v, 0) / n;
+  const mb = b.reduce((s, v) => s + v, 0) / n;
+  let sab = 0;
+  let saa = 0;
+  let sbb = 0;
+  for (let i = 0; i < n; i++) {
+    sab += (a[i] - ma) * (b[i] - mb);
+    saa += (a[i] - ma) ** 2;
+    sbb += (b[i] - mb) ** 2;
+  }
+  return saa > 0 && sbb > 0 ? sab / Math.sqrt(saa * sbb) : 0;
+}
+
+// Ties share their average rank, which matters for discrete drivers
+function ranks(values: number[]): number[] {
+  const order = values.map((_, i) => i).sort((x, y) => values[x] - values[y]);
+  const out = new Array(values.length);
+  for (let i = 0; i < order.length; ) {
+    let j = i;
+    while (j + 1 < order.length && values[order[j + 1]] === values[order[i]]) j++;
+    for (let t = i; t <= j; t++) out[order[t]] = (i + j) / 2;
+    i = j + 1;
+  }
+  return out;
+}
+
+/** Spearman rank correlation of two equally long samples. */
+export const rankCorrelation = (a: number[], b: number[]) => pearson(ranks(a), ranks(b));
+
+/**
+ * Iman–Conover: reorders each column so the columns' rank correlations match `target`,
+ * leaving every column's values — and so its marginal distribution — untouched.
+ * `target` must be a positive-definite correlation matrix.
+ */
+export function rankCorrelate(columns: number[][], target: number[][], random: Rng): number[][] {
+  const k = columns.length;
+  const n = columns[0].length;
+  const P = cholesky(target);
+  if (!P) throw new Error('Correlation matrix is not positive definite.');
+
+  // Van der Waerden scores, shuffled independently per column
+  const base = Array.from({ length: n }, (_, i) => inverseNormal((i + 1) / (n + 1)));
+  const scores = columns.map(() => {
+    const s = [...base];
+    for (let i = n - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [s[i], s[j]] = [s[j], s[i]];
+    }
+    return s;
+  });
+
+  // Undo the shuffles' accidental correlation before imposing the target
+  const E = scores.map((a) => scores.map((b) => pearson(a, b)));
+  const M = multiply(P, invertLower(cholesky(E) || identity(k)));
+  const targets = M.map((row) => Array.from({ length: n }, (_, r) => row.reduce((sum, m, j) => sum + m * scores[j][r], 0)));
+
+  return columns.map((col, j) => {
+    const sorted = [...col].sort((a, b) => a - b);
+    const order = targets[j].map((_, r) => r).sort((x, y) => targets[j][x] - targets[j][y]);
+    const out = new Array(n);
+    order.forEach((r, rank) => (out[r] = sorted[rank]));
+    return out;
+  });
+}
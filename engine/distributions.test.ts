@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'vitest';
+import { OutcomeDistribution, SimpleDistribution } from '../types';
+import { checkDistribution, distributionRange, sampler, summarizeEstimates } from './distributions';
+import { mulberry32 } from './random';
+
+const draws = (d: SimpleDistribution, n = 20000, seed = 1) => {
+  const draw = sampler(d, mulberry32(seed));
+  return Array.from({ length: n }, () => draw());
+};
+
+const mean = (xs: number[]) => xs.reduce((s, x) => s + x, 0) / xs.length;
+
+const quantile = (xs: number[], q: number) => [...xs].sort((a, b) => a - b)[Math.floor(q * xs.length)];
+
+describe('checkDistribution', () => {
+  it('accepts well-formed parameters', () => {
+    expect(checkDistribution({ kind: 'triangular', min: 0, mode: 5, max: 10 })).toBeNull();
+    expect(checkDistribution({ kind: 'pert', min: 0, mode: 0, max: 10 })).toBeNull();
+    expect(checkDistribution({ kind: 'uniform', min: -5, max: 5 })).toBeNull();
+    expect(checkDistribution({ kind: 'normal', mean: 0, sd: 1 })).toBeNull();
+    expect(checkDistribution({ kind: 'lognormal', median: 10, p90: 20 })).toBeNull();
+    expect(
+      checkDistribution({
+        kind: 'discrete',
+        scenarios: [
+          { label: 'Low', value: 1, probability: 0.3 },
+          { label: 'High', value: 9, probability: 0.7 },
+        ],
+      })
+    ).toBeNull();
+  });
+
+  it('rejects min >= max and a mode outside the range', () => {
+    expect(checkDistribution({ kind: 'triangular', min: 10, mode: 5, max: 10 })).toMatch(/higher than worst/);
+    expect(checkDistribution({ kind: 'pert', min: 10, mode: 5, max: 0 })).toMatch(/higher than worst/);
+    expect(checkDistribution({ kind: 'uniform', min: 3, max: 3 })).toMatch(/higher than worst/);
+    expect(checkDistribution({ kind: 'triangular', min: 0, mode: 11, max: 10 })).toMatch(/between worst and best/);
+  });
+
+  it('rejects missing numbers and impossible spreads', () => {
+    expect(checkDistribution({ kind: 'uniform', min: NaN, max: 3 })).toMatch(/must both be numbers/);
+    expect(checkDistribution({ kind: 'normal', mean: 0, sd: 0 })).toMatch(/greater than zero/);
+    expect(checkDistribution({ kind: 'lognormal', median: -1, p90: 2 })).toMatch(/positive median/);
+    expect(checkDistribution({ kind: 'lognormal', median: 5, p90: 5 })).toMatch(/higher than the median/);
+  });
+
+  it('rejects discrete scenarios that do not sum to 100% or have one value', () => {
+    const scenario = (value: number, probability: number) => ({ label: '', value, probability });
+    expect(checkDistribution({ kind: 'discrete', scenarios: [scenario(1, 1)] })).toMatch(/at least two/);
+    expect(checkDistribution({ kind: 'discrete', scenarios: [scenario(1, 0.5), scenario(2, 0.4)] })).toMatch(/currently 90%/);
+    expect(checkDistribution({ kind: 'discrete', scenarios: [scenario(4, 0.5), scenario(4, 0.5)] })).toMatch(/different values/);
+  });
+
+  it('rejects unknown kinds', () => {
+    expect(checkDistribution({ kind: 'cauchy' } as any)).toBe('Unknown distribution.');
+  });
+});
+
+describe('sampler', () => {
+  it('draws a triangular distribution with mean (min + mode + max) / 3', () => {
+    const xs = draws({ kind: 'triangular', min: 0, mode: 3, max: 12 });
+    expect(mean(xs)).toBeCloseTo(5, 1);
+    expect(Math.min(...xs)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...xs)).toBeLessThanOrEqual(12);
+  });
+
+  it('draws a PERT distribution with mean (min + 4·mode + max) / 6', () => {
+    const xs = draws({ kind: 'pert', min: 0, mode: 3, max: 12 });
+    expect(mean(xs)).toBeCloseTo(4, 1);
+    expect(Math.max(...xs)).toBeLessThanOrEqual(12);
+  });
+
+  it('draws uniform and normal distributions', () => {
+    expect(mean(draws({ kind: 'uniform', min: 2, max: 4 }))).toBeCloseTo(3, 1);
+    const xs = draws({ kind: 'normal', mean: 10, sd: 2 });
+    expect(mean(xs)).toBeCloseTo(10, 1);
+    expect(quantile(xs, 0.9)).toBeCloseTo(10 + 2 * 1.2816, 0);
+  });
+
+  it('draws a lognormal distribution with the given median and P90', () => {
+    const xs = draws({ kind: 'lognormal', median: 100, p90: 300 }, 40000);
+    expect(quantile(xs, 0.5) / 100).toBeCloseTo(1, 1);
+    expect(quantile(xs, 0.9) / 300).toBeCloseTo(1, 1);
+  });
+
+  it('draws discrete scenarios at their probabilities', () => {
+    const xs = draws({
+      kind: 'discrete',
+      scenarios: [
+        { label: 'Low', value: 1, probability: 0.25 },
+        { label: 'High', value: 9, probability: 0.75 },
+      ],
+    });
+    expect(xs.filter((x) => x === 9).length / xs.length).toBeCloseTo(0.75, 1);
+    expect(new Set(xs)).toEqual(new Set([1, 9]));
+  });
+
+  it('is reproducible for a given seed', () => {
+    const d: SimpleDistribution = { kind: 'pert', min: 1, mode: 2, max: 5 };
+    expect(draws(d, 100, 7)).toEqual(draws(d, 100, 7));
+  });
+});
+
+describe('distributionRange', () => {
+  it('uses hard bounds where they exist and P1–P99 otherwise', () => {
+    expect(distributionRange({ kind: 'uniform', min: 2, max: 4 })).toEqual([2, 4]);
+    const [lo, hi] = distributionRange({ kind: 'normal', mean: 0, sd: 1 });
+    expect(lo).toBeCloseTo(-2.326, 3);
+    expect(hi).toBeCloseTo(2.326, 3);
+  });
+});
+
+describe('summarizeEstimates', () => {
+  it('gives worst, most likely and best case', () => {
+    expect(summarizeEstimates({ kind: 'triangular', min: 1, mode: 2, max: 5 })).toEqual({
+      worstCase: 1,
+      mostLikely: 2,
+      bestCase: 5,
+    });
+    expect(summarizeEstimates({ kind: 'uniform', min: 2, max: 4 }).mostLikely).toBe(3);
+  });
+
+  it("takes a discrete distribution's most likely scenario", () => {
+    const summary = summarizeEstimates({
+      kind: 'discrete',
+      scenarios: [
+        { label: 'Low', value: -5, probability: 0.2 },
+        { label: 'Mid', value: 3, probability: 0.5 },
+        { label: 'High', value: 8, probability: 0.3 },
+      ],
+    });
+    expect(summary).toEqual({ worstCase: -5, mostLikely: 3, bestCase: 8 });
+  });
+});
+
+describe('checkDistribution for driver models', () => {
+  const model = (formula: string, overrides: Partial<Extract<OutcomeDistribution, { kind: 'model' }>> = {}) =>
+    ({
+      kind: 'model',
+      formula,
+      drivers: [
+        { name: 'units', distribution: { kind: 'uniform', min: 10, max: 20 } },
+        { name: 'price', distribution: { kind: 'triangular', min: 1, mode: 2, max: 4 } },
+      ],
+      correlations: [],
+      ...overrides,
+    }) as OutcomeDistribution;
+
+  it('accepts a model whose formula uses every driver', () => {
+    expect(checkDistribution(model('units * price'))).toBeNull();
+  });
+
+  it('rejects formula errors, unknown identifiers and unused drivers', () => {
+    expect(checkDistribution(model('units *'))).toBe('Formula: Formula ends unexpectedly at position 8.');
+    expect(checkDistribution(model('units * price * tax'))).toBe('The formula uses "tax", which is not a driver.');
+    expect(checkDistribution(model('units * 2'))).toBe('Driver "price" is not used in the formula.');
+  });
+
+  it('rejects a formula that can divide by zero', () => {
+    const zero = model('units / price', {
+      drivers: [
+        { name: 'units', distribution: { kind: 'uniform', min: 10, max: 20 } },
+        {
+          name: 'price',
+          distribution: {
+            kind: 'discrete',
+            scenarios: [
+              { label: 'Free', value: 0, probability: 0.5 },
+              { label: 'Paid', value: 5, probability: 0.5 },
+            ],
+          },
+        },
+      ],
+    });
+    expect(checkDistribution(zero)).toMatch(/division by zero/);
+  });
+
+  it('rejects correlations that contradict each other', () => {
+    const d = model('a + b + c', {
+      drivers: ['a', 'b', 'c'].map((name) => ({ name, distribution: { kind: 'uniform', min: 0, max: 1 } })),
+      correlations: [
+        { a: 'a', b: 'b', rho: 0.9 },
+        { a: 'b', b: 'c', rho: 0.9 },
+        { a: 'a', b: 'c', rho: -0.9 },
+      ],
+    });
+    expect(checkDistribution(d)).toMatch(/contradict each other/);
+  });
+});
+
+describe('checkDistribution for cash flows', () => {
+  const year = (mean: number): SimpleDistribution => ({ kind: 'normal', mean, sd: 10 });
+
+  it('accepts a discount rate and at least two years', () => {
+    expect(checkDistribution({ kind: 'cashflow', rate: 0.08, flows: [year(-100), year(60)] })).toBeNull();
+  });
+
+  it('rejects a bad rate, too few years or an invalid year', () => {
+    expect(checkDistribution({ kind: 'cashflow', rate: 1, flows: [year(-100), year(60)] })).toMatch(/between 0% and 100%/);
+    expect(checkDistribution({ kind: 'cashflow', rate: 0.08, flows: [year(-100)] })).toMatch(/at least two years/);
+    expect(
+      checkDistribution({ kind: 'cashflow', rate: 0.08, flows: [year(-100), { kind: 'normal', mean: 60, sd: 0 }] })
+    ).toMatch(/^Year 1: /);
+  });
+});
@@ -0,0 +1,340 @@
+import { DistributionKind, OutcomeDistribution, OutcomeUnit, SimpleDistribution } from '../types';
+import { DEFAULT_UNIT, fmt } from './format';
+import { Rng, mulberry32 } from './random';
+import { compileFormula, isDriverName } from './formula';
+import { cholesky, rankCorrelate } from './correlation';
+import { MAX_CASH_FLOW_YEARS, npv } from './cashflow';
+import { ProgressCallback } from './types';
+
+type ModelDistribution = Extract<OutcomeDistribution, { kind: 'model' }>;
+type CashFlowDistribution = Extract<OutcomeDistribution, { kind: 'cashflow' }>;
+
+export const DISTRIBUTION_LABELS: Record<DistributionKind, string> = {
+  triangular: 'Triangular',
+  pert: 'PERT (beta)',
+  uniform: 'Uniform',
+  normal: 'Normal',
+  lognormal: 'Lognormal',
+  discrete: 'Discrete scenarios',
+  model: 'Driver model',
+  cashflow: 'Cash flows (NPV)',
+};
+
+// z-score of the 90th percentile; lognormal spreads are given as median and P90
+const Z90 = 1.2815515655446004;
+// Normal and lognormal have no hard bounds, so their range is taken as P1–P99
+const Z99 = 2.3263478740408408;
+
+// Models and cash flows have no closed form, so their range and typical value come from a fixed-seed pilot run
+const PILOT_TRIALS = 2000;
+const PILOT_SEED = 1;
+
+const finite = (...values: number[]) => values.every((v) => typeof v === 'number' && Number.isFinite(v));
+
+// Pairwise rank correlations as a full matrix; 2·sin(πρ/6) turns each Spearman target into
+// the Pearson correlation of normal scores that produces it
+function correlationMatrix(d: ModelDistribution): number[][] {
+  const index = (name: string) => d.drivers.findIndex((dr) => dr.name === name);
+  const m: number[][] = d.drivers.map((_, i) => d.drivers.map((_, j) => (i === j ? 1 : 0)));
+  for (const c of d.correlations) {
+    const [i, j] = [index(c.a), index(c.b)];
+    m[i][j] = m[j][i] = 2 * Math.sin((Math.PI * c.rho) / 6);
+  }
+  return m;
+}
+
+function checkModel(d: ModelDistribution): string | null {
+  if (typeof d.formula !== 'string' || !d.formula.trim()) return 'Enter a formula for the outcome.';
+  let variables: string[];
+  try {
+    variables = compileFormula(d.formula).variables;
+  } catch (e: any) {
+    return `Formula: ${e.message}.`;
+  }
+  if (!Array.isArray(d.drivers) || d.drivers.length === 0) return 'Add at least one driver.';
+  const names = new Set<string>();
+  for (const driver of d.drivers) {
+    if (!isDriverName(driver?.name)) return `"${driver?.name ?? ''}" is not a valid driver name; use letters, digits and underscores.`;
+    if (names.has(driver.name)) return `Driver "${driver.name}" is defined twice.`;
+    names.add(driver.name);
+    if (isComposite(driver.distribution)) return `Driver "${driver.name}" can't itself be a model or cash flow.`;
+    const problem = checkDistribution(driver.distribution);
+    if (problem) return `Driver "${driver.name}": ${problem}`;
+  }
+  const unknown = variables.find((v) => !names.has(v));
+  if (unknown) return `The formula uses "${unknown}", which is not a driver.`;
+  const unused = d.drivers.find((dr) => !variables.includes(dr.name));
+  if (unused) return `Driver "${unused.name}" is not used in the formula.`;
+
+  if (!Array.isArray(d.correlations)) return 'Correlations must be a list.';
+  const pairs = new Set<string>();
+  for (const c of d.correlations) {
+    if (!names.has(c?.a) || !names.has(c?.b) || c.a === c.b) return 'Each correlation must link two different drivers.';
+    const pair = [c.a, c.b].sort().join('|');
+    if (pairs.has(pair)) return `${c.a} and ${c.b} are correlated twice.`;
+    pairs.add(pair);
+    if (!finite(c.rho) || c.rho <= -1 || c.rho >= 1) return `The correlation between ${c.a} and ${c.b} must be strictly between -1 and 1.`;
+  }
+  if (!cholesky(correlationMatrix(d))) return 'These correlations contradict each other; loosen at least one of them.';
+
+  // Structure is sound, but the formula can still fail on some draws, e.g. dividing by a driver that can be zero
+  if (!drawModel(d, 200, mulberry32(PILOT_SEED)).outcomes.every(Number.isFinite))
+    return 'The formula gives no numeric result for some driver values (division by zero?).';
+  return null;
+}
+
+function checkCashFlow(d: CashFlowDistribution): string | null {
+  if (!finite(d.rate) || d.rate < 0 || d.rate >= 1) return 'Discount rate must be between 0% and 100%.';
+  if (!Array.isArray(d.flows) || d.flows.length < 2) return 'Add at least two years of cash flows: year 0 and year 1.';
+  if (d.flows.length > MAX_CASH_FLOW_YEARS) return `Cash flows can cover at most ${MAX_CASH_FLOW_YEARS} years.`;
+  for (const [t, flow] of d.flows.entries()) {
+    if (isComposite(flow)) return `Year ${t} can't itself be a model or cash flow.`;
+    const problem = checkDistribution(flow);
+    if (problem) return `Year ${t}: ${problem}`;
+  }
+  return null;
+}
+
+// Drivers and yearly flows must be single quantities
+const isComposite = (d: SimpleDistribution) => ['model', 'cashflow'].includes((d as OutcomeDistribution)?.kind);
+
+function pilot(d: ModelDistribution | CashFlowDistribution): number[] {
+  const random = mulberry32(PILOT_SEED);
+  const { outcomes } = d.kind === 'model' ? drawModel(d, PILOT_TRIALS, random) : drawCashFlows(d, PILOT_TRIALS, random);
+  return outcomes.sort((a, b) => a - b);
+}
+
+/** Returns a human-readable reason the parameters can't be sampled, or null when they can. */
+export function checkDistribution(d: OutcomeDistribution): string | null {
+  switch (d?.kind) {
+    case 'triangular':
+    case 'pert':
+      if (!finite(d.min, d.mode, d.max)) return 'Worst, most likely and best case must all be numbers.';
+      if (d.max <= d.min) return 'Best case should be higher than worst case.';
+      if (d.mode < d.min || d.mode > d.max) return 'Most likely outcome should fall between worst and best case.';
+      return null;
+    case 'uniform':
+      if (!finite(d.min, d.max)) return 'Worst and best case must both be numbers.';
+      return d.max <= d.min ? 'Best case should be higher than worst case.' : null;
+    case 'normal':
+      if (!finite(d.mean, d.sd)) return 'Expected value and standard deviation must both be numbers.';
+      return d.sd <= 0 ? 'Standard deviation must be greater than zero.' : null;
+    case 'lognormal':
+      if (!finite(d.median, d.p90)) return 'Median and P90 must both be numbers.';
+      if (d.median <= 0) return 'A lognormal outcome must have a positive median.';
+      return d.p90 <= d.median ? 'P90 should be higher than the median.' : null;
+    case 'discrete': {
+      if (!Array.isArray(d.scenarios) || d.scenarios.length < 2) return 'Add at least two scenarios.';
+      if (!d.scenarios.every((s) => finite(s.value, s.probability) && s.probability >= 0))
+        return 'Every scenario needs a value and a non-negative probability.';
+      const total = d.scenarios.reduce((sum, s) => sum + s.probability, 0);
+      if (Math.abs(total - 1) > 0.001) return `Scenario probabilities must sum to 100% (currently ${(total * 100).toFixed(0)}%).`;
+      const values = d.scenarios.filter((s) => s.probability > 0).map((s) => s.value);
+      return Math.max(...values) > Math.min(...values) ? null : 'At least two scenarios with different values need a probability.';
+    }
+    case 'model':
+      return checkModel(d);
+    case 'cashflow':
+      return checkCashFlow(d);
+    default:
+      return 'Unknown distribution.';
+  }
+}
+
+/** The span an outcome realistically falls in: hard bounds where they exist, otherwise P1–P99. */
+export function distributionRange(d: OutcomeDistribution): [number, number] {
+  switch (d.kind) {
+    case 'triangular':
+    case 'pert':
+    case 'uniform':
+      return [d.min, d.max];
+    case 'normal':
+      return [d.mean - Z99 * d.sd, d.mean + Z99 * d.sd];
+    case 'lognormal': {
+      const sigma = Math.log(d.p90 / d.median) / Z90;
+      return [d.median * Math.exp(-Z99 * sigma), d.median * Math.exp(Z99 * sigma)];
+    }
+    case 'discrete': {
+      const values = d.scenarios.filter((s) => s.probability > 0).map((s) => s.value);
+      return [Math.min(...values), Math.max(...values)];
+    }
+    case 'model':
+    case 'cashflow': {
+      const sorted = pilot(d);
+      return [sorted[Math.floor(sorted.length * 0.01)], sorted[Math.floor(sorted.length * 0.99)]];
+    }
+  }
+}
+
+/** Worst / most likely / best summary of a distribution, in the shape stored on the top choice. */
+export function summarizeEstimates(d: OutcomeDistribution) {
+  const [worstCase, bestCase] = distributionRange(d);
+  let mostLikely: number;
+  switch (d.kind) {
+    case 'triangular':
+    case 'pert':
+      mostLikely = d.mode;
+      break;
+    case 'uniform':
+      mostLikely = (d.min + d.max) / 2;
+      break;
+    case 'normal':
+      mostLikely = d.mean;
+      break;
+    case 'lognormal':
+      mostLikely = d.median;
+      break;
+    case 'discrete':
+      mostLikely = [...d.scenarios].sort((a, b) => b.probability - a.probability)[0].value;
+      break;
+    case 'model':
+    case 'cashflow': {
+      const sorted = pilot(d);
+      mostLikely = sorted[Math.floor(sorted.length / 2)];
+      break;
+    }
+  }
+  return { worstCase, mostLikely, bestCase };
+}
+
+// Drivers are quantities of their own (seats, hours, rates), so only the model's output carries the unit
+const DRIVER_UNIT: OutcomeUnit = { kind: 'count' };
+
+/** One-line description for the memo, e.g. "PERT (beta) distribution (worst -$80K, most likely $300K, best $650K)". */
+export function describeDistribution(d: OutcomeDistribution, unit: OutcomeUnit = DEFAULT_UNIT): string {
+  const f = (n: number) => fmt(n, unit);
+  const name = `${DISTRIBUTION_LABELS[d.kind]} distribution`;
+  switch (d.kind) {
+    case 'triangular':
+    case 'pert':
+      return `${name} (worst ${f(d.min)}, most likely ${f(d.mode)}, best ${f(d.max)})`;
+    case 'uniform':
+      return `${name} (${f(d.min)} to ${f(d.max)})`;
+    case 'normal':
+      return `${name} (mean ${f(d.mean)}, standard deviation ${f(d.sd)})`;
+    case 'lognormal':
+      return `${name} (median ${f(d.median)}, P90 ${f(d.p90)})`;
+    case 'discrete':
+      return `discrete distribution over ${d.scenarios.length} scenarios (${d.scenarios
+        .map((s) => `${s.label || f(s.value)} ${f(s.value)} at ${(s.probability * 100).toFixed(0)}%`)
+        .join(', ')})`;
+    case 'model': {
+      const correlated = d.correlations.map((c) => `${c.a}~${c.b} ${c.rho.toFixed(2)}`);
+      return `driver model \`${d.formula}\` (${d.drivers
+        .map((dr) => `${dr.name}: ${describeDistribution(dr.distribution, DRIVER_UNIT)}`)
+        .join('; ')}${correlated.length ? `; rank correlations ${correlated.join(', ')}` : ''})`;
+    }
+    case 'cashflow':
+      return `NPV at ${(d.rate * 100).toFixed(1).replace(/\.0$/, '')}% of ${d.flows.length} years of cash flows (${d.flows
+        .map((flow, t) => `year ${t}: ${describeDistribution(flow, unit)}`)
+        .join('; ')})`;
+  }
+}
+
+// Box–Muller; 1 - u keeps the log argument off zero
+function standardNormal(random: Rng): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+// Marsaglia–Tsang, valid for shape >= 1, which PERT's shapes always are
+function gamma(shape: number, random: Rng): number {
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number, v: number;
+    do {
+      x = standardNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x ** 4 || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+/** A sampler drawing from `d` with `random`. Assumes `checkDistribution(d)` passed. */
+export function sampler(d: SimpleDistribution, random: Rng): () => number {
+  switch (d.kind) {
+    case 'triangular': {
+      const { min, mode, max } = d;
+      const F = (mode - min) / (max - min);
+      return () => {
+        const u = random();
+        return u < F
+          ? min + Math.sqrt(Math.max(0, u * (max - min) * (mode - min)))
+          : max - Math.sqrt(Math.max(0, (1 - u) * (max - min) * (max - mode)));
+      };
+    }
+    case 'pert': {
+      const { min, mode, max } = d;
+      const alpha = 1 + (4 * (mode - min)) / (max - min);
+      const beta = 1 + (4 * (max - mode)) / (max - min);
+      return () => {
+        const x = gamma(alpha, random);
+        return min + (x / (x + gamma(beta, random))) * (max - min);
+      };
+    }
+    case 'uniform':
+      return () => d.min + random() * (d.max - d.min);
+    case 'normal':
+      return () => d.mean + d.sd * standardNormal(random);
+    case 'lognormal': {
+      const mu = Math.log(d.median);
+      const sigma = Math.log(d.p90 / d.median) / Z90;
+      return () => Math.exp(mu + sigma * standardNormal(random));
+    }
+    case 'discrete': {
+      let cumulative = 0;
+      const steps = d.scenarios.map((s) => ({ value: s.value, upTo: (cumulative += s.probability) }));
+      return () => {
+        const u = random() * cumulative;
+        return (steps.find((s) => u < s.upTo) || steps[steps.length - 1]).value;
+      };
+    }
+  }
+}
+
+/**
+ * Draws every driver of a model, imposes the rank correlations (Iman–Conover) and
+ * evaluates the formula per trial. `drivers` holds each driver's draws in driver order.
+ */
+export function drawModel(
+  d: ModelDistribution,
+  n: number,
+  random: Rng,
+  onProgress?: ProgressCallback
+): { outcomes: number[]; drivers: number[][] } {
+  const independent = d.drivers.map((dr, j) => {
+    const draw = sampler(dr.distribution, random);
+    const column = Array.from({ length: n }, () => draw());
+    onProgress?.((j + 1) / (d.drivers.length + 1));
+    return column;
+  });
+  const drivers = d.correlations.some((c) => c.rho !== 0) ? rankCorrelate(independent, correlationMatrix(d), random) : independent;
+  const { evaluate } = compileFormula(d.formula);
+  const values: Record<string, number> = {};
+  const outcomes = Array.from({ length: n }, (_, i) => {
+    d.drivers.forEach((dr, j) => (values[dr.name] = drivers[j][i]));
+    return evaluate(values);
+  });
+  return { outcomes, drivers };
+}
+
+/** Draws every year's flow independently and discounts each trial's flows to its NPV. `flows` holds one column per year. */
+export function drawCashFlows(
+  d: CashFlowDistribution,
+  n: number,
+  random: Rng,
+  onProgress?: ProgressCallback
+): { outcomes: number[]; flows: number[][] } {
+  const flows = d.flows.map((f, t) => {
+    const draw = sampler(f, random);
+    const column = Array.from({ length: n }, () => draw());
+    onProgress?.((t + 1) / (d.flows.length + 1));
+    return column;
+  });
+  const outcomes = Array.from({ length: n }, (_, i) => npv(flows.map((column) => column[i]), d.rate));
+  return { outcomes, flows };
+}
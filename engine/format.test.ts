@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { OutcomeUnit } from '../types';
+import { DEFAULT_UNIT, fmt, parseNum } from './format';
+
+describe('fmt', () => {
+  it('abbreviates dollars by default', () => {
+    expect(fmt(950)).toBe('$950');
+    expect(fmt(25000)).toBe('$25K');
+    expect(fmt(-1500000)).toBe('-$1.5M');
+    expect(fmt(2e9)).toBe('$2.0B');
+  });
+
+  it('formats each unit kind', () => {
+    expect(fmt(1500000, { kind: 'currency', code: 'EUR' })).toBe('€1.5M');
+    expect(fmt(25000, { kind: 'currency', code: 'SEK' })).toBe('SEK 25K');
+    expect(fmt(12, { kind: 'percent' })).toBe('12%');
+    expect(fmt(2.5, { kind: 'time', period: 'weeks' })).toBe('2.5 weeks');
+    expect(fmt(1, { kind: 'time', period: 'weeks' })).toBe('1 week');
+    expect(fmt(40, { kind: 'custom', label: 'NPS points' })).toBe('40 NPS points');
+    expect(fmt(3.25, { kind: 'count' })).toBe('3.3');
+  });
+
+  it('renders non-numbers as zero', () => {
+    expect(fmt(NaN)).toBe('$0');
+    expect(fmt(undefined as unknown as number)).toBe('$0');
+  });
+});
+
+describe('parseNum', () => {
+  it.each([
+    ['$250k', 250000],
+    ['1.2M', 1200000],
+    ['3,000', 3000],
+    ['1 000', 1000],
+    ['1 000 000', 1000000],
+    ['€40k', 40000],
+    ['USD 5m', 5000000],
+    ['1.5bn', 1.5e9],
+    ['12%', 12],
+    ['6 weeks', 6],
+    ['2 months', 2],
+    ['(50k)', -50000],
+    ['−10k', -10000],
+  ])('reads %s', (text, value) => {
+    expect(parseNum(text)).toBe(value);
+  });
+
+  it.each(['', 'abc', '5 MM', '1.2.3', '5 km', '2 1000'])('rejects "%s"', (text) => {
+    expect(parseNum(text)).toBeNaN();
+  });
+});
+
+describe('parseNum with a unit', () => {
+  const units: OutcomeUnit[] = [
+    { kind: 'currency', code: 'USD' },
+    { kind: 'currency', code: 'EUR' },
+    { kind: 'currency', code: 'CNY' },
+    { kind: 'currency', code: 'SEK' },
+    { kind: 'percent' },
+    { kind: 'time', period: 'weeks' },
+    { kind: 'time', period: 'hours' },
+    { kind: 'count' },
+    { kind: 'custom', label: 'NPS points' },
+    { kind: 'custom', label: 'hires' },
+    { kind: 'custom', label: 'pts' },
+    { kind: 'custom', label: '' },
+  ];
+
+  it.each(units.flatMap((unit) => [950, 25000, -1500000, 1, 0].map((x) => [fmt(x, unit), x, unit] as const)))(
+    'reads %s back as %d',
+    (text, x, unit) => {
+      expect(parseNum(text, unit)).toBe(x);
+    }
+  );
+
+  it('reads fractional amounts back in units that keep a decimal', () => {
+    for (const unit of units.filter((u) => u.kind !== 'currency')) expect(parseNum(fmt(2.5, unit), unit)).toBe(2.5);
+  });
+
+  it("reads the unit's own label", () => {
+    expect(parseNum('40 NPS points', { kind: 'custom', label: 'NPS points' })).toBe(40);
+    expect(parseNum('12 people', { kind: 'custom', label: 'people' })).toBe(12);
+    expect(parseNum('2M hires', { kind: 'custom', label: 'hires' })).toBe(2000000);
+    expect(parseNum('3 Weeks', { kind: 'time', period: 'weeks' })).toBe(3);
+  });
+
+  it('rejects a different time period or unit word', () => {
+    expect(parseNum('2 months', { kind: 'time', period: 'weeks' })).toBeNaN();
+    expect(parseNum('6 weeks', DEFAULT_UNIT)).toBeNaN();
+    expect(parseNum('12%', { kind: 'count' })).toBeNaN();
+    expect(parseNum('40 people', { kind: 'custom', label: 'NPS points' })).toBeNaN();
+  });
+});
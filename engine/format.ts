@@ -0,0 +1,149 @@
+import { OutcomeUnit, TimePeriod } from '../types';
+
+/** US dollars: the unit of every decision saved before units could be chosen. */
+export const DEFAULT_UNIT: OutcomeUnit = { kind: 'currency', code: 'USD' };
+
+/** Symbols fmt prefixes for common currencies; any other ISO code prints as a prefix, e.g. `SEK 25K`. */
+export const CURRENCY_SYMBOLS: Record<string, string> = {
+  USD: '$',
+  EUR: '\u20ac',
+  GBP: '\u00a3',
+  JPY: '\u00a5',
+  INR: '\u20b9',
+  CNY: 'CN\u00a5',
+  AUD: 'A$',
+  CAD: 'C$',
+  CHF: 'CHF ',
+};
+
+export const TIME_PERIODS: TimePeriod[] = ['hours', 'days', 'weeks', 'months', 'years'];
+
+// K/M/B abbreviation; below a thousand, up to `decimals` places with trailing zeros dropped
+function compact(abs: number, decimals: number): string {
+  if (abs >= 1e9) return `${(abs / 1e9).toFixed(1)}B`;
+  if (abs >= 1e6) return `${(abs / 1e6).toFixed(1)}M`;
+  if (abs >= 1e3) return `${(abs / 1e3).toFixed(0)}K`;
+  return String(Number(abs.toFixed(decimals)));
+}
+
+/**
+ * Formats an outcome compactly in its unit: `$950`, `-\u20ac1.5M`, `SEK 25K`, `2.5 weeks`, `12%`,
+ * `40 NPS points`. Money keeps whole units below a thousand; everything else keeps one decimal.
+ * Non-numbers render as zero.
+ */
+export const fmt = (n: number, unit: OutcomeUnit = DEFAULT_UNIT) => {
+  const value = n == null || isNaN(n) ? 0 : n;
+  const abs = Math.abs(value);
+  const s = value < 0 ? '-' : '';
+  switch (unit.kind) {
+    case 'currency':
+      return `${s}${CURRENCY_SYMBOLS[unit.code] ?? `${unit.code} `}${compact(abs, 0)}`;
+    case 'percent':
+      return `${s}${compact(abs, 1)}%`;
+    case 'time': {
+      const amount = compact(abs, 1);
+      return `${s}${amount} ${amount === '1' ? unit.period.slice(0, -1) : unit.period}`;
+    }
+    case 'count':
+      return `${s}${compact(abs, 1)}`;
+    case 'custom':
+      return `${s}${compact(abs, 1)}${unit.label ? ` ${unit.label}` : ''}`;
+  }
+};
+
+/** Short tag for input labels: `$`, `SEK`, `weeks`, `%` or a custom label; empty for plain counts. */
+export function unitLabel(unit: OutcomeUnit = DEFAULT_UNIT): string {
+  switch (unit.kind) {
+    case 'currency':
+      return (CURRENCY_SYMBOLS[unit.code] ?? unit.code).trim();
+    case 'percent':
+      return '%';
+    case 'time':
+      return unit.period;
+    case 'count':
+      return '';
+    case 'custom':
+      return unit.label;
+  }
+}
+
+/** Reads a unit written as a currency code (`EUR`), a time period (`weeks`), `count`, `percent` or `%`, or any other label. */
+export function parseUnit(text: string): OutcomeUnit {
+  const t = text.trim();
+  if (/^[A-Z]{3}$/.test(t)) return { kind: 'currency', code: t };
+  const lower = t.toLowerCase();
+  const period = TIME_PERIODS.find((p) => p === lower || p.slice(0, -1) === lower);
+  if (period) return { kind: 'time', period };
+  if (lower === 'count') return { kind: 'count' };
+  if (lower === 'percent' || lower === '%') return { kind: 'percent' };
+  return { kind: 'custom', label: t };
+}
+
+// Currency marks dropped before parsing: symbols, dollar prefixes such as US$ and A$, and ISO codes
+const CURRENCY_MARKS = /[A-Z]{1,3}\$|\b[A-Z]{3}\b|[$\u20ac\u00a3\u00a5\u20b9\u20a9\u20bd\u20ba\u20aa\u20a6\u20b1]/g;
+
+// Sign, number, then a k/m/b/bn multiplier only when no letter follows it, so "2 months" stays 2
+const AMOUNT = /^([+-]?)\s*(\d*\.?\d+(?:e[+-]?\d+)?)\s*(bn|[kmb](?![a-z]))?/i;
+
+const MULTIPLIERS: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9, bn: 1e9 };
+
+// Spaces grouping digits in threes, as in "1 000 000" (plain, no-break and thin spaces)
+const DIGIT_GROUP = /(\d)[ \u00a0\u2009\u202f](?=\d{3}\b)/g;
+
+const isPeriodWord = (word: string, period: TimePeriod) => word === period || word === period.slice(0, -1);
+
+// Words that may follow the number: with no unit, a percent sign or any time period; with one, only
+// that unit's own words, so "2 months" is not read as 2 in a decision measured in weeks
+function isUnitWord(rest: string, unit?: OutcomeUnit): boolean {
+  if (rest === '') return true;
+  if (!unit) return rest === '%' || rest === 'percent' || TIME_PERIODS.some((p) => isPeriodWord(rest, p));
+  switch (unit.kind) {
+    case 'percent':
+      return rest === '%' || rest === 'percent';
+    case 'time':
+      return isPeriodWord(rest, unit.period);
+    default:
+      return false;
+  }
+}
+
+// The unit's own mark as fmt writes it, e.g. `CN\u00a5` or `NPS points`; removed before parsing so
+// labels that look like currency codes or multipliers are not misread
+function withoutOwnMark(text: string, unit?: OutcomeUnit): string {
+  const mark =
+    unit?.kind === 'currency' ? (CURRENCY_SYMBOLS[unit.code] ?? unit.code).trim() : unit?.kind === 'custom' ? unit.label.trim() : '';
+  const at = mark ? text.toLowerCase().indexOf(mark.toLowerCase()) : -1;
+  return at < 0 ? text : text.slice(0, at) + text.slice(at + mark.length);
+}
+
+/**
+ * Parses user-typed amounts such as `$250k`, `1.2M`, `3,000`, `1 000`, `\u20ac40k`, `USD 5m`, `12%` or
+ * `6 weeks`; accounting negatives like `(50k)` read as -50,000. Given the decision's `unit`, anything
+ * fmt writes in that unit reads back (`40 NPS points`, `2.5 weeks`). Returns NaN when unreadable,
+ * including when anything but a multiplier or the unit's own words follows the number (`5 MM`,
+ * `1.2.3`, or `2 months` in weeks); without a unit, `%`, `percent` and any time period are allowed.
+ */
+export function parseNum(s: string, unit?: OutcomeUnit): number {
+  if (!s) return NaN;
+  let text = withoutOwnMark(s.trim().replace(/\u2212/g, '-'), unit).trim();
+  let sign = 1;
+  const accounting = /^\((.*)\)$/.exec(text);
+  if (accounting) {
+    sign = -1;
+    text = accounting[1];
+  }
+  const cleaned = text.replace(CURRENCY_MARKS, '').replace(/,/g, '').replace(DIGIT_GROUP, '$1').trim();
+  const match = AMOUNT.exec(cleaned);
+  if (!match || !isUnitWord(cleaned.slice(match[0].length).trim().toLowerCase(), unit)) return NaN;
+  const multiplier = match[3] ? MULTIPLIERS[match[3].toLowerCase()] : 1;
+  return (match[1] === '-' ? -sign : sign) * parseFloat(match[2]) * multiplier;
+}
+
+/** Economic threshold buckets offered when framing a decision; values are bucket midpoints. */
+export const THRESHOLD_OPTIONS = [
+  { label: 'Under $50K', value: 25000 },
+  { label: '$50K \u2013 $100K', value: 75000 },
+  { label: '$100K \u2013 $500K', value: 250000 },
+  { label: '$500K \u2013 $1M', value: 750000 },
+  { label: 'Over $1M', value: 1500000 },
+];
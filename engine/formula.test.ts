@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { FormulaError, compileFormula, isDriverName } from './formula';
+
+const evaluate = (text: string, values: Record<string, number> = {}) => compileFormula(text).evaluate(values);
+
+describe('compileFormula', () => {
+  it.each([
+    ['2 + 3 * 4', 14],
+    ['(2 + 3) * 4', 20],
+    ['10 - 4 - 3', 3],
+    ['8 / 4 / 2', 1],
+    ['2 ^ 3 ^ 2', 512],
+    ['-2 ^ 2', -4],
+    ['(-2) ^ 2', 4],
+    ['2 * -3', -6],
+    ['+5 - -5', 10],
+    ['1.5e3 + .5', 1500.5],
+    ['2 × 3 − 1', 5],
+  ])('evaluates %s as %d', (text, value) => {
+    expect(evaluate(text)).toBe(value);
+  });
+
+  it('reads drivers and lists them in order of first use', () => {
+    const f = compileFormula('units * price - fixed_cost + units');
+    expect(f.variables).toEqual(['units', 'price', 'fixed_cost']);
+    expect(f.evaluate({ units: 10, price: 3, fixed_cost: 5 })).toBe(35);
+  });
+
+  it('applies min, max and abs', () => {
+    expect(evaluate('max(a, b, 3)', { a: 1, b: 2 })).toBe(3);
+    expect(evaluate('MIN(4, 2) + abs(-5)')).toBe(7);
+  });
+
+  it('treats a function name without parentheses as a driver', () => {
+    expect(compileFormula('max * 2').variables).toEqual(['max']);
+  });
+
+  it('leaves unknown identifiers to the caller: they evaluate to NaN', () => {
+    const f = compileFormula('known + unknown');
+    expect(f.variables).toEqual(['known', 'unknown']);
+    expect(f.evaluate({ known: 1 })).toBeNaN();
+  });
+
+  it('divides by zero to an infinity rather than throwing', () => {
+    expect(evaluate('a / b', { a: 1, b: 0 })).toBe(Infinity);
+    expect(evaluate('0 / 0')).toBeNaN();
+  });
+
+  it.each([
+    ['', 'Formula is empty at position 1'],
+    ['2 +', 'Formula ends unexpectedly at position 4'],
+    ['2 $ 3', 'Unexpected "$" at position 3'],
+    ['(1 + 2', 'Expected ")" at position 7'],
+    ['1 2', 'Unexpected "2" at position 3'],
+    ['abs(1, 2)', 'abs() takes 1 argument at position 1'],
+    ['max(1)', 'max() takes at least 2 arguments at position 1'],
+  ])('rejects %j', (text, message) => {
+    expect(() => compileFormula(text)).toThrow(FormulaError);
+    expect(() => compileFormula(text)).toThrow(message);
+  });
+});
+
+describe('isDriverName', () => {
+  it('accepts identifiers and rejects everything else', () => {
+    expect(isDriverName('hours_saved')).toBe(true);
+    expect(isDriverName('_x1')).toBe(true);
+    expect(isDriverName('1x')).toBe(false);
+    expect(isDriverName('hours saved')).toBe(false);
+    expect(isDriverName('')).toBe(false);
+  });
+});
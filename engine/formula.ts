@@ -0,0 +1,151 @@
+// Outcome formulas are user input, so they are parsed here rather than handed to eval.
+// Grammar: + - * / ^, parentheses, unary minus, numbers, driver names and min/max/abs.
+
+export class FormulaError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(`${message} at position ${position + 1}`);
+  }
+}
+
+export interface CompiledFormula {
+  /** Driver names the formula refers to, in order of first use. */
+  variables: string[];
+  evaluate: (values: Record<string, number>) => number;
+}
+
+type Evaluator = (values: Record<string, number>) => number;
+
+interface Token {
+  type: 'number' | 'name' | 'op' | 'end';
+  text: string;
+  position: number;
+}
+
+const FUNCTIONS: Record<string, { arity: [number, number]; apply: (args: number[]) => number }> = {
+  min: { arity: [2, Infinity], apply: (args) => Math.min(...args) },
+  max: { arity: [2, Infinity], apply: (args) => Math.max(...args) },
+  abs: { arity: [1, 1], apply: ([x]) => Math.abs(x) },
+};
+
+// Typographic operators people paste in from documents
+const ALIASES: Record<string, string> = { '×': '*', '·': '*', '÷': '/', '−': '-', '–': '-' };
+
+/** True for names a driver can have: a letter or underscore, then letters, digits or underscores. */
+export const isDriverName = (name: string) => /^[A-Za-z_][A-Za-z0-9_]*$/.test(name);
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const ch = ALIASES[text[i]] || text[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(text.slice(i));
+      if (!match) throw new FormulaError(`Malformed number`, i);
+      tokens.push({ type: 'number', text: match[0], position: i });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(text.slice(i))![0];
+      tokens.push({ type: 'name', text: name, position: i });
+      i += name.length;
+    } else if ('+-*/^(),'.includes(ch)) {
+      tokens.push({ type: 'op', text: ch, position: i });
+      i++;
+    } else {
+      throw new FormulaError(`Unexpected "${text[i]}"`, i);
+    }
+  }
+  tokens.push({ type: 'end', text: '', position: text.length });
+  return tokens;
+}
+
+/** Parses a formula such as `units * price - fixed_cost`. Throws a FormulaError on bad syntax. */
+export function compileFormula(text: string): CompiledFormula {
+  const tokens = tokenize(text);
+  const variables: string[] = [];
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const accept = (op: string) => (peek().type === 'op' && peek().text === op ? tokens[pos++] : null);
+  const expect = (op: string) => {
+    if (!accept(op)) throw new FormulaError(`Expected "${op}"`, peek().position);
+  };
+
+  function expression(): Evaluator {
+    let left = term();
+    for (;;) {
+      if (accept('+')) {
+        const [l, r] = [left, term()];
+        left = (v) => l(v) + r(v);
+      } else if (accept('-')) {
+        const [l, r] = [left, term()];
+        left = (v) => l(v) - r(v);
+      } else return left;
+    }
+  }
+
+  function term(): Evaluator {
+    let left = unary();
+    for (;;) {
+      if (accept('*')) {
+        const [l, r] = [left, unary()];
+        left = (v) => l(v) * r(v);
+      } else if (accept('/')) {
+        const [l, r] = [left, unary()];
+        left = (v) => l(v) / r(v);
+      } else return left;
+    }
+  }
+
+  function unary(): Evaluator {
+    if (accept('-')) {
+      const operand = unary();
+      return (v) => -operand(v);
+    }
+    if (accept('+')) return unary();
+    return power();
+  }
+
+  // Right-associative, and binds tighter than unary minus on its left: -2^2 is -4
+  function power(): Evaluator {
+    const base = primary();
+    if (!accept('^')) return base;
+    const exponent = unary();
+    return (v) => Math.pow(base(v), exponent(v));
+  }
+
+  function primary(): Evaluator {
+    const token = peek();
+    if (token.type === 'number') {
+      pos++;
+      const value = Number(token.text);
+      return () => value;
+    }
+    if (token.type === 'name') {
+      pos++;
+      const fn = FUNCTIONS[token.text.toLowerCase()];
+      if (fn && accept('(')) {
+        const args: Evaluator[] = [expression()];
+        while (accept(',')) args.push(expression());
+        expect(')');
+        const [lo, hi] = fn.arity;
+        if (args.length < lo || args.length > hi)
+          throw new FormulaError(`${token.text}() takes ${lo === hi ? lo : `at least ${lo}`} argument${lo === 1 ? '' : 's'}`, token.position);
+        return (v) => fn.apply(args.map((a) => a(v)));
+      }
+      if (!variables.includes(token.text)) variables.push(token.text);
+      return (v) => v[token.text];
+    }
+    if (accept('(')) {
+      const inner = expression();
+      expect(')');
+      return inner;
+    }
+    throw new FormulaError(token.type === 'end' ? 'Formula ends unexpectedly' : `Unexpected "${token.text}"`, token.position);
+  }
+
+  if (peek().type === 'end') throw new FormulaError('Formula is empty', 0);
+  const evaluate = expression();
+  if (peek().type !== 'end') throw new FormulaError(`Unexpected "${peek().text}"`, peek().position);
+  return { variables, evaluate };
+}
@@ -0,0 +1,97 @@
+// ══════════════════════════════════════
+// DECISION ENGINE
+// ══════════════════════════════════════
+// UI-free scoring, simulation and formatting over DecisionState. Shared by the
+// Decision Lab stages, the API handlers and command-line scripts, so nothing in
+// here may touch React, the DOM or storage.
+
+export type {
+  ScoreMatrix,
+  Ranking,
+  ScoringInsight,
+  ProgressCallback,
+  SimulationInput,
+  WeightStability,
+  RankAcceptability,
+  MethodRanking,
+  ScreeningResult,
+  ConstraintFailure,
+  DominatedAlternative,
+  ParetoResult,
+} from './types';
+export {
+  fmt,
+  parseNum,
+  parseUnit,
+  unitLabel,
+  DEFAULT_UNIT,
+  CURRENCY_SYMBOLS,
+  TIME_PERIODS,
+  THRESHOLD_OPTIONS,
+} from './format';
+export {
+  calculateRankings,
+  topsisRankings,
+  prometheeRankings,
+  rankWith,
+  rankDecision,
+  compareMethods,
+  winnerDependsOnMethod,
+  describeMethodAgreement,
+  describeAggregation,
+  AGGREGATION_LABELS,
+  AGGREGATION_METHODS,
+  PROMETHEE_INDIFFERENCE,
+  PROMETHEE_PREFERENCE,
+} from './rankings';
+export { screenAlternatives, shortlist, describeConstraint, constraintCriterion, EMPTY_SCREENING } from './screening';
+export { dominates, paretoFrontier, dominatorNames } from './pareto';
+export { reweight, weightStability } from './sensitivity';
+export {
+  rankOrderCentroid,
+  rankSumWeights,
+  swingWeights,
+  describeWeighting,
+  WEIGHT_METHOD_LABELS,
+} from './weights';
+export type { AhpResult, PairwiseInconsistency } from './ahp';
+export { ahpWeights, pairwiseMatrix, nearestSaaty, SAATY_SCALE, CONSISTENCY_THRESHOLD } from './ahp';
+export type { ScoreRanges } from './acceptability';
+export { rankAcceptability, hasScoreRanges, ACCEPTABILITY_SEED } from './acceptability';
+export { monteCarlo, simulate, runSimulation, isConverged, percentile, probExceeds, DEFAULT_TRIALS, HISTOGRAM_BINS } from './simulation';
+export type { SimulationEntry } from './comparison';
+export { compareOutcomes, simulateAlternatives, alternativeSeed, COMPARISON_BINS } from './comparison';
+export type { InformationVerdict } from './information';
+export { valueOfInformation, informationVerdict, describeInformation, INFORMATION_MATERIALITY } from './information';
+export {
+  DISTRIBUTION_LABELS,
+  checkDistribution,
+  distributionRange,
+  summarizeEstimates,
+  describeDistribution,
+  sampler,
+  drawModel,
+  drawCashFlows,
+} from './distributions';
+export { npv, irr, payback, cashFlowMetrics, MAX_CASH_FLOW_YEARS } from './cashflow';
+export type { CompiledFormula } from './formula';
+export { compileFormula, isDriverName, FormulaError } from './formula';
+export { rankCorrelation, rankCorrelate } from './correlation';
+export type { Rng } from './random';
+export { mulberry32, newSeed, isValidSeed } from './random';
+export { detectScoringPatterns } from './patterns';
+export { classifyRisk } from './risks';
+export type { DecisionMemo } from './memo';
+export {
+  buildMemo,
+  memoToMarkdown,
+  simulationProvenance,
+  simulationBasis,
+  describeDominance,
+  describeDrivers,
+  describeRobustness,
+  describeAcceptability,
+  describePercentiles,
+  describeCashFlow,
+  MEMO_PROTOCOL,
+} from './memo';
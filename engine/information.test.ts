@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { OutcomeComparison } from '../types';
+import { informationVerdict } from './information';
+
+const comparison = (means: number[], evpi: number, range: [number, number] = [-100, 100]) =>
+  ({
+    seed: 1,
+    trials: 1000,
+    range,
+    dominance: [],
+    alternatives: means.map((mean, i) => ({ id: `a${i}`, name: `A${i}`, result: { mean }, probBest: 0, histogram: [] })),
+    information: { evpi, partial: [] },
+  }) as unknown as OutcomeComparison;
+
+describe('informationVerdict', () => {
+  it('decides when perfect information is small against the best expected value', () => {
+    expect(informationVerdict(comparison([1000, 800], 10))?.action).toBe('decide');
+    expect(informationVerdict(comparison([1000, 800], 200))?.action).toBe('gather');
+  });
+
+  it('measures a loss by its size instead of always gathering', () => {
+    const verdict = informationVerdict(comparison([-1000, -1200], 10));
+    expect(verdict?.action).toBe('decide');
+    expect(verdict?.message).toContain('1% of the smallest expected loss');
+    expect(informationVerdict(comparison([-1000, -1200], 200))?.action).toBe('gather');
+  });
+
+  it('falls back to the outcome range when the best expected value is zero', () => {
+    expect(informationVerdict(comparison([0, -50], 5, [-100, 100]))?.action).toBe('decide');
+    expect(informationVerdict(comparison([0, -50], 50, [-100, 100]))?.action).toBe('gather');
+  });
+
+  it('returns null without VOI figures', () => {
+    expect(informationVerdict({ ...comparison([1], 0), information: undefined })).toBeNull();
+  });
+});
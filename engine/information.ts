@@ -0,0 +1,101 @@
+import { InformationValue, OutcomeComparison, OutcomeUnit, ValueOfInformation } from '../types';
+import { DEFAULT_UNIT, fmt } from './format';
+import { SimulationInput } from './types';
+
+// Most quantile bins an input is split into when estimating what knowing it is worth
+const INFORMATION_BINS = 20;
+// Fewer trials per bin and noise in the conditional means inflates the estimate
+const MIN_BIN_TRIALS = 250;
+
+/** Share of what is at stake (see informationVerdict) above which more information is worth pursuing. */
+export const INFORMATION_MATERIALITY = 0.05;
+
+const mean = (values: number[]) => values.reduce((acc, v) => acc + v, 0) / values.length;
+
+// E[max(E[X | bin], rival)] over equal-count bins of `input`; the rival's expectation is
+// unaffected because alternatives are drawn independently
+function knowingInput(outcomes: number[], input: number[], rival: number): number {
+  const n = outcomes.length;
+  const bins = Math.max(2, Math.min(INFORMATION_BINS, Math.floor(n / MIN_BIN_TRIALS)));
+  const order = input.map((_, k) => k).sort((a, b) => input[a] - input[b]);
+  let total = 0;
+  for (let b = 0; b < bins; b++) {
+    const group = order.slice(Math.floor((b * n) / bins), Math.floor(((b + 1) * n) / bins));
+    if (group.length) total += group.length * Math.max(mean(group.map((k) => outcomes[k])), rival);
+  }
+  return total / n;
+}
+
+/**
+ * EVPI and per-uncertainty EVPPI from one simulation per alternative, all with the same
+ * trial count. Draws are independent across alternatives, so resolving one alternative's
+ * uncertainty says nothing about another's.
+ */
+export function valueOfInformation(runs: { id: string; samples: number[]; inputs: SimulationInput[] }[]): ValueOfInformation {
+  const n = runs[0].samples.length;
+  const means = runs.map((r) => mean(r.samples));
+  const best = Math.max(...means);
+
+  let perfect = 0;
+  for (let k = 0; k < n; k++) perfect += Math.max(...runs.map((r) => r.samples[k]));
+
+  const partial: InformationValue[] = runs.flatMap((r, i) => {
+    const rival = Math.max(...means.filter((_, j) => j !== i));
+    const whole = mean(r.samples.map((v) => Math.max(v, rival)));
+    return [
+      { alternative: r.id, value: Math.max(0, whole - best) },
+      ...r.inputs.map((input) => ({
+        alternative: r.id,
+        input: input.name,
+        value: Math.max(0, knowingInput(r.samples, input.values, rival) - best),
+      })),
+    ];
+  });
+
+  return { evpi: Math.max(0, perfect / n - best), partial: partial.sort((a, b) => b.value - a.value) };
+}
+
+/** "hours_saved in HubSpot", "year 2 cash flow in Salesforce" or "Salesforce's outcome". */
+export function describeInformation(c: OutcomeComparison, item: InformationValue): string {
+  const name = c.alternatives.find((a) => a.id === item.alternative)?.name || item.alternative;
+  return item.input ? `${item.input} in ${name}` : `${name}'s outcome`;
+}
+
+export interface InformationVerdict {
+  action: 'decide' | 'gather';
+  // The single researchable uncertainty most worth resolving, when any is worth something
+  focus: InformationValue | null;
+  message: string;
+}
+
+/**
+ * Decide now, or gather more information first: the latter when perfect information is
+ * worth at least INFORMATION_MATERIALITY of what is at stake, the size of the best expected
+ * value (a loss counts by its size) or, when that is zero, the outcome range. Null without VOI figures.
+ */
+export function informationVerdict(c: OutcomeComparison, unit: OutcomeUnit = DEFAULT_UNIT): InformationVerdict | null {
+  const voi = c.information;
+  if (!voi) return null;
+  const best = Math.max(...c.alternatives.map((a) => a.result.mean));
+  const stake = best !== 0 ? Math.abs(best) : c.range[1] - c.range[0];
+  const share = stake > 0 ? voi.evpi / stake : voi.evpi > 0 ? Infinity : 0;
+  // A model's or cash flow's whole outcome isn't one thing to research; point at its drivers or years instead
+  const researchable = voi.partial.filter((p) => p.input || !voi.partial.some((q) => q.alternative === p.alternative && q.input));
+  const focus = researchable.find((p) => p.value > 0) || null;
+  const against = best > 0 ? 'the best expected value' : best < 0 ? 'the smallest expected loss' : 'the outcome range';
+  const ofStake = Number.isFinite(share) ? ` (${(share * 100).toFixed(0)}% of ${against})` : '';
+  if (share < INFORMATION_MATERIALITY)
+    return {
+      action: 'decide',
+      focus,
+      message: `Even perfect information would be worth at most ${fmt(voi.evpi, unit)}${ofStake}, too little to justify delaying the choice.`,
+    };
+  return {
+    action: 'gather',
+    focus,
+    message:
+      `Perfect information would be worth up to ${fmt(voi.evpi, unit)}${ofStake}.` +
+      (focus ? ` The most valuable single uncertainty is ${describeInformation(c, focus)}, worth up to ${fmt(focus.value, unit)}.` : '') +
+      ' Research that costs well under that is worth doing before committing.',
+  };
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { CashFlowMetrics } from '../types';
+import { describeAcceptability, describeCashFlow, describeRobustness } from './memo';
+import { RankAcceptability, WeightStability } from './types';
+
+const summary = (v: number) => ({ mean: v, median: v, p10: v, p90: v });
+
+const metrics = (irrDefined: number, paidBack: number): CashFlowMetrics => ({
+  rate: 0.08,
+  irr: summary(0.2),
+  irrDefined,
+  payback: summary(2),
+  paidBack,
+  years: [summary(-100), summary(60), summary(60)],
+});
+
+describe('describeCashFlow', () => {
+  it('qualifies the IRR and payback when a visible share of trials lacks them', () => {
+    const text = describeCashFlow(metrics(0.9, 0.8));
+    expect(text).toContain('in the 90% of trials that have one');
+    expect(text).toContain('with 20% of trials not paying back within 2 years');
+  });
+
+  it('does not qualify shares that round to all or none of the trials', () => {
+    const text = describeCashFlow(metrics(0.996, 0.996));
+    expect(text).not.toContain('100% of trials');
+    expect(text).not.toContain('0% of trials');
+  });
+});
+
+const stable = (name: string, weight: number, lo: number, hi: number, belowRival: string | null, aboveRival: string | null): WeightStability => ({
+  criterionId: name.toLowerCase(),
+  name,
+  weight,
+  lo,
+  hi,
+  belowRival,
+  aboveRival,
+});
+
+describe('describeRobustness', () => {
+  it('is robust when no single weight changes the winner', () => {
+    expect(describeRobustness('A', [stable('Price', 0.5, 0, 1, null, null), stable('Fit', 0.5, 0, 1, null, null)])).toBe(
+      'Robust to weighting: A stays #1 whatever share of the weight any single criterion gets.'
+    );
+  });
+
+  it('builds the statement around the tightest margin', () => {
+    expect(
+      describeRobustness('A', [stable('Price', 0.3, 0.18, 0.52, 'B', 'C'), stable('Fit', 0.7, 0.4, 1, 'B', null)])
+    ).toBe('Sensitive to weighting: A stays #1 while Price carries 18% to 52% of the weight (now 30%); below 18% B takes over. 1 other criterion can also change the winner somewhere in its range.');
+  });
+
+  it('calls a margin under 5 points fragile', () => {
+    expect(describeRobustness('A', [stable('Price', 0.5, 0, 0.53, null, 'B'), stable('Fit', 0.5, 0, 1, null, null)])).toBe(
+      'Fragile to weighting: A stays #1 while Price carries up to 53% of the weight (now 50%); above 53% B takes over.'
+    );
+  });
+});
+
+const accepted = (name: string, first: number): RankAcceptability => ({
+  id: name.toLowerCase(),
+  name,
+  ranks: [first, 1 - first],
+  expectedRank: 2 - first,
+});
+
+describe('describeAcceptability', () => {
+  it('lists how often each alternative ranks first, most often first', () => {
+    expect(describeAcceptability([accepted('B', 0.31), accepted('A', 0.64), accepted('C', 0.05)])).toBe(
+      'A ranks first in 64% of trials, B in 31%, C in 5%.'
+    );
+  });
+
+  it('leaves out alternatives that never rank first', () => {
+    expect(describeAcceptability([accepted('A', 1), accepted('B', 0)])).toBe('A ranks first in 100% of trials.');
+  });
+});
@@ -0,0 +1,407 @@
+import {
+  AggregationMethod,
+  CashFlowMetrics,
+  Criterion,
+  DecisionState,
+  DriverSensitivity,
+  OutcomeComparison,
+  OutcomeUnit,
+  Risk,
+  SimulationResult,
+} from '../types';
+import { DEFAULT_UNIT, fmt, THRESHOLD_OPTIONS } from './format';
+import {
+  AGGREGATION_LABELS,
+  compareMethods,
+  describeAggregation,
+  describeMethodAgreement,
+  rankDecision,
+  winnerDependsOnMethod,
+} from './rankings';
+import { DEFAULT_TRIALS } from './simulation';
+import { describeDistribution } from './distributions';
+import { InformationVerdict, describeInformation, informationVerdict } from './information';
+import { weightStability } from './sensitivity';
+import { describeWeighting } from './weights';
+import { ACCEPTABILITY_SEED, rankAcceptability } from './acceptability';
+import { describeConstraint, screenAlternatives, shortlist } from './screening';
+import { dominatorNames, paretoFrontier } from './pareto';
+import {
+  DominatedAlternative,
+  MethodRanking,
+  RankAcceptability,
+  Ranking,
+  ScreeningResult,
+  WeightStability,
+} from './types';
+
+/** Everything the decision memo says, independent of how it is rendered. */
+export interface DecisionMemo {
+  date: string;
+  /** What the simulated outcomes are measured in. */
+  unit: OutcomeUnit;
+  recommendation: Ranking | null;
+  context: string;
+  /** The screening constraints in words; empty when nothing was screened. */
+  constraints: string[];
+  /** Alternatives that failed a constraint, screened out or only flagged, with the reasons. */
+  screening: ScreeningResult[];
+  rankings: Ranking[];
+  /** Ranked alternatives another beats or ties on every criterion, whatever the weights. */
+  dominated: DominatedAlternative[];
+  /** The method behind `rankings`, and how it computes them. */
+  aggregation: AggregationMethod;
+  aggregationNote: string;
+  /** The ranking under every method, and whether they agree on the winner. */
+  methods: MethodRanking[];
+  methodAgreement: string;
+  methodDependent: boolean;
+  /** Rank probabilities from score ranges; null when every score is a single number. */
+  acceptability: RankAcceptability[] | null;
+  /** Criteria sorted by weight, heaviest first. */
+  weights: Criterion[];
+  /** How the weights were elicited, for reviewers. */
+  weighting: string;
+  /** How far each criterion's weight can move before the recommendation changes; weighted sum only. */
+  stability: WeightStability[];
+  /** Plain-language robustness of the recommendation to weighting; null with nothing to compare. */
+  robustness: string | null;
+  simulation: SimulationResult | null;
+  /** Present only when more than one alternative was simulated. */
+  comparison: OutcomeComparison | null;
+  /** Decide now or gather more information, from the comparison's value of information. */
+  information: InformationVerdict | null;
+  risks: Risk[];
+  nextSteps: string[];
+}
+
+export const MEMO_PROTOCOL = 'Protocol v4.0.2';
+
+const pct = (p: number) => `${(p * 100).toFixed(0)}%`;
+
+/** "10,000 trials, seed 1234" — enough to reproduce a quoted number. */
+export const simulationProvenance = (mc: Pick<SimulationResult, 'trials' | 'seed'>) =>
+  `${(mc.trials ?? DEFAULT_TRIALS).toLocaleString('en-US')} trials${mc.seed != null ? `, seed ${mc.seed}` : ''}`;
+
+/** "of a PERT (beta) distribution (…) (10,000 trials, seed 1234)"; older results only carry provenance. */
+export const simulationBasis = (mc: SimulationResult, unit: OutcomeUnit = DEFAULT_UNIT) =>
+  `${mc.distribution ? `of a ${describeDistribution(mc.distribution, unit)} ` : ''}(${simulationProvenance(mc)})`;
+
+/** "hours_saved accounts for most of the variance (62%, raises the outcome), then rollout (21%, lowers it)…" */
+export function describeDrivers(drivers: DriverSensitivity[]): string {
+  const part = (d: DriverSensitivity) => `${pct(d.contribution)}, ${d.correlation >= 0 ? 'raises' : 'lowers'} the outcome`;
+  const [first, ...rest] = drivers;
+  return (
+    `${first.name} accounts for most of the variance (${part(first)})` +
+    (rest.length ? `, then ${rest.map((d) => `${d.name} (${part(d)})`).join(', ')}` : '') +
+    '.'
+  );
+}
+
+const MEMO_PERCENTILES = [5, 25, 50, 75, 95];
+
+/** "P5 -$40K · P25 $60K · P50 $120K · P75 $190K · P95 $310K"; empty for results saved without a CDF. */
+export const describePercentiles = (mc: SimulationResult, unit: OutcomeUnit = DEFAULT_UNIT) =>
+  mc.cdf ? MEMO_PERCENTILES.map((p) => `P${p} ${fmt(mc.cdf[p], unit)}`).join(' · ') : '';
+
+const rate = (r: number) => `${(r * 100).toFixed(1)}%`;
+const years = (y: number) => `${y.toFixed(1)} years`;
+
+/**
+ * "IRR median 24.0% (P10 12.1% to P90 38.3%); payback median 2.4 years (P10 1.6 to P90 3.9 years), …";
+ * shares are only qualified when they would not print as 100% (or 0%) anyway.
+ */
+export function describeCashFlow(cf: CashFlowMetrics): string {
+  const horizon = cf.years.length - 1;
+  const irr = cf.irr
+    ? `IRR median ${rate(cf.irr.median)} (P10 ${rate(cf.irr.p10)} to P90 ${rate(cf.irr.p90)})` +
+      (pct(cf.irrDefined) !== pct(1) ? ` in the ${pct(cf.irrDefined)} of trials that have one` : '')
+    : 'No trial has an IRR';
+  const payback = cf.payback
+    ? `payback median ${years(cf.payback.median)} (P10 ${cf.payback.p10.toFixed(1)} to P90 ${years(cf.payback.p90)})` +
+      (pct(1 - cf.paidBack) !== pct(0) ? `, with ${pct(1 - cf.paidBack)} of trials not paying back within ${horizon} years` : '')
+    : `no trial pays back within ${horizon} years`;
+  return `${irr}; ${payback}.`;
+}
+
+/** "HubSpot ranks first in 64% of trials, Salesforce in 31%, Extend the in-house tool in 5%." */
+export function describeAcceptability(acceptability: RankAcceptability[]): string {
+  const first = [...acceptability].sort((a, b) => b.ranks[0] - a.ranks[0]).filter((a) => a.ranks[0] > 0);
+  const [lead, ...rest] = first;
+  return (
+    `${lead.name} ranks first in ${pct(lead.ranks[0])} of trials` +
+    (rest.length ? `, ${rest.map((a) => `${a.name} in ${pct(a.ranks[0])}`).join(', ')}` : '') +
+    '.'
+  );
+}
+
+// Weight margins, as a share of the total, under which a recommendation is fragile or merely sensitive
+const FRAGILE_MARGIN = 0.05;
+const SENSITIVE_MARGIN = 0.15;
+
+const share = (w: number) => `${(w * 100).toFixed(0)}%`;
+
+/**
+ * "Sensitive to weighting: Salesforce stays #1 while Price carries 18% to 52% of the weight (now 30%);
+ * below 18% HubSpot takes over." Built around the criterion whose weight is closest to changing the winner.
+ */
+export function describeRobustness(top: string, stability: WeightStability[]): string {
+  const margins = stability.map((s) => ({
+    s,
+    below: s.belowRival ? s.weight - s.lo : Infinity,
+    above: s.aboveRival ? s.hi - s.weight : Infinity,
+  }));
+  const tightest = margins.reduce((a, b) => (Math.min(b.below, b.above) < Math.min(a.below, a.above) ? b : a));
+  const margin = Math.min(tightest.below, tightest.above);
+  if (!Number.isFinite(margin))
+    return `Robust to weighting: ${top} stays #1 whatever share of the weight any single criterion gets.`;
+  const { s } = tightest;
+  const level = margin < FRAGILE_MARGIN ? 'Fragile' : margin < SENSITIVE_MARGIN ? 'Sensitive' : 'Fairly robust';
+  const range = !s.belowRival ? `up to ${share(s.hi)}` : !s.aboveRival ? `at least ${share(s.lo)}` : `${share(s.lo)} to ${share(s.hi)}`;
+  const flip =
+    tightest.below <= tightest.above ? `below ${share(s.lo)} ${s.belowRival} takes over` : `above ${share(s.hi)} ${s.aboveRival} takes over`;
+  const others = margins.filter((m) => m !== tightest && Number.isFinite(Math.min(m.below, m.above))).length;
+  return (
+    `${level} to weighting: ${top} stays #1 while ${s.name} carries ${range} of the weight (now ${share(s.weight)}); ${flip}.` +
+    (others === 1
+      ? ' 1 other criterion can also change the winner somewhere in its range.'
+      : others
+        ? ` ${others} other criteria can also change the winner somewhere in their range.`
+        : '')
+  );
+}
+
+/** Plain-language dominance statements, strongest first, e.g. "Vendor A first-order dominates Vendor B: …". */
+export function describeDominance(c: OutcomeComparison): string[] {
+  const name = (id: string) => c.alternatives.find((a) => a.id === id)?.name || id;
+  return [...c.dominance]
+    .sort((a, b) => (a.order === b.order ? 0 : a.order === 'first' ? -1 : 1))
+    .map((f) =>
+      f.order === 'first'
+        ? `${name(f.dominant)} first-order dominates ${name(f.dominated)}: at every probability level its outcome is at least as good.`
+        : `${name(f.dominant)} second-order dominates ${name(f.dominated)}: any risk-averse decision-maker should prefer it.`
+    );
+}
+
+function contextSummary(d: DecisionState): string {
+  const scale = THRESHOLD_OPTIONS.find((o) => o.value === d.meta.threshold)?.label || 'significant';
+  return [
+    `This decision evaluates ${d.statement.toLowerCase().replace(/\.$/, '')},`,
+    `a ${scale}-scale commitment with ${d.meta.reversibilityLabel?.toLowerCase() || 'moderate'} reversibility.`,
+    d.objectives
+      ? `Success is defined by: ${d.objectives.toLowerCase().replace(/\.$/, '')}.`
+      : 'No specific success criteria were defined.',
+    d.template && `Criteria were framed with the ${d.template.name} template.`,
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/** Builds the memo for a decision. Rankings are recomputed, never read from the decision. */
+export function buildMemo(d: DecisionState, date = new Date()): DecisionMemo {
+  const rankings = rankDecision(d);
+  // Sessions stored before aggregation methods existed used the weighted sum
+  const aggregation = d.aggregation ?? 'weighted-sum';
+  // Screened-out alternatives are listed with their reasons but left out of every ranking analysis
+  const screening = screenAlternatives(d.alternatives, d.criteria, d.screening, d.scores).filter((r) => r.failures.length);
+  const pool = shortlist(d.alternatives, d.criteria, d.screening, d.scores);
+  const methods = compareMethods(pool, d.criteria, d.scores);
+  // Sessions stored before units existed have none and were in dollars
+  const unit = d.unit ?? DEFAULT_UNIT;
+  const comparison = d.mcResult && d.comparison && d.comparison.alternatives.length > 1 ? d.comparison : null;
+  const information = comparison && informationVerdict(comparison, unit);
+  // Stability intervals rely on the weighted sum being linear in each weight
+  const stability = aggregation === 'weighted-sum' ? weightStability(pool, d.criteria, d.scores) : [];
+  const acceptability = rankAcceptability(pool, d.criteria, d.scores, d.scoreRanges, aggregation);
+  const research =
+    information?.action === 'gather' && information.focus
+      ? [`Resolve ${describeInformation(comparison, information.focus)} before committing; knowing it is worth up to ${fmt(information.focus.value, unit)}`]
+      : [];
+  return {
+    date: date.toLocaleDateString(),
+    unit,
+    recommendation: rankings[0] || null,
+    context: contextSummary(d),
+    constraints: (d.screening?.constraints ?? []).map(describeConstraint),
+    screening,
+    rankings,
+    dominated: paretoFrontier(pool, d.criteria, d.scores).dominated,
+    aggregation,
+    aggregationNote: describeAggregation(aggregation),
+    methods,
+    methodAgreement: describeMethodAgreement(methods),
+    methodDependent: winnerDependsOnMethod(methods),
+    acceptability,
+    weights: [...d.criteria].sort((a, b) => b.weight - a.weight),
+    // Sessions stored before methods were recorded used direct percentages
+    weighting: describeWeighting(d.weighting ?? { method: 'manual' }),
+    stability,
+    robustness: stability.length && rankings.length ? describeRobustness(rankings[0].name, stability) : null,
+    simulation: d.mcResult,
+    comparison,
+    information,
+    risks: d.risks,
+    nextSteps: [
+      ...research,
+      'Share this memo with key stakeholders for alignment',
+      `Validate assumptions, especially around ${d.criteria.length > 0 ? d.criteria[0].name : 'key criteria'}`,
+      'Implement mitigation plans for high-likelihood/high-impact risks',
+      'Set a review checkpoint at 90 days to reassess assumptions',
+    ],
+  };
+}
+
+/** Renders a memo as Markdown, section for section with the Decision Lab's memo. */
+export function memoToMarkdown(memo: DecisionMemo): string {
+  const top = memo.recommendation;
+  const mc = memo.simulation;
+  const amount = (n: number) => fmt(n, memo.unit);
+  const lines: string[] = [
+    '# Structural Decision Memo',
+    '',
+    `_${memo.date} · ${MEMO_PROTOCOL}_`,
+    '',
+    top
+      ? `**Primary recommendation: ${top.name}** — ${memo.aggregation === 'weighted-sum' ? 'weighted confidence' : `${AGGREGATION_LABELS[memo.aggregation]} score`} ${top.score.toFixed(1)} / 10`
+      : '**Primary recommendation: N/A**',
+    '',
+    '## Context Summary',
+    '',
+    memo.context,
+    '',
+    ...(memo.constraints.length
+      ? [
+          '## Screening',
+          '',
+          `Alternatives were screened against: ${memo.constraints.join('; ')}.`,
+          '',
+          ...(memo.screening.length
+            ? memo.screening.map(
+                (r) => `- **${r.name}** — ${r.eliminated ? 'screened out' : 'flagged'}: ${r.failures.map((f) => f.reason).join('; ')}`
+              )
+            : ['Every alternative passed.']),
+          '',
+        ]
+      : []),
+    '## Analysis Results',
+    '',
+    ...memo.rankings.map((r, i) => {
+      const dominated = memo.dominated.find((d) => d.id === r.id);
+      return (
+        `${i + 1}. ${i === 0 ? '\u{1F3C6} ' : ''}${r.name} — ${r.score.toFixed(1)} / 10` +
+        (dominated ? ` _(dominated by ${dominatorNames(dominated)})_` : '')
+      );
+    }),
+    '',
+    `_${memo.aggregationNote}_`,
+    '',
+    ...(memo.rankings.length > 1
+      ? [
+          '## Method Comparison',
+          '',
+          `| Alternative | ${memo.methods.map((m) => AGGREGATION_LABELS[m.method]).join(' | ')} |`,
+          `| --- | ${memo.methods.map(() => '---').join(' | ')} |`,
+          ...memo.rankings.map(
+            (r) =>
+              `| ${r.name} | ${memo.methods
+                .map((m) => {
+                  const rank = m.rankings.findIndex((x) => x.id === r.id);
+                  return `#${rank + 1} (${m.rankings[rank].score.toFixed(1)})`;
+                })
+                .join(' | ')} |`
+          ),
+          '',
+          memo.methodDependent ? `**Method-dependent:** ${memo.methodAgreement}` : memo.methodAgreement,
+          '',
+        ]
+      : []),
+    ...(memo.acceptability
+      ? [
+          '## Rank Acceptability',
+          '',
+          `Some scores were entered as ranges and drawn uniformly within them (${simulationProvenance({ trials: DEFAULT_TRIALS, seed: ACCEPTABILITY_SEED })}). ` +
+            describeAcceptability(memo.acceptability),
+          '',
+          `| Alternative | ${memo.acceptability.map((_, r) => `#${r + 1}`).join(' | ')} | Expected rank |`,
+          `| --- | ${memo.acceptability.map(() => '---').join(' | ')} | --- |`,
+          ...memo.acceptability.map((a) => `| ${a.name} | ${a.ranks.map(pct).join(' | ')} | ${a.expectedRank.toFixed(1)} |`),
+          '',
+        ]
+      : []),
+    '## Criteria Weights',
+    '',
+    ...memo.weights.map((c) => `- ${c.name} — ${pct(c.weight)} priority`),
+    '',
+    `_${memo.weighting}_`,
+  ];
+  if (memo.robustness) lines.push('', `**Robustness:** ${memo.robustness}`);
+
+  if (mc) {
+    lines.push(
+      '',
+      '## Outcome Uncertainty',
+      '',
+      `Based on Monte Carlo simulation ${simulationBasis(mc, memo.unit)}, the expected value of **${top?.name || 'N/A'}** is **${amount(mc.mean)}**. ` +
+        `There's an 80% confidence that the outcome will fall between **${amount(mc.p10)}** (P10) and **${amount(mc.p90)}** (P90).` +
+        (mc.probLoss > 0 ? ` Risk of loss: **${pct(mc.probLoss)}** probability of net negative outcome.` : '')
+    );
+    if (mc.cdf) lines.push('', `**Percentiles:** ${describePercentiles(mc, memo.unit)}`);
+    if (mc.cashFlow) lines.push('', `**Cash flow:** ${describeCashFlow(mc.cashFlow)}`);
+    if (mc.drivers?.length) lines.push('', `**Variance drivers:** ${describeDrivers(mc.drivers)}`);
+  }
+
+  const cmp = memo.comparison;
+  if (cmp) {
+    const dominance = describeDominance(cmp);
+    lines.push(
+      '',
+      '## Alternative Comparison',
+      '',
+      `Each alternative was simulated independently (${simulationProvenance(cmp)}).`,
+      '',
+      '| Alternative | Expected value | P10 – P90 | P(loss) | P(best) |',
+      '| --- | --- | --- | --- | --- |',
+      ...cmp.alternatives.map(
+        (a) =>
+          `| ${a.name} | ${amount(a.result.mean)} | ${amount(a.result.p10)} to ${amount(a.result.p90)} | ${pct(a.result.probLoss)} | ${pct(a.probBest)} |`
+      ),
+      '',
+      ...(dominance.length ? dominance.map((s) => `- ${s}`) : ['No alternative stochastically dominates another.']),
+      // The top choice's cash flow is already under Outcome Uncertainty
+      ...cmp.alternatives
+        .slice(1)
+        .filter((a) => a.result.cashFlow)
+        .flatMap((a) => ['', `**${a.name} cash flow:** ${describeCashFlow(a.result.cashFlow)}`])
+    );
+  }
+
+  const info = memo.information;
+  if (cmp?.information && info) {
+    lines.push(
+      '',
+      '## Value of Information',
+      '',
+      `Knowing every outcome before choosing would be worth **${amount(cmp.information.evpi)}** in expectation (EVPI). Per uncertainty:`,
+      '',
+      ...cmp.information.partial.slice(0, 5).map((p) => `- ${describeInformation(cmp, p)} — up to ${amount(p.value)}`),
+      '',
+      `**Recommendation: ${info.action === 'gather' ? 'gather more information' : 'decide now'}.** ${info.message}`
+    );
+  }
+
+  if (memo.risks.length) {
+    lines.push(
+      '',
+      '## Key Risks & Mitigation',
+      '',
+      ...memo.risks.map(
+        (r) =>
+          `- **${r.description}** (Likelihood: ${r.likelihood}, Impact: ${r.impact})` +
+          (r.mitigation ? ` — _Mitigation:_ ${r.mitigation}` : '')
+      )
+    );
+  }
+
+  lines.push('', '## Next Steps', '', ...memo.nextSteps.map((s, i) => `${i + 1}. ${s}`), '');
+  return lines.join('\n');
+}
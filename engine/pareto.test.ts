@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { dominatorNames, dominates, paretoFrontier } from './pareto';
+
+const alternatives = [
+  { id: 'a', name: 'A' },
+  { id: 'b', name: 'B' },
+  { id: 'c', name: 'C' },
+];
+
+const criteria = [
+  { id: 'x', name: 'X', weight: 0.6 },
+  { id: 'y', name: 'Y', weight: 0.3 },
+  { id: 'z', name: 'Z', weight: 0.1 },
+];
+
+const scores = { a: { x: 8, y: 4, z: 6 }, b: { x: 5, y: 8, z: 6 }, c: { x: 5, y: 4, z: 5 } };
+
+describe('dominates', () => {
+  it('needs no worse on every criterion and better on one', () => {
+    expect(dominates('a', 'c', criteria, scores)).toBe(true);
+    expect(dominates('b', 'c', criteria, scores)).toBe(true);
+    expect(dominates('c', 'a', criteria, scores)).toBe(false);
+  });
+
+  it('is false for a tradeoff', () => {
+    expect(dominates('a', 'b', criteria, scores)).toBe(false);
+    expect(dominates('b', 'a', criteria, scores)).toBe(false);
+  });
+
+  it('is false for identical scores', () => {
+    expect(dominates('a', 'b', criteria, { a: { x: 6, y: 6, z: 6 }, b: { x: 6, y: 6, z: 6 } })).toBe(false);
+  });
+
+  it('counts unscored cells as 5', () => {
+    expect(dominates('a', 'b', criteria, { a: { x: 6 }, b: {} })).toBe(true);
+    expect(dominates('a', 'b', criteria, { a: { x: 6, y: 4 }, b: {} })).toBe(false);
+  });
+});
+
+describe('paretoFrontier', () => {
+  it('splits efficient from dominated alternatives', () => {
+    expect(paretoFrontier(alternatives, criteria, scores)).toEqual({
+      efficient: ['a', 'b'],
+      dominated: [
+        {
+          id: 'c',
+          name: 'C',
+          dominatedBy: [
+            { id: 'a', name: 'A' },
+            { id: 'b', name: 'B' },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('ignores weights', () => {
+    const unweighted = criteria.map((c) => ({ ...c, weight: 0 }));
+    expect(paretoFrontier(alternatives, unweighted, scores).efficient).toEqual(['a', 'b']);
+  });
+
+  it('finds the frontier of a single tradeoff', () => {
+    // On Y and Z alone B beats A, and A still beats C on Z
+    const result = paretoFrontier(alternatives, criteria.slice(1), scores);
+    expect(result.efficient).toEqual(['b']);
+    expect(result.dominated.map((d) => [d.id, d.dominatedBy.map((o) => o.id)])).toEqual([
+      ['a', ['b']],
+      ['c', ['a', 'b']],
+    ]);
+  });
+
+  it('keeps alternatives with identical scores both efficient', () => {
+    const result = paretoFrontier(alternatives.slice(0, 2), criteria, { a: { x: 6, y: 6, z: 6 }, b: { x: 6, y: 6, z: 6 } });
+    expect(result).toEqual({ efficient: ['a', 'b'], dominated: [] });
+  });
+});
+
+describe('dominatorNames', () => {
+  const by = (...names: string[]) => ({
+    id: 'z',
+    name: 'Z',
+    dominatedBy: names.map((name) => ({ id: name.toLowerCase(), name })),
+  });
+
+  it.each([
+    [['Salesforce'], 'Salesforce'],
+    [['Salesforce', 'HubSpot'], 'Salesforce and HubSpot'],
+    [['A', 'B', 'C'], 'A, B and C'],
+  ])('lists %o', (names, text) => {
+    expect(dominatorNames(by(...names))).toBe(text);
+  });
+});
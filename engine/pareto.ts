@@ -0,0 +1,39 @@
+import { Alternative, Criterion } from '../types';
+import { DominatedAlternative, ParetoResult, ScoreMatrix } from './types';
+
+// Unscored cells count as a neutral 5, as in the rankings
+const scoreOf = (scores: ScoreMatrix, altId: string, critId: string) => scores?.[altId]?.[critId] ?? 5;
+
+/** True when `a` is at least as good as `b` on every criterion and strictly better on one. */
+export function dominates(a: string, b: string, criteria: Criterion[], scores: ScoreMatrix): boolean {
+  let better = false;
+  for (const c of criteria) {
+    const diff = scoreOf(scores, a, c.id) - scoreOf(scores, b, c.id);
+    if (diff < 0) return false;
+    if (diff > 0) better = true;
+  }
+  return better;
+}
+
+/**
+ * Pareto dominance over the raw scores, ignoring weights: an alternative is dominated
+ * when another is no worse on every criterion and better on at least one, and efficient
+ * otherwise. Alternatives with identical scores are both efficient. Pass two criteria
+ * for the frontier of a single tradeoff.
+ */
+export function paretoFrontier(alternatives: Alternative[], criteria: Criterion[], scores: ScoreMatrix): ParetoResult {
+  const dominated: DominatedAlternative[] = [];
+  const efficient: string[] = [];
+  for (const alt of alternatives) {
+    const by = alternatives.filter((other) => other.id !== alt.id && dominates(other.id, alt.id, criteria, scores));
+    if (by.length) dominated.push({ id: alt.id, name: alt.name, dominatedBy: by.map((o) => ({ id: o.id, name: o.name })) });
+    else efficient.push(alt.id);
+  }
+  return { efficient, dominated };
+}
+
+/** "Salesforce" or "Salesforce and HubSpot" or "A, B and C". */
+export const dominatorNames = (d: DominatedAlternative) => {
+  const names = d.dominatedBy.map((o) => o.name);
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { detectScoringPatterns } from './patterns';
+import { calculateRankings } from './rankings';
+
+const alternatives = [
+  { id: 'a', name: 'A' },
+  { id: 'b', name: 'B' },
+];
+
+const detect = (criteria: { id: string; name: string; weight: number }[], scores: Record<string, Record<string, number>>) =>
+  detectScoringPatterns(calculateRankings(alternatives, criteria, scores), alternatives, criteria, scores).map((i) => i.type);
+
+describe('detectScoringPatterns', () => {
+  it('flags totals within a point of each other', () => {
+    const criteria = [{ id: 'x', name: 'X', weight: 1 }];
+    expect(detect(criteria, { a: { x: 5 }, b: { x: 5.5 } })).toContain('clustered');
+  });
+
+  it('flags a criterion whose removal changes the winner', () => {
+    const criteria = [
+      { id: 'x', name: 'X', weight: 0.6 },
+      { id: 'y', name: 'Y', weight: 0.4 },
+    ];
+    expect(detect(criteria, { a: { x: 10, y: 2 }, b: { x: 2, y: 6 } })).toContain('dominant');
+  });
+
+  it('flags an alternative beaten or tied on every criterion', () => {
+    const criteria = [
+      { id: 'x', name: 'X', weight: 0.5 },
+      { id: 'y', name: 'Y', weight: 0.5 },
+    ];
+    expect(detect(criteria, { a: { x: 8, y: 6 }, b: { x: 4, y: 6 } })).toContain('dominated');
+  });
+
+  it('flags inflated scores', () => {
+    const criteria = [
+      { id: 'x', name: 'X', weight: 0.5 },
+      { id: 'y', name: 'Y', weight: 0.5 },
+    ];
+    expect(detect(criteria, { a: { x: 9, y: 8 }, b: { x: 7, y: 10 } })).toContain('inflated');
+  });
+
+  it('stays quiet for spread-out, calibrated scores', () => {
+    const criteria = [
+      { id: 'x', name: 'X', weight: 1 },
+      { id: 'y', name: 'Y', weight: 1 },
+      { id: 'z', name: 'Z', weight: 1 },
+    ];
+    expect(detect(criteria, { a: { x: 8, y: 7, z: 2 }, b: { x: 4, y: 3, z: 4 } })).toEqual([]);
+  });
+
+  it('returns nothing when every weight is zero', () => {
+    const criteria = [{ id: 'x', name: 'X', weight: 0 }];
+    expect(detect(criteria, { a: { x: 9 }, b: { x: 9 } })).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import { AggregationMethod, Alternative, Criterion } from '../types';
+import { dominatorNames, paretoFrontier } from './pareto';
+import { rankWith } from './rankings';
+import { Ranking, ScoreMatrix, ScoringInsight } from './types';
+
+/**
+ * Flags scoring habits worth questioning: totals clustered within a point,
+ * a single criterion that flips the winner when removed, alternatives another
+ * beats or ties on every criterion, and inflated scores (over 70% of cells at
+ * 7 or above). `rankings` must come from `method`.
+ */
+export function detectScoringPatterns(
+  rankings: Ranking[],
+  alternatives: Alternative[],
+  criteria: Criterion[],
+  scores: ScoreMatrix,
+  method: AggregationMethod = 'weighted-sum'
+): ScoringInsight[] {
+  const insights: ScoringInsight[] = [];
+  if (!rankings.length || !criteria.length) return insights;
+
+  if (rankings.length >= 2) {
+    const spread = rankings[0].score - rankings[rankings.length - 1].score;
+    if (spread < 1.0) {
+      insights.push({
+        type: 'clustered',
+        message:
+          "These scores are very close \u2014 within 1 point of each other. What's the real tie-breaker that the numbers aren't capturing?",
+      });
+    }
+  }
+
+  if (rankings.length >= 2 && criteria.length >= 2) {
+    for (const crit of criteria) {
+      const otherCriteria = criteria.filter((c) => c.id !== crit.id);
+      const altRankings = rankWith(method, alternatives, otherCriteria, scores);
+      if (altRankings.length >= 2 && altRankings[0].id !== rankings[0].id) {
+        insights.push({
+          type: 'dominant',
+          message: `"${crit.name}" is driving most of the difference \u2014 without it, ${altRankings[0].name} would be #1 instead. Is that weighting intentional?`,
+        });
+        break;
+      }
+    }
+  }
+
+  for (const d of paretoFrontier(alternatives, criteria, scores).dominated) {
+    insights.push({
+      type: 'dominated',
+      message: `${d.name} is dominated by ${dominatorNames(d)} \u2014 no better on any criterion and worse on at least one. Is something the criteria don't capture keeping it on the table?`,
+    });
+  }
+
+  let highCount = 0,
+    totalCount = 0;
+  for (const alt of alternatives) {
+    for (const crit of criteria) {
+      const s = scores?.[alt.id]?.[crit.id];
+      if (s != null) {
+        totalCount++;
+        if (s >= 7) highCount++;
+      }
+    }
+  }
+  if (totalCount > 0 && highCount / totalCount > 0.7) {
+    insights.push({
+      type: 'inflated',
+      message:
+        "Most scores are 7 or above. If everything is 'good,' the analysis loses its ability to differentiate. Consider recalibrating what 'average' (5) looks like.",
+    });
+  }
+
+  return insights;
+}
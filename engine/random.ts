@@ -0,0 +1,21 @@
+/** A uniform [0, 1) generator; the same seed always yields the same sequence. */
+export type Rng = () => number;
+
+/** mulberry32: small, fast and good enough for simulation sampling (not for cryptography). */
+export function mulberry32(seed: number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** A fresh random 32-bit seed for runs where the caller didn't pick one. */
+export const newSeed = () => Math.floor(Math.random() * 4294967296);
+
+/** Seeds are unsigned 32-bit integers. */
+export const isValidSeed = (v: unknown): v is number =>
+  typeof v === 'number' && Number.isInteger(v) && v >= 0 && v < 4294967296;
@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateRankings,
+  compareMethods,
+  describeMethodAgreement,
+  prometheeRankings,
+  rankWith,
+  topsisRankings,
+  winnerDependsOnMethod,
+} from './rankings';
+import { MethodRanking } from './types';
+
+const alternatives = [
+  { id: 'a', name: 'A' },
+  { id: 'b', name: 'B' },
+];
+
+describe('calculateRankings', () => {
+  it('ranks by the weighted sum, best first', () => {
+    const criteria = [
+      { id: 'x', name: 'X', weight: 0.75 },
+      { id: 'y', name: 'Y', weight: 0.25 },
+    ];
+    const scores = { a: { x: 4, y: 10 }, b: { x: 8, y: 2 } };
+    const rankings = calculateRankings(alternatives, criteria, scores);
+    expect(rankings.map((r) => r.id)).toEqual(['b', 'a']);
+    expect(rankings[0].score).toBeCloseTo(6.5);
+    expect(rankings[1].score).toBeCloseTo(5.5);
+  });
+
+  it('normalises weights that do not sum to 1', () => {
+    const criteria = [
+      { id: 'x', name: 'X', weight: 3 },
+      { id: 'y', name: 'Y', weight: 1 },
+    ];
+    const rankings = calculateRankings(alternatives, criteria, { a: { x: 4, y: 10 }, b: { x: 8, y: 2 } });
+    expect(rankings[0].score).toBeCloseTo(6.5);
+  });
+
+  it('counts unscored cells as a neutral 5', () => {
+    const criteria = [{ id: 'x', name: 'X', weight: 1 }];
+    const rankings = calculateRankings(alternatives, criteria, { a: { x: 6 } });
+    expect(rankings.find((r) => r.id === 'b')?.score).toBe(5);
+  });
+
+  it('returns nothing when every weight is zero', () => {
+    const criteria = [
+      { id: 'x', name: 'X', weight: 0 },
+      { id: 'y', name: 'Y', weight: 0 },
+    ];
+    expect(calculateRankings(alternatives, criteria, { a: { x: 9 } })).toEqual([]);
+  });
+
+  it('returns nothing without alternatives or criteria', () => {
+    expect(calculateRankings([], [{ id: 'x', name: 'X', weight: 1 }], {})).toEqual([]);
+    expect(calculateRankings(alternatives, [], {})).toEqual([]);
+  });
+});
+
+const single = [{ id: 'x', name: 'X', weight: 1 }];
+
+const pair = [
+  { id: 'x', name: 'X', weight: 0.5 },
+  { id: 'y', name: 'Y', weight: 0.5 },
+];
+
+const scoresOf = (rankings: { id: string; score: number }[]) => Object.fromEntries(rankings.map((r) => [r.id, r.score]));
+
+describe('topsisRankings', () => {
+  it('scores the ideal 10 and the anti-ideal 0', () => {
+    const rankings = topsisRankings(alternatives, pair, { a: { x: 8, y: 6 }, b: { x: 4, y: 3 } });
+    expect(rankings.map((r) => r.id)).toEqual(['a', 'b']);
+    expect(rankings[0].score).toBeCloseTo(10);
+    expect(rankings[1].score).toBeCloseTo(0);
+  });
+
+  it('scores an alternative halfway between the ideal and anti-ideal 5', () => {
+    const three = [...alternatives, { id: 'c', name: 'C' }];
+    const scores = scoresOf(topsisRankings(three, single, { a: { x: 8 }, b: { x: 5 }, c: { x: 2 } }));
+    expect(scores.a).toBeCloseTo(10);
+    expect(scores.b).toBeCloseTo(5);
+    expect(scores.c).toBeCloseTo(0);
+  });
+
+  it('scores everyone 5 when the alternatives are identical', () => {
+    const rankings = topsisRankings(alternatives, pair, { a: { x: 6, y: 6 }, b: { x: 6, y: 6 } });
+    expect(rankings.map((r) => r.score)).toEqual([5, 5]);
+  });
+
+  it('returns nothing when every weight is zero', () => {
+    expect(topsisRankings(alternatives, [{ id: 'x', name: 'X', weight: 0 }], {})).toEqual([]);
+  });
+});
+
+describe('prometheeRankings', () => {
+  it.each([
+    // Gap of 6 is a full preference, 2.5 is halfway through the band, 0.5 is indifference
+    [8, 2, 10, 0],
+    [7.5, 5, 7.5, 2.5],
+    [6, 5.5, 5, 5],
+  ])('scores %d against %d as %d and %d', (a, b, scoreA, scoreB) => {
+    const scores = scoresOf(prometheeRankings(alternatives, single, { a: { x: a }, b: { x: b } }));
+    expect(scores.a).toBeCloseTo(scoreA);
+    expect(scores.b).toBeCloseTo(scoreB);
+  });
+
+  it('nets preferences across criteria by weight', () => {
+    // A is fully preferred on X (weight 0.5), B halfway on Y (weight 0.5): net flow 0.25 for A
+    const scores = scoresOf(prometheeRankings(alternatives, pair, { a: { x: 9, y: 3 }, b: { x: 3, y: 5.5 } }));
+    expect(scores.a).toBeCloseTo(6.25);
+    expect(scores.b).toBeCloseTo(3.75);
+  });
+
+  it('scores a lone alternative 5', () => {
+    expect(prometheeRankings([alternatives[0]], single, { a: { x: 9 } })[0].score).toBe(5);
+  });
+});
+
+describe('rankWith', () => {
+  const scores = { a: { x: 8, y: 6 }, b: { x: 4, y: 3 } };
+
+  it('dispatches on the method', () => {
+    expect(rankWith('topsis', alternatives, pair, scores)).toEqual(topsisRankings(alternatives, pair, scores));
+    expect(rankWith('promethee', alternatives, pair, scores)).toEqual(prometheeRankings(alternatives, pair, scores));
+  });
+
+  it('falls back to the weighted sum', () => {
+    const weighted = calculateRankings(alternatives, pair, scores);
+    expect(rankWith(undefined, alternatives, pair, scores)).toEqual(weighted);
+    expect(rankWith('borda' as never, alternatives, pair, scores)).toEqual(weighted);
+  });
+});
+
+describe('compareMethods', () => {
+  it('ranks with every method in order', () => {
+    const methods = compareMethods(alternatives, pair, { a: { x: 8, y: 6 }, b: { x: 4, y: 3 } });
+    expect(methods.map((m) => m.method)).toEqual(['weighted-sum', 'topsis', 'promethee']);
+    expect(winnerDependsOnMethod(methods)).toBe(false);
+    expect(describeMethodAgreement(methods)).toBe('All 3 methods rank A first.');
+  });
+});
+
+describe('winnerDependsOnMethod', () => {
+  const ranking = (...ids: string[]) => ids.map((id, i) => ({ id, name: id.toUpperCase(), score: 10 - i }));
+
+  it('is true when the methods pick different winners', () => {
+    const methods: MethodRanking[] = [
+      { method: 'weighted-sum', rankings: ranking('a', 'b') },
+      { method: 'topsis', rankings: ranking('b', 'a') },
+    ];
+    expect(winnerDependsOnMethod(methods)).toBe(true);
+    expect(describeMethodAgreement(methods)).toMatch(/^The winner depends on the method: Weighted sum picks A, TOPSIS picks B\./);
+  });
+
+  it('ignores methods with nothing ranked', () => {
+    const methods: MethodRanking[] = [
+      { method: 'weighted-sum', rankings: ranking('a', 'b', 'c') },
+      { method: 'topsis', rankings: ranking('a', 'c', 'b') },
+      { method: 'promethee', rankings: [] },
+    ];
+    expect(winnerDependsOnMethod(methods)).toBe(false);
+    expect(describeMethodAgreement(methods)).toBe('All 2 methods rank A first, though they disagree on the runner-up.');
+  });
+});
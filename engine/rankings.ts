@@ -0,0 +1,164 @@
+import { AggregationMethod, Alternative, Criterion, DecisionState } from '../types';
+import { shortlist } from './screening';
+import { MethodRanking, Ranking, ScoreMatrix } from './types';
+
+export const AGGREGATION_LABELS: Record<AggregationMethod, string> = {
+  'weighted-sum': 'Weighted sum',
+  topsis: 'TOPSIS',
+  promethee: 'PROMETHEE II',
+};
+
+export const AGGREGATION_METHODS = Object.keys(AGGREGATION_LABELS) as AggregationMethod[];
+
+// PROMETHEE's linear preference with an indifference band: a gap of up to 1 point on the
+// 1–10 scale is noise, and 4 points or more is a full preference
+export const PROMETHEE_INDIFFERENCE = 1;
+export const PROMETHEE_PREFERENCE = 4;
+
+/**
+ * Weighted-sum ranking, best first. Unscored cells count as a neutral 5 and
+ * weights are normalised by their total, so they need not sum to 1.
+ * Returns an empty list when there is nothing to rank or every weight is zero.
+ */
+export function calculateRankings(
+  alternatives: Alternative[],
+  criteria: Criterion[],
+  scores: ScoreMatrix
+): Ranking[] {
+  try {
+    if (!alternatives?.length || !criteria?.length) return [];
+    const totalW = criteria.reduce((s, c) => s + (c.weight || 0), 0);
+    if (totalW === 0) return [];
+    return alternatives
+      .map((alt) => {
+        const ws = criteria.reduce((s, cr) => {
+          return s + (cr.weight || 0) * (scores?.[alt.id]?.[cr.id] ?? 5);
+        }, 0);
+        return { ...alt, score: ws / totalW };
+      })
+      .sort((a, b) => b.score - a.score);
+  } catch (e) {
+    console.error('Ranking error:', e);
+    return [];
+  }
+}
+
+// Score matrix and normalised weights with unscored cells at 5, as in calculateRankings;
+// null when there is nothing to rank
+function decisionMatrix(alternatives: Alternative[], criteria: Criterion[], scores: ScoreMatrix) {
+  if (!alternatives?.length || !criteria?.length) return null;
+  const totalW = criteria.reduce((s, c) => s + (c.weight || 0), 0);
+  if (totalW === 0) return null;
+  return {
+    x: alternatives.map((alt) => criteria.map((c) => scores?.[alt.id]?.[c.id] ?? 5)),
+    w: criteria.map((c) => (c.weight || 0) / totalW),
+  };
+}
+
+const ranked = (alternatives: Alternative[], score: (i: number) => number): Ranking[] =>
+  alternatives.map((alt, i) => ({ ...alt, score: score(i) })).sort((a, b) => b.score - a.score);
+
+/**
+ * TOPSIS ranking, best first: each criterion is vector-normalised and weighted, and an
+ * alternative scores by its relative closeness to the ideal (the best value on every
+ * criterion) against the anti-ideal, times 10. A poor score on one criterion cannot be
+ * fully bought back elsewhere. Everyone scores 5 when all alternatives are identical.
+ */
+export function topsisRankings(alternatives: Alternative[], criteria: Criterion[], scores: ScoreMatrix): Ranking[] {
+  const m = decisionMatrix(alternatives, criteria, scores);
+  if (!m) return [];
+  const norms = criteria.map((_, j) => Math.hypot(...m.x.map((row) => row[j])) || 1);
+  const v = m.x.map((row) => row.map((x, j) => (m.w[j] * x) / norms[j]));
+  const ideal = criteria.map((_, j) => Math.max(...v.map((row) => row[j])));
+  const anti = criteria.map((_, j) => Math.min(...v.map((row) => row[j])));
+  return ranked(alternatives, (i) => {
+    const toIdeal = Math.hypot(...v[i].map((x, j) => x - ideal[j]));
+    const toAnti = Math.hypot(...v[i].map((x, j) => x - anti[j]));
+    return toIdeal + toAnti > 0 ? (10 * toAnti) / (toIdeal + toAnti) : 5;
+  });
+}
+
+// Linear preference with indifference: 0 up to PROMETHEE_INDIFFERENCE, 1 from PROMETHEE_PREFERENCE
+const preference = (d: number) =>
+  Math.min(1, Math.max(0, (d - PROMETHEE_INDIFFERENCE) / (PROMETHEE_PREFERENCE - PROMETHEE_INDIFFERENCE)));
+
+/**
+ * PROMETHEE II ranking, best first: every pair of alternatives is compared criterion by
+ * criterion, and an alternative scores by its net outranking flow, how much it is
+ * preferred over the others minus how much they are preferred over it, rescaled from
+ * −1…1 to 0–10. Differences inside the indifference band count for nothing.
+ */
+export function prometheeRankings(alternatives: Alternative[], criteria: Criterion[], scores: ScoreMatrix): Ranking[] {
+  const m = decisionMatrix(alternatives, criteria, scores);
+  if (!m) return [];
+  const n = alternatives.length;
+  const outranks = (a: number, b: number) => m.w.reduce((s, w, j) => s + w * preference(m.x[a][j] - m.x[b][j]), 0);
+  return ranked(alternatives, (i) => {
+    if (n < 2) return 5;
+    let net = 0;
+    for (let k = 0; k < n; k++) if (k !== i) net += outranks(i, k) - outranks(k, i);
+    return 5 * (1 + net / (n - 1));
+  });
+}
+
+/** Ranks with the given method; anything unrecognised falls back to the weighted sum. */
+export function rankWith(
+  method: AggregationMethod | undefined,
+  alternatives: Alternative[],
+  criteria: Criterion[],
+  scores: ScoreMatrix
+): Ranking[] {
+  switch (method) {
+    case 'topsis':
+      return topsisRankings(alternatives, criteria, scores);
+    case 'promethee':
+      return prometheeRankings(alternatives, criteria, scores);
+    default:
+      return calculateRankings(alternatives, criteria, scores);
+  }
+}
+
+/**
+ * Ranks a decision's own alternatives, criteria and scores with its aggregation method.
+ * Alternatives a dealbreaker screens out are left out.
+ */
+export const rankDecision = (
+  d: Pick<DecisionState, 'alternatives' | 'criteria' | 'scores'> & Partial<Pick<DecisionState, 'aggregation' | 'screening'>>
+) => rankWith(d.aggregation, shortlist(d.alternatives, d.criteria, d.screening, d.scores), d.criteria, d.scores);
+
+/** The same decision ranked by every aggregation method, in AGGREGATION_METHODS order. */
+export const compareMethods = (alternatives: Alternative[], criteria: Criterion[], scores: ScoreMatrix): MethodRanking[] =>
+  AGGREGATION_METHODS.map((method) => ({ method, rankings: rankWith(method, alternatives, criteria, scores) }));
+
+/** True when the methods disagree on which alternative comes first. */
+export const winnerDependsOnMethod = (methods: MethodRanking[]) =>
+  new Set(methods.filter((m) => m.rankings.length).map((m) => m.rankings[0].id)).size > 1;
+
+/** "All 3 methods rank X first." or which method picks which winner. */
+export function describeMethodAgreement(methods: MethodRanking[]): string {
+  const usable = methods.filter((m) => m.rankings.length);
+  if (!usable.length) return 'Nothing to rank yet.';
+  if (!winnerDependsOnMethod(usable)) {
+    const top = usable[0].rankings[0].name;
+    const second = usable.map((m) => m.rankings[1]?.id);
+    return (
+      `All ${usable.length} methods rank ${top} first` +
+      (usable[0].rankings.length > 1 && new Set(second).size > 1 ? ', though they disagree on the runner-up.' : '.')
+    );
+  }
+  return `The winner depends on the method: ${usable
+    .map((m) => `${AGGREGATION_LABELS[m.method]} picks ${m.rankings[0].name}`)
+    .join(', ')}. Check whether a weak score on one criterion should be offset by strong ones elsewhere.`;
+}
+
+/** The memo's note on how the ranking was computed, with its source. */
+export function describeAggregation(method: AggregationMethod): string {
+  switch (method) {
+    case 'topsis':
+      return 'Ranked by TOPSIS: relative closeness to the ideal alternative, scaled to 0–10 (Hwang & Yoon, 1981).';
+    case 'promethee':
+      return 'Ranked by PROMETHEE II net outranking flow, scaled to 0–10 (Brans & Vincke, 1985).';
+    default:
+      return 'Ranked by the weighted sum of the 1–10 scores.';
+  }
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { classifyRisk } from './risks';
+
+describe('classifyRisk', () => {
+  it.each([
+    ['Executive sponsor leaves after the reorg', 'organizational'],
+    ['GDPR audit finds gaps', 'organizational'],
+    ['We cannot hire the skills in time', 'organizational'],
+    ['Legacy integration breaks at scale', 'technical'],
+    ['Customer demand is lower than forecast', 'market'],
+    ['Something nobody saw coming', 'other'],
+  ])('classifies "%s" as %s', (desc, theme) => {
+    expect(classifyRisk(desc)).toBe(theme);
+  });
+
+  it('ignores case', () => {
+    expect(classifyRisk('TECHNICAL DEBT')).toBe('technical');
+  });
+
+  it('falls back to other for empty text', () => {
+    expect(classifyRisk('')).toBe('other');
+  });
+});
@@ -0,0 +1,12 @@
+import { Risk } from '../types';
+
+/** Keyword-based theme for a free-text risk description; falls back to `'other'`. */
+export function classifyRisk(desc: string): Risk['theme'] {
+  const lower = desc.toLowerCase();
+  if (/(execut|sponsor|politics|reorg|budget|priority|compet)/i.test(lower)) return 'organizational';
+  if (/(regul|complian|legal|gdpr|audit)/i.test(lower)) return 'organizational';
+  if (/(talent|hire|team|skill|capacity)/i.test(lower)) return 'organizational';
+  if (/(tech|integrat|scalab|infrastr|legacy)/i.test(lower)) return 'technical';
+  if (/(market|competitor|customer|demand)/i.test(lower)) return 'market';
+  return 'other';
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { Constraint, Screening } from '../types';
+import { rankDecision } from './rankings';
+import { EMPTY_SCREENING, constraintCriterion, describeConstraint, screenAlternatives, shortlist } from './screening';
+
+const alternatives = [
+  { id: 'a', name: 'A' },
+  { id: 'b', name: 'B' },
+  { id: 'c', name: 'C' },
+];
+
+const criteria = [
+  { id: 'fit', name: 'Fit', weight: 0.5 },
+  { id: 'risk', name: 'Lock-in Risk', weight: 0.5 },
+];
+
+const usd = { kind: 'currency', code: 'USD' } as const;
+
+const budget: Constraint = { id: 'budget', kind: 'max', label: 'Annual budget', limit: 200000, unit: usd, dealbreaker: true };
+const seats: Constraint = { id: 'seats', kind: 'min', label: 'Seats', limit: 50, dealbreaker: false };
+const soc2: Constraint = { id: 'soc2', kind: 'required', label: 'SOC 2 certified', dealbreaker: true };
+const floor: Constraint = { id: 'floor', kind: 'min-score', label: ' lock-in risk ', limit: 4, dealbreaker: true };
+
+const screening = (constraints: Constraint[], values: Screening['values'] = {}): Screening => ({ constraints, values });
+
+describe('describeConstraint', () => {
+  it.each([
+    [budget, 'Annual budget ≤ $200K'],
+    [seats, 'Seats ≥ 50'],
+    [soc2, 'SOC 2 certified'],
+    [{ ...floor, label: 'Lock-in Risk' }, 'Lock-in Risk score ≥ 4'],
+  ])('describes %o', (c, text) => {
+    expect(describeConstraint(c)).toBe(text);
+  });
+});
+
+describe('constraintCriterion', () => {
+  it('matches the criterion by name, ignoring case and surrounding space', () => {
+    expect(constraintCriterion(floor, criteria)?.id).toBe('risk');
+    expect(constraintCriterion({ ...floor, label: 'Price' }, criteria)).toBeNull();
+  });
+});
+
+describe('screenAlternatives', () => {
+  it('eliminates alternatives over a max dealbreaker', () => {
+    const [a, b] = screenAlternatives(alternatives, criteria, screening([budget], { a: { budget: 250000 }, b: { budget: 200000 } }), null);
+    expect(a.eliminated).toBe(true);
+    expect(a.failures).toEqual([
+      { constraintId: 'budget', reason: 'Annual budget is $250K, over the $200K limit', eliminates: true },
+    ]);
+    expect(b).toEqual({ id: 'b', name: 'B', failures: [], eliminated: false });
+  });
+
+  it('flags but keeps alternatives failing a constraint that is not a dealbreaker', () => {
+    const [a] = screenAlternatives(alternatives, criteria, screening([seats], { a: { seats: 20 } }), null);
+    expect(a.eliminated).toBe(false);
+    expect(a.failures).toEqual([{ constraintId: 'seats', reason: 'Seats is 20, under the 50 minimum', eliminates: false }]);
+  });
+
+  it('eliminates on a failed requirement', () => {
+    const [a, b] = screenAlternatives(alternatives, criteria, screening([soc2], { a: { soc2: false }, b: { soc2: true } }), null);
+    expect(a.failures[0].reason).toBe('Fails “SOC 2 certified”');
+    expect(a.eliminated).toBe(true);
+    expect(b.eliminated).toBe(false);
+  });
+
+  it('flags a missing value but never eliminates on it', () => {
+    const [, , c] = screenAlternatives(alternatives, criteria, screening([budget, soc2]), null);
+    expect(c.eliminated).toBe(false);
+    expect(c.failures).toEqual([
+      { constraintId: 'budget', reason: 'No Annual budget entered', eliminates: false },
+      { constraintId: 'soc2', reason: '“SOC 2 certified” not confirmed', eliminates: false },
+    ]);
+  });
+
+  it('skips a max or min constraint without a limit', () => {
+    const [a] = screenAlternatives(alternatives, criteria, screening([{ ...budget, limit: undefined }], { a: { budget: 1e9 } }), null);
+    expect(a.failures).toEqual([]);
+  });
+
+  it('checks min-score constraints against the scores, counting unscored cells as 5', () => {
+    const results = screenAlternatives(alternatives, criteria, screening([floor]), { a: { risk: 3 }, b: { risk: 4 } });
+    expect(results.map((r) => r.eliminated)).toEqual([true, false, false]);
+    expect(results[0].failures[0].reason).toBe('Scores 3 on Lock-in Risk, below the minimum of 4');
+  });
+
+  it('skips min-score constraints before scoring or when no criterion matches', () => {
+    expect(screenAlternatives(alternatives, criteria, screening([floor]), null).every((r) => !r.failures.length)).toBe(true);
+    const unmatched = screening([{ ...floor, label: 'Price' }]);
+    expect(screenAlternatives(alternatives, criteria, unmatched, { a: { risk: 1 } }).every((r) => !r.failures.length)).toBe(true);
+  });
+});
+
+describe('shortlist', () => {
+  it('keeps every alternative without constraints', () => {
+    expect(shortlist(alternatives, criteria, undefined, null)).toBe(alternatives);
+    expect(shortlist(alternatives, criteria, EMPTY_SCREENING, null)).toBe(alternatives);
+  });
+
+  it('drops only the alternatives a dealbreaker screens out', () => {
+    const s = screening([budget, seats, soc2], {
+      a: { budget: 250000, seats: 100, soc2: true },
+      b: { budget: 150000, seats: 10, soc2: true },
+      c: { budget: 150000, seats: 100 },
+    });
+    expect(shortlist(alternatives, criteria, s, null).map((a) => a.id)).toEqual(['b', 'c']);
+  });
+
+  it('leaves screened-out alternatives out of the decision ranking', () => {
+    const scores = { a: { fit: 9, risk: 3 }, b: { fit: 6, risk: 6 }, c: { fit: 4, risk: 5 } };
+    const ranked = rankDecision({ alternatives, criteria, scores, screening: screening([floor]) });
+    expect(ranked.map((r) => r.id)).toEqual(['b', 'c']);
+  });
+});
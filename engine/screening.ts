@@ -0,0 +1,95 @@
+import { Alternative, Constraint, Criterion, OutcomeUnit, Screening } from '../types';
+import { fmt } from './format';
+import { ConstraintFailure, ScoreMatrix, ScreeningResult } from './types';
+
+/** What a decision screens against before any constraint is added. */
+export const EMPTY_SCREENING: Screening = { constraints: [], values: {} };
+
+const PLAIN: OutcomeUnit = { kind: 'count' };
+
+/** The criterion a min-score constraint names, ignoring case and surrounding space. */
+export const constraintCriterion = (c: Constraint, criteria: Criterion[]) =>
+  criteria.find((cr) => cr.name.trim().toLowerCase() === c.label.trim().toLowerCase()) || null;
+
+/** "Annual budget ≤ $200K", "SOC 2 certified", "Lock-in Risk score ≥ 4". */
+export function describeConstraint(c: Constraint): string {
+  const amount = (n: number) => fmt(n, c.unit ?? PLAIN);
+  switch (c.kind) {
+    case 'max':
+      return `${c.label} \u2264 ${amount(c.limit ?? 0)}`;
+    case 'min':
+      return `${c.label} \u2265 ${amount(c.limit ?? 0)}`;
+    case 'required':
+      return c.label;
+    case 'min-score':
+      return `${c.label} score \u2265 ${c.limit ?? 0}`;
+  }
+}
+
+// Why an alternative fails one constraint, or null when it passes or cannot be checked yet
+function check(
+  c: Constraint,
+  alt: Alternative,
+  screening: Screening,
+  criteria: Criterion[],
+  scores: ScoreMatrix | null
+): Omit<ConstraintFailure, 'constraintId'> | null {
+  const amount = (n: number) => fmt(n, c.unit ?? PLAIN);
+  const failed = (reason: string) => ({ reason, eliminates: c.dealbreaker });
+  // Nobody checked, so flag it but never screen it out
+  const unchecked = (reason: string) => ({ reason, eliminates: false });
+  const value = screening.values?.[alt.id]?.[c.id];
+  if (c.kind !== 'required' && c.limit == null) return null;
+
+  switch (c.kind) {
+    case 'max':
+      if (typeof value !== 'number') return unchecked(`No ${c.label} entered`);
+      return value > c.limit ? failed(`${c.label} is ${amount(value)}, over the ${amount(c.limit)} limit`) : null;
+    case 'min':
+      if (typeof value !== 'number') return unchecked(`No ${c.label} entered`);
+      return value < c.limit ? failed(`${c.label} is ${amount(value)}, under the ${amount(c.limit)} minimum`) : null;
+    case 'required':
+      if (typeof value !== 'boolean') return unchecked(`\u201c${c.label}\u201d not confirmed`);
+      return value ? null : failed(`Fails \u201c${c.label}\u201d`);
+    case 'min-score': {
+      const criterion = constraintCriterion(c, criteria);
+      if (!scores || !criterion) return null;
+      // Unscored cells count as a neutral 5, as in the rankings
+      const score = scores[alt.id]?.[criterion.id] ?? 5;
+      return score < c.limit ? failed(`Scores ${score} on ${criterion.name}, below the minimum of ${c.limit}`) : null;
+    }
+  }
+}
+
+/**
+ * Checks every alternative against the screening constraints, in alternative order.
+ * Min-score constraints read `scores` and are skipped while it is null (before
+ * scoring) or when no criterion carries their name.
+ */
+export function screenAlternatives(
+  alternatives: Alternative[],
+  criteria: Criterion[],
+  screening: Screening | undefined,
+  scores: ScoreMatrix | null
+): ScreeningResult[] {
+  const constraints = screening?.constraints ?? [];
+  return alternatives.map((alt) => {
+    const failures = constraints.flatMap((c) => {
+      const f = check(c, alt, screening, criteria, scores);
+      return f ? [{ constraintId: c.id, ...f }] : [];
+    });
+    return { id: alt.id, name: alt.name, failures, eliminated: failures.some((f) => f.eliminates) };
+  });
+}
+
+/** The alternatives no dealbreaker screens out. */
+export function shortlist(
+  alternatives: Alternative[],
+  criteria: Criterion[],
+  screening: Screening | undefined,
+  scores: ScoreMatrix | null
+): Alternative[] {
+  if (!screening?.constraints.length) return alternatives;
+  const out = new Set(screenAlternatives(alternatives, criteria, screening, scores).filter((r) => r.eliminated).map((r) => r.id));
+  return alternatives.filter((a) => !out.has(a.id));
+}
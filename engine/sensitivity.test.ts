@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { reweight, weightStability } from './sensitivity';
+
+const alternatives = [
+  { id: 'a', name: 'A' },
+  { id: 'b', name: 'B' },
+];
+
+const criteria = [
+  { id: 'x', name: 'X', weight: 0.5 },
+  { id: 'y', name: 'Y', weight: 0.5 },
+];
+
+describe('reweight', () => {
+  it('rescales the other criteria in proportion', () => {
+    const weights = reweight(
+      [
+        { id: 'x', name: 'X', weight: 2 },
+        { id: 'y', name: 'Y', weight: 3 },
+        { id: 'z', name: 'Z', weight: 1 },
+      ],
+      'x',
+      0.5
+    ).map((c) => c.weight);
+    expect(weights[0]).toBe(0.5);
+    expect(weights[1]).toBeCloseTo(0.375);
+    expect(weights[2]).toBeCloseTo(0.125);
+  });
+
+  it('splits the rest evenly when the others are all zero', () => {
+    const weights = reweight(
+      [
+        { id: 'x', name: 'X', weight: 1 },
+        { id: 'y', name: 'Y', weight: 0 },
+        { id: 'z', name: 'Z', weight: 0 },
+      ],
+      'x',
+      0.4
+    ).map((c) => c.weight);
+    expect(weights).toEqual([0.4, 0.3, 0.3]);
+  });
+
+  it('clamps the weight to 0–1', () => {
+    expect(reweight(criteria, 'x', 1.5).map((c) => c.weight)).toEqual([1, 0]);
+    expect(reweight(criteria, 'x', -1).map((c) => c.weight)).toEqual([0, 1]);
+  });
+});
+
+describe('weightStability', () => {
+  it('finds where the runner-up takes over', () => {
+    // A = 4 + 4w and B = 7 - 3w in X's share w, so A leads from w = 3/7; in Y's share v, A leads up to v = 4/7
+    const [x, y] = weightStability(alternatives, criteria, { a: { x: 8, y: 4 }, b: { x: 4, y: 7 } });
+    expect(x).toMatchObject({ criterionId: 'x', name: 'X', weight: 0.5, hi: 1, belowRival: 'B', aboveRival: null });
+    expect(x.lo).toBeCloseTo(3 / 7);
+    expect(y).toMatchObject({ criterionId: 'y', weight: 0.5, lo: 0, belowRival: null, aboveRival: 'B' });
+    expect(y.hi).toBeCloseTo(4 / 7);
+  });
+
+  it('reports weight as a share of the total', () => {
+    const weighted = [
+      { id: 'x', name: 'X', weight: 3 },
+      { id: 'y', name: 'Y', weight: 1 },
+    ];
+    const [x, y] = weightStability(alternatives, weighted, { a: { x: 8, y: 4 }, b: { x: 4, y: 7 } });
+    expect(x.weight).toBe(0.75);
+    expect(y.weight).toBe(0.25);
+  });
+
+  it('leaves the interval open when no weight changes the winner', () => {
+    const stability = weightStability(alternatives, criteria, { a: { x: 8, y: 8 }, b: { x: 4, y: 4 } });
+    for (const s of stability) expect(s).toMatchObject({ lo: 0, hi: 1, belowRival: null, aboveRival: null });
+  });
+
+  it('keeps the nearest crossing among several rivals', () => {
+    // In X's share w: A = 5 + 3w, B = 7 - 3w (crosses at 1/3), C = 9 - 7w (crosses at 0.4)
+    const [x] = weightStability(
+      [...alternatives, { id: 'c', name: 'C' }],
+      criteria,
+      { a: { x: 8, y: 5 }, b: { x: 4, y: 7 }, c: { x: 2, y: 9 } }
+    );
+    expect(x.belowRival).toBe('C');
+    expect(x.lo).toBeCloseTo(0.4);
+  });
+
+  it('is empty with fewer than two alternatives or criteria', () => {
+    expect(weightStability([alternatives[0]], criteria, { a: { x: 8, y: 4 } })).toEqual([]);
+    expect(weightStability(alternatives, [criteria[0]], { a: { x: 8 }, b: { x: 4 } })).toEqual([]);
+  });
+});
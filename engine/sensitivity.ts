@@ -0,0 +1,55 @@
+import { Alternative, Criterion } from '../types';
+import { calculateRankings } from './rankings';
+import { ScoreMatrix, WeightStability } from './types';
+
+/**
+ * Gives one criterion `weight` (0–1) of the total and rescales the others in proportion
+ * so all shares sum to 1; when the others are all zero they split the rest evenly.
+ */
+export function reweight(criteria: Criterion[], criterionId: string, weight: number): Criterion[] {
+  const w = Math.min(1, Math.max(0, weight));
+  const others = criteria.filter((c) => c.id !== criterionId);
+  const othersTotal = others.reduce((s, c) => s + (c.weight || 0), 0);
+  return criteria.map((c) =>
+    c.id === criterionId
+      ? { ...c, weight: w }
+      : { ...c, weight: (1 - w) * (othersTotal > 0 ? (c.weight || 0) / othersTotal : 1 / others.length) }
+  );
+}
+
+const scoreById = (rankings: { id: string; score: number }[]) => Object.fromEntries(rankings.map((r) => [r.id, r.score]));
+
+/**
+ * One-at-a-time weight sensitivity: for each criterion, the range of its weight over
+ * which the current top choice stays #1. Empty with fewer than two alternatives or criteria.
+ */
+export function weightStability(alternatives: Alternative[], criteria: Criterion[], scores: ScoreMatrix): WeightStability[] {
+  const rankings = calculateRankings(alternatives, criteria, scores);
+  if (rankings.length < 2 || criteria.length < 2) return [];
+  const total = criteria.reduce((s, c) => s + (c.weight || 0), 0);
+  const top = rankings[0];
+
+  return criteria.map((crit) => {
+    // Every weighted score is linear in the criterion's share, so its ends fix each rival's crossing point
+    const at0 = scoreById(calculateRankings(alternatives, reweight(criteria, crit.id, 0), scores));
+    const at1 = scoreById(calculateRankings(alternatives, reweight(criteria, crit.id, 1), scores));
+    let lo = 0;
+    let hi = 1;
+    let belowRival: string | null = null;
+    let aboveRival: string | null = null;
+    for (const rival of rankings.slice(1)) {
+      const lead0 = at0[top.id] - at0[rival.id];
+      const lead1 = at1[top.id] - at1[rival.id];
+      if (Math.abs(lead1 - lead0) < 1e-12) continue;
+      const crossing = lead0 / (lead0 - lead1);
+      if (lead1 > lead0 && crossing > lo) {
+        lo = crossing;
+        belowRival = rival.name;
+      } else if (lead1 < lead0 && crossing < hi) {
+        hi = crossing;
+        aboveRival = rival.name;
+      }
+    }
+    return { criterionId: crit.id, name: crit.name, weight: (crit.weight || 0) / total, lo, hi, belowRival, aboveRival };
+  });
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from 'vitest';
+import { monteCarlo, simulate } from './simulation';
+
+describe('monteCarlo', () => {
+  it('keeps the summary inside the range and ordered', () => {
+    const r = monteCarlo(0, 5, 10, 5000, 1);
+    expect(r.p10).toBeGreaterThanOrEqual(0);
+    expect(r.p10).toBeLessThanOrEqual(r.median);
+    expect(r.median).toBeLessThanOrEqual(r.p90);
+    expect(r.p90).toBeLessThanOrEqual(10);
+    expect(r.mean).toBeCloseTo(5, 0);
+  });
+
+  it('is reproducible for a given seed', () => {
+    expect(monteCarlo(-10, 0, 30, 2000, 42)).toEqual(monteCarlo(-10, 0, 30, 2000, 42));
+  });
+
+  it('swaps a reversed range', () => {
+    const r = monteCarlo(10, 5, 0, 2000, 7);
+    expect(r.p10).toBeLessThanOrEqual(r.p90);
+    expect(r).toEqual(monteCarlo(0, 5, 10, 2000, 7));
+  });
+
+  it('collapses to the single point when min equals max', () => {
+    const r = monteCarlo(10, 5, 10, 2000, 7);
+    expect(r).toMatchObject({ mean: 10, median: 10, p10: 10, p90: 10, probLoss: 0 });
+  });
+
+  it('clamps the mode into range', () => {
+    expect(monteCarlo(0, 50, 10, 2000, 3).p90).toBeLessThanOrEqual(10);
+  });
+
+  it('counts a negative point as a certain loss', () => {
+    expect(monteCarlo(-5, -5, -5).probLoss).toBe(1);
+  });
+});
+
+describe('simulate', () => {
+  it('summarises a normal distribution', () => {
+    const r = simulate({ kind: 'normal', mean: 100, sd: 10 }, 20000, 11);
+    expect(r.mean).toBeCloseTo(100, 0);
+    expect(r.p10).toBeCloseTo(87.2, 0);
+    expect(r.p90).toBeCloseTo(112.8, 0);
+    expect(r.trials).toBe(20000);
+    expect(r.seed).toBe(11);
+  });
+
+  it('reports the share of losses', () => {
+    const r = simulate({ kind: 'uniform', min: -1, max: 3 }, 20000, 5);
+    expect(r.probLoss).toBeCloseTo(0.25, 1);
+  });
+
+  it('is reproducible for a given seed', () => {
+    const d = { kind: 'pert', min: 0, mode: 2, max: 9 } as const;
+    expect(simulate(d, 1000, 9)).toEqual(simulate(d, 1000, 9));
+  });
+
+  it('returns an empty result for a distribution it cannot sample', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const r = simulate({ kind: 'normal', mean: 0, sd: -1 }, 100, 1);
+    expect(r).toEqual({ mean: 0, median: 0, p10: 0, p90: 0, probLoss: 0 });
+    error.mockRestore();
+  });
+});
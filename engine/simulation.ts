@@ -0,0 +1,200 @@
+import { CashFlowMetrics, DriverSensitivity, OutcomeDistribution, OutcomeHistogram, SimulationConvergence, SimulationResult } from '../types';
+import { checkDistribution, distributionRange, drawCashFlows, drawModel, sampler } from './distributions';
+import { cashFlowMetrics } from './cashflow';
+import { rankCorrelation } from './correlation';
+import { mulberry32, newSeed } from './random';
+import { ProgressCallback, SimulationInput } from './types';
+
+export const DEFAULT_TRIALS = 10000;
+export const HISTOGRAM_BINS = 40;
+
+const CONVERGENCE_BATCHES = 10;
+// Draws between progress reports
+const PROGRESS_INTERVAL = 5000;
+
+const EMPTY_RESULT: SimulationResult = { mean: 0, median: 0, p10: 0, p90: 0, probLoss: 0 };
+const EXACT: SimulationConvergence = { mean: 0, p10: 0, p90: 0, probLoss: 0 };
+
+function summarize(samples: number[]) {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const n = sorted.length;
+  return {
+    mean: sorted.reduce((acc, v) => acc + v, 0) / n,
+    median: sorted[Math.floor(n / 2)],
+    p10: sorted[Math.floor(n * 0.1)],
+    p90: sorted[Math.floor(n * 0.9)],
+    probLoss: sorted.filter((v) => v < 0).length / n,
+  };
+}
+
+// Splits the run into equal batches in draw order; the spread of each statistic
+// across batches estimates its standard error at the full trial count
+function convergence(samples: number[]): SimulationConvergence {
+  const size = Math.floor(samples.length / CONVERGENCE_BATCHES);
+  if (size < 2) return { ...EXACT };
+  const batches = Array.from({ length: CONVERGENCE_BATCHES }, (_, b) => summarize(samples.slice(b * size, (b + 1) * size)));
+  const margin = (key: keyof SimulationConvergence) => {
+    const values = batches.map((s) => s[key]);
+    const avg = values.reduce((a, v) => a + v, 0) / values.length;
+    const sd = Math.sqrt(values.reduce((a, v) => a + (v - avg) ** 2, 0) / (values.length - 1));
+    return (1.96 * sd) / Math.sqrt(CONVERGENCE_BATCHES);
+  };
+  return { mean: margin('mean'), p10: margin('p10'), p90: margin('p90'), probLoss: margin('probLoss') };
+}
+
+const at = (sorted: number[], q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+
+// Same indexing as summarize(), so cdf[10], cdf[50] and cdf[90] are exactly p10, median and p90
+const percentiles = (sorted: number[]) => Array.from({ length: 101 }, (_, k) => at(sorted, k / 100));
+
+function histogram(sorted: number[]): OutcomeHistogram {
+  const lo = at(sorted, 0.01);
+  const hi = at(sorted, 0.99);
+  const span = Math.max(hi - lo, 1e-9);
+  const bins = new Array(HISTOGRAM_BINS).fill(0);
+  for (const v of sorted) {
+    if (v < lo || v > hi) continue;
+    bins[Math.min(HISTOGRAM_BINS - 1, Math.floor(((v - lo) / span) * HISTOGRAM_BINS))] += 1 / sorted.length;
+  }
+  return { lo, hi, bins };
+}
+
+// Squared rank correlation with the outcome, normalised across drivers: the usual
+// "contribution to variance" a tornado chart shows
+function driverSensitivity(names: string[], columns: number[][], outcomes: number[]): DriverSensitivity[] {
+  const correlations = columns.map((c) => rankCorrelation(c, outcomes));
+  const total = correlations.reduce((sum, r) => sum + r * r, 0);
+  return names
+    .map((name, i) => ({ name, correlation: correlations[i], contribution: total > 0 ? correlations[i] ** 2 / total : 0 }))
+    .sort((a, b) => b.contribution - a.contribution);
+}
+
+/**
+ * Draws and summarizes in one pass; `samples` are the raw outcomes in draw order and
+ * `inputs` the model drivers or cash flow years behind them. Throws if the distribution can't be sampled.
+ */
+export function runSimulation(
+  distribution: OutcomeDistribution,
+  n: number,
+  seed: number,
+  onProgress?: ProgressCallback
+): { samples: number[]; inputs: SimulationInput[]; result: SimulationResult } {
+  const problem = checkDistribution(distribution);
+  if (problem) throw new Error(problem);
+  const random = mulberry32(seed);
+  let samples: number[];
+  let inputs: SimulationInput[] = [];
+  let drivers: DriverSensitivity[] | undefined;
+  let cashFlow: CashFlowMetrics | undefined;
+  if (distribution.kind === 'model') {
+    const drawn = drawModel(distribution, n, random, onProgress);
+    samples = drawn.outcomes;
+    inputs = distribution.drivers.map((d, j) => ({ name: d.name, values: drawn.drivers[j] }));
+    drivers = driverSensitivity(distribution.drivers.map((d) => d.name), drawn.drivers, samples);
+  } else if (distribution.kind === 'cashflow') {
+    const drawn = drawCashFlows(distribution, n, random, onProgress);
+    samples = drawn.outcomes;
+    inputs = drawn.flows.map((values, t) => ({ name: `year ${t} cash flow`, values }));
+    cashFlow = cashFlowMetrics(distribution.rate, drawn.flows);
+  } else {
+    const draw = sampler(distribution, random);
+    samples = new Array(n);
+    for (let i = 0; i < n; i++) {
+      samples[i] = draw();
+      if (onProgress && (i + 1) % PROGRESS_INTERVAL === 0) onProgress((i + 1) / n);
+    }
+  }
+  onProgress?.(1);
+  const sorted = [...samples].sort((a, b) => a - b);
+  const result: SimulationResult = {
+    ...summarize(samples),
+    seed,
+    trials: n,
+    convergence: convergence(samples),
+    distribution,
+    histogram: histogram(sorted),
+    cdf: percentiles(sorted),
+  };
+  if (drivers) result.drivers = drivers;
+  if (cashFlow) result.cashFlow = cashFlow;
+  return { samples, inputs, result };
+}
+
+/**
+ * Draws `n` outcomes from any supported distribution. Runs are reproducible:
+ * the same distribution, trial count and seed always give the same result.
+ */
+export function simulate(
+  distribution: OutcomeDistribution,
+  n = DEFAULT_TRIALS,
+  seed = newSeed(),
+  onProgress?: ProgressCallback
+): SimulationResult {
+  try {
+    return runSimulation(distribution, n, seed, onProgress).result;
+  } catch (e) {
+    console.error('Monte Carlo error:', e);
+    return { ...EMPTY_RESULT };
+  }
+}
+
+/**
+ * Samples `n` outcomes from a triangular(min, mode, max) distribution.
+ * A reversed range is swapped and `mode` is clamped into it; when `min === max`
+ * there is no spread to sample, so every statistic is that single point.
+ */
+export function monteCarlo(
+  min: number,
+  mode: number,
+  max: number,
+  n = DEFAULT_TRIALS,
+  seed = newSeed()
+): SimulationResult {
+  if (typeof min !== 'number' || typeof mode !== 'number' || typeof max !== 'number')
+    return { ...EMPTY_RESULT };
+  if (min > max) [min, max] = [max, min];
+  if (min === max)
+    return { mean: min, median: min, p10: min, p90: min, probLoss: min < 0 ? 1 : 0, seed, trials: n, convergence: { ...EXACT } };
+  return simulate({ kind: 'triangular', min, mode: Math.min(max, Math.max(min, mode)), max }, n, seed);
+}
+
+/**
+ * Outcome at percentile `p` (0–100), interpolated between whole percentiles.
+ * Null for results saved before the CDF was kept.
+ */
+export function percentile(result: SimulationResult, p: number): number | null {
+  const cdf = result.cdf;
+  if (!cdf) return null;
+  const k = Math.min(100, Math.max(0, p));
+  const i = Math.min(99, Math.floor(k));
+  return cdf[i] + (cdf[i + 1] - cdf[i]) * (k - i);
+}
+
+/**
+ * Probability the outcome is above `target`, read off the CDF to within a percentile.
+ * Null for results saved before the CDF was kept.
+ */
+export function probExceeds(result: SimulationResult, target: number): number | null {
+  const cdf = result.cdf;
+  if (!cdf) return null;
+  if (target < cdf[0]) return 1;
+  if (target >= cdf[100]) return 0;
+  // Last percentile at or below the target; flat runs (point masses) count as below
+  let k = 0;
+  while (k < 99 && cdf[k + 1] <= target) k++;
+  const step = cdf[k + 1] - cdf[k];
+  const below = (k + (step > 0 ? (target - cdf[k]) / step : 0)) / 100;
+  return Math.min(1, Math.max(0, 1 - below));
+}
+
+/**
+ * True when every 95% margin is within `tolerance` of the outcome range,
+ * i.e. more trials would not visibly move the reported numbers.
+ */
+export function isConverged(result: SimulationResult, tolerance = 0.01): boolean {
+  const c = result.convergence;
+  if (!c) return false;
+  const [min, max] = result.distribution ? distributionRange(result.distribution) : [result.p10, result.p90];
+  const span = Math.max(max - min, 1e-9);
+  return c.mean / span <= tolerance && c.p10 / span <= tolerance && c.p90 / span <= tolerance && c.probLoss <= tolerance;
+}
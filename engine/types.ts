@@ -0,0 +1,85 @@
+import { AggregationMethod, Alternative } from '../types';
+
+/** Scores keyed by alternative id, then criterion id, each on a 1–10 scale. */
+export type ScoreMatrix = Record<string, Record<string, number>>;
+
+/**
+ * An alternative with its score on a 0–10 scale, as returned by `calculateRankings`
+ * or `rankWith`. Only weighted-sum scores are weighted averages of the 1–10 scores.
+ */
+export type Ranking = Alternative & { score: number };
+
+/** The same alternatives ranked by one aggregation method, best first. */
+export interface MethodRanking {
+  method: AggregationMethod;
+  rankings: Ranking[];
+}
+
+export interface ScoringInsight {
+  type: 'clustered' | 'dominant' | 'dominated' | 'inflated';
+  message: string;
+}
+
+/** How often an alternative lands on each rank when scores are drawn from their ranges. */
+export interface RankAcceptability {
+  id: string;
+  name: string;
+  /** Share of trials at each rank: `ranks[0]` is P(#1), `ranks[1]` P(#2), and so on. */
+  ranks: number[];
+  expectedRank: number;
+}
+
+/** An alternative no better than another on any criterion and worse on at least one. */
+export interface DominatedAlternative {
+  id: string;
+  name: string;
+  dominatedBy: { id: string; name: string }[];
+}
+
+/** Pareto dominance across the criteria: the efficient set by id, and everything dominated. */
+export interface ParetoResult {
+  efficient: string[];
+  dominated: DominatedAlternative[];
+}
+
+/** One constraint an alternative fails, with the reason in words. */
+export interface ConstraintFailure {
+  constraintId: string;
+  reason: string;
+  /** A failed dealbreaker; an unchecked or non-dealbreaker constraint only flags. */
+  eliminates: boolean;
+}
+
+/** An alternative's screening outcome: screened out when any failure eliminates it. */
+export interface ScreeningResult {
+  id: string;
+  name: string;
+  failures: ConstraintFailure[];
+  eliminated: boolean;
+}
+
+/** Receives the completed share of a simulation run, from 0 to 1. */
+export type ProgressCallback = (fraction: number) => void;
+
+/** One uncertain input of a run, a model driver or a cash flow year, with its draws in trial order. */
+export interface SimulationInput {
+  name: string;
+  values: number[];
+}
+
+/**
+ * How far one criterion's share of the total weight can move, the other weights
+ * rescaled in proportion, before the top choice loses first place.
+ */
+export interface WeightStability {
+  criterionId: string;
+  name: string;
+  /** Current share of the total weight, 0–1. */
+  weight: number;
+  /** Lowest and highest share at which the top choice is still #1; 0 and 1 when unbounded. */
+  lo: number;
+  hi: number;
+  /** Who takes first place just below `lo` and just above `hi`; null at an unbounded end. */
+  belowRival: string | null;
+  aboveRival: string | null;
+}
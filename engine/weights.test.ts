@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { describeWeighting, rankOrderCentroid, rankSumWeights, swingWeights } from './weights';
+
+const sum = (xs: number[]) => xs.reduce((s, x) => s + x, 0);
+
+describe('rankOrderCentroid', () => {
+  it.each([
+    [1, [1]],
+    [2, [3 / 4, 1 / 4]],
+    [3, [11 / 18, 5 / 18, 2 / 18]],
+    [4, [25 / 48, 13 / 48, 7 / 48, 3 / 48]],
+  ])('weights %i ranked criteria', (n, expected) => {
+    const weights = rankOrderCentroid(n);
+    expect(weights).toHaveLength(n);
+    weights.forEach((w, i) => expect(w).toBeCloseTo(expected[i]));
+  });
+
+  it('sums to 1 and falls with rank', () => {
+    const weights = rankOrderCentroid(7);
+    expect(sum(weights)).toBeCloseTo(1);
+    for (let i = 1; i < weights.length; i++) expect(weights[i]).toBeLessThan(weights[i - 1]);
+  });
+
+  it('is empty for no criteria', () => {
+    expect(rankOrderCentroid(0)).toEqual([]);
+  });
+});
+
+describe('rankSumWeights', () => {
+  it.each([
+    [1, [1]],
+    [2, [2 / 3, 1 / 3]],
+    [3, [3 / 6, 2 / 6, 1 / 6]],
+    [4, [0.4, 0.3, 0.2, 0.1]],
+  ])('weights %i ranked criteria', (n, expected) => {
+    const weights = rankSumWeights(n);
+    expect(weights).toHaveLength(n);
+    weights.forEach((w, i) => expect(w).toBeCloseTo(expected[i]));
+  });
+
+  it('sums to 1', () => {
+    expect(sum(rankSumWeights(9))).toBeCloseTo(1);
+  });
+});
+
+describe('swingWeights', () => {
+  it('normalises the points to shares', () => {
+    expect(swingWeights([100, 60, 40])).toEqual([0.5, 0.3, 0.2]);
+  });
+
+  it('treats negative or missing points as zero', () => {
+    expect(swingWeights([100, -20, NaN, 100])).toEqual([0.5, 0, 0, 0.5]);
+  });
+
+  it('is null when every swing is worth nothing', () => {
+    expect(swingWeights([0, 0])).toBeNull();
+    expect(swingWeights([])).toBeNull();
+  });
+});
+
+describe('describeWeighting', () => {
+  it('cites the consistency ratio for AHP when there is one', () => {
+    expect(describeWeighting({ method: 'ahp', consistencyRatio: 0.046 })).toBe(
+      'Weights were derived from pairwise comparisons with the analytic hierarchy process (Saaty, 1980), consistency ratio 0.05.'
+    );
+    expect(describeWeighting({ method: 'ahp' })).toMatch(/\(Saaty, 1980\)\.$/);
+  });
+
+  it.each([
+    ['manual', /directly as percentages/],
+    ['swing', /von Winterfeldt & Edwards, 1986/],
+    ['rank-order-centroid', /Barron & Barrett, 1996/],
+    ['rank-sum', /Stillwell, Seaver & Edwards, 1981/],
+  ] as const)('cites the %s method', (method, citation) => {
+    expect(describeWeighting({ method })).toMatch(citation);
+  });
+});
@@ -0,0 +1,51 @@
+import { WeightElicitation, WeightMethod } from '../types';
+
+export const WEIGHT_METHOD_LABELS: Record<WeightMethod, string> = {
+  manual: 'Direct percentages',
+  ahp: 'Pairwise comparison (AHP)',
+  swing: 'Swing weighting',
+  'rank-order-centroid': 'Rank-order centroid',
+  'rank-sum': 'Rank sum',
+};
+
+/** Rank-order centroid weights for n ranked criteria, most important first: w_k = (1/n) Σ_{i=k..n} 1/i. */
+export function rankOrderCentroid(n: number): number[] {
+  return Array.from({ length: n }, (_, k) => {
+    let sum = 0;
+    for (let i = k + 1; i <= n; i++) sum += 1 / i;
+    return sum / n;
+  });
+}
+
+/** Rank-sum weights for n ranked criteria, most important first: proportional to n, n - 1, …, 1. */
+export function rankSumWeights(n: number): number[] {
+  return Array.from({ length: n }, (_, k) => (2 * (n - k)) / (n * (n + 1)));
+}
+
+/**
+ * Swing weights from points on a 0–100 scale, where the most valued worst-to-best swing
+ * gets 100 and the others are rated against it. Null when every swing is worth nothing.
+ */
+export function swingWeights(points: number[]): number[] | null {
+  const total = points.reduce((s, p) => s + Math.max(0, p || 0), 0);
+  return total > 0 ? points.map((p) => Math.max(0, p || 0) / total) : null;
+}
+
+/** The memo's citation for how weights were elicited, e.g. "Weights are rank-order centroid weights …". */
+export function describeWeighting(w: WeightElicitation): string {
+  switch (w.method) {
+    case 'manual':
+      return 'Weights were set directly as percentages of 100.';
+    case 'ahp':
+      return (
+        'Weights were derived from pairwise comparisons with the analytic hierarchy process (Saaty, 1980)' +
+        (w.consistencyRatio != null ? `, consistency ratio ${w.consistencyRatio.toFixed(2)}.` : '.')
+      );
+    case 'swing':
+      return 'Weights were elicited by swing weighting (von Winterfeldt & Edwards, 1986): each criterion was valued by how much moving it from its worst to its best level matters, relative to the most valued swing.';
+    case 'rank-order-centroid':
+      return 'Weights are rank-order centroid weights computed from the importance ranking alone (Barron & Barrett, 1996).';
+    case 'rank-sum':
+      return 'Weights are rank-sum weights computed from the importance ranking alone (Stillwell, Seaver & Edwards, 1981).';
+  }
+}
@@ -4,6 +4,9 @@ import ReactDOM from 'react-dom/client'
 import { BrowserRouter, Routes, Route } from 'react-router-dom'
 import App from './App'
 import ArticlePage from './components/ArticlePage'
+import DecisionLibrary from './components/DecisionLibrary'
+import LabPage from './components/LabPage'
+import SharedMemoPage from './components/SharedMemoPage'
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
@@ -11,6 +14,9 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
       <Routes>
         <Route path="/" element={<App />} />
         <Route path="/journal/:slug" element={<ArticlePage />} />
+        <Route path="/lab" element={<DecisionLibrary />} />
+        <Route path="/lab/:decisionId" element={<LabPage />} />
+        <Route path="/memo" element={<SharedMemoPage />} />
       </Routes>
     </BrowserRouter>
   </React.StrictMode>,
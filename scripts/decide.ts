@@ -0,0 +1,452 @@
+// ══════════════════════════════════════
+// COMMAND-LINE DECISION RUNNER
+// ══════════════════════════════════════
+// Runs a decision described in a YAML or JSON file through the same ranking,
+// simulation and memo code as the Decision Lab, fully offline.
+//
+//   npm run decide -- scripts/example-decision.yaml
+//   npm run decide -- decision.json --format json --out result.json
+//   npm run decide -- decision.yaml --seed 1234 --trials 50000
+//   GEMINI_API_KEY=... npm run decide -- decision.yaml --refine
+//
+// The input is either an exported .decision.json file or the shorthand shown
+// in scripts/example-decision.yaml, where everything is referenced by name.
+import { readFileSync, writeFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import {
+  DecisionState,
+  DiscreteScenario,
+  DistributionKind,
+  OutcomeDistribution,
+  OutcomeUnit,
+  Risk,
+  SimpleDistribution,
+  Screening,
+  WeightMethod,
+  AggregationMethod,
+} from '../types';
+import { DECISION_TEMPLATES } from '../decisionTemplates';
+import {
+  DECISION_FILE_FORMAT,
+  FieldError,
+  parseDecisionFile,
+  validateDecision,
+} from '../services/decisionFile';
+import {
+  parseNum,
+  parseUnit,
+  DEFAULT_UNIT,
+  rankDecision,
+  simulateAlternatives,
+  newSeed,
+  checkDistribution,
+  summarizeEstimates,
+  DISTRIBUTION_LABELS,
+  isValidSeed,
+  DEFAULT_TRIALS,
+  classifyRisk,
+  detectScoringPatterns,
+  rankAcceptability,
+  rankOrderCentroid,
+  rankSumWeights,
+  WEIGHT_METHOD_LABELS,
+  AGGREGATION_METHODS,
+  compareMethods,
+  screenAlternatives,
+  shortlist,
+  buildMemo,
+  memoToMarkdown,
+} from '../engine';
+import { generateJson, refineMemoPrompt } from '../api/gemini';
+
+const USAGE = `Usage: decide <file.yaml|file.json> [--format markdown|json] [--out <path>] [--seed <n>] [--trials <n>] [--refine]
+
+  --format   markdown (default) prints the memo; json prints rankings, simulation, comparison, insights, rank acceptability and memo
+  --out      write to a file instead of stdout
+  --seed     simulation seed, to reproduce an earlier run (default: random, printed in the memo)
+  --trials   simulation trial count (default: ${DEFAULT_TRIALS})
+  --refine   polish the memo with Gemini (needs GEMINI_API_KEY; everything else runs offline)`;
+
+const REVERSIBILITY_LABELS: Record<string, string> = { easy: 'High', moderate: 'Moderate', hard: 'Low' };
+const LEVELS = ['low', 'medium', 'high'];
+
+interface Options {
+  file: string;
+  format: 'markdown' | 'json';
+  out: string | null;
+  seed: number | undefined;
+  trials: number;
+  refine: boolean;
+}
+
+class UsageError extends Error {}
+
+function parseArgs(argv: string[]): Options {
+  const opts: Options = { file: '', format: 'markdown', out: null, seed: undefined, trials: DEFAULT_TRIALS, refine: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--format') {
+      const value = argv[++i];
+      if (value !== 'markdown' && value !== 'json') throw new UsageError('--format must be markdown or json');
+      opts.format = value;
+    } else if (arg === '--out') {
+      opts.out = argv[++i] || null;
+      if (!opts.out) throw new UsageError('--out needs a path');
+    } else if (arg === '--seed') {
+      opts.seed = Number(argv[++i]);
+      if (!isValidSeed(opts.seed)) throw new UsageError('--seed must be a whole number between 0 and 4294967295');
+    } else if (arg === '--trials') {
+      opts.trials = Number(argv[++i]);
+      if (!Number.isInteger(opts.trials) || opts.trials < 100) throw new UsageError('--trials must be a whole number of at least 100');
+    } else if (arg === '--refine') {
+      opts.refine = true;
+    } else if (arg.startsWith('--')) {
+      throw new UsageError(`Unknown option ${arg}`);
+    } else if (!opts.file) {
+      opts.file = arg;
+    } else {
+      throw new UsageError(`Unexpected argument ${arg}`);
+    }
+  }
+  if (!opts.file) throw new UsageError('No input file given');
+  return opts;
+}
+
+const slug = (s: string) =>
+  s
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'item';
+
+const amount = (v: unknown, unit?: OutcomeUnit) => (typeof v === 'number' ? v : typeof v === 'string' ? parseNum(v, unit) : NaN);
+
+// Rates may be written as 8%, 8 or 0.08
+const rate = (v: unknown) => {
+  const n = typeof v === 'string' ? parseFloat(v) : typeof v === 'number' ? v : NaN;
+  return (typeof v === 'string' && v.trim().endsWith('%')) || n >= 1 ? n / 100 : n;
+};
+
+// Expands the by-name shorthand into a DecisionState; ids are derived from names
+function fromShorthand(input: any): { decision: DecisionState | null; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+  const err = (field: string, message: string) => errors.push({ field, message });
+
+  const alternatives = (Array.isArray(input.alternatives) ? input.alternatives : []).map((a: any) => {
+    const name = String(typeof a === 'string' ? a : a?.name ?? '').trim();
+    return { id: slug(name), name };
+  });
+  if (!Array.isArray(input.alternatives)) err('alternatives', 'must be a list of names');
+
+  const method = String(input.weighting || 'manual') as WeightMethod;
+  if (!WEIGHT_METHOD_LABELS[method]) err('weighting', `must be one of ${Object.keys(WEIGHT_METHOD_LABELS).join(', ')}`);
+  // Rank-based methods compute weights from the order criteria are listed in
+  const rankWeights =
+    method === 'rank-order-centroid' ? rankOrderCentroid : method === 'rank-sum' ? rankSumWeights : null;
+
+  const aggregation = String(input.aggregation || 'weighted-sum') as AggregationMethod;
+  if (!AGGREGATION_METHODS.includes(aggregation)) err('aggregation', `must be one of ${AGGREGATION_METHODS.join(', ')}`);
+
+  const rawCriteria = Array.isArray(input.criteria) ? input.criteria : [];
+  if (!Array.isArray(input.criteria)) err('criteria', rankWeights ? 'must be a list of names, most important first' : 'must be a list of { name, weight }');
+  const totalWeight = rawCriteria.reduce((s: number, c: any) => s + (Number(c?.weight) || 0), 0);
+  if (rawCriteria.length && !rankWeights && totalWeight <= 0) err('criteria', 'weights must add up to more than zero');
+  const ranked = rankWeights?.(rawCriteria.length);
+  // Weights may be written as percentages or fractions; either way they are normalised to sum to 1
+  const criteria = rawCriteria.map((c: any, i: number) => {
+    const name = String(typeof c === 'string' ? c : c?.name ?? '').trim();
+    return {
+      id: slug(name),
+      name,
+      weight: ranked ? ranked[i] : totalWeight > 0 ? (Number(c?.weight) || 0) / totalWeight : 0,
+    };
+  });
+
+  const altId = (name: string) => alternatives.find((a) => a.name === name)?.id;
+  const critId = (name: string) => criteria.find((c) => c.name === name)?.id;
+  const scores: DecisionState['scores'] = {};
+  const scoreRanges: DecisionState['scoreRanges'] = {};
+  for (const [altName, row] of Object.entries(input.scores || {})) {
+    const a = altId(altName);
+    if (!a) {
+      err(`scores.${altName}`, 'is not one of the alternatives');
+      continue;
+    }
+    scores[a] = {};
+    for (const [critName, value] of Object.entries((row as Record<string, unknown>) || {})) {
+      const c = critId(critName);
+      if (!c) err(`scores.${altName}.${critName}`, 'is not one of the criteria');
+      // A [low, high] pair is a score range; its midpoint stands in as the score
+      else if (Array.isArray(value) && value.length === 2) {
+        const [low, high] = value.map(Number);
+        scores[a][c] = (low + high) / 2;
+        scoreRanges[a] = { ...scoreRanges[a], [c]: { low, high } };
+      } else scores[a][c] = value as number;
+    }
+  }
+
+  // Each constraint is a name with max, min, required or min-score (on a criterion
+  // named by `criterion`), values keyed by alternative, and dealbreaker (default true)
+  const screening: Screening = { constraints: [], values: {} };
+  (Array.isArray(input.constraints) ? input.constraints : []).forEach((raw: any, i: number) => {
+    const field = `constraints[${i}]`;
+    const kind = (['max', 'min', 'required', 'min-score'] as const).find((k) => raw?.[k] != null);
+    if (!kind) return err(field, 'needs one of max, min, required or min-score');
+    const label = String(kind === 'min-score' ? raw.criterion ?? '' : raw.name ?? '').trim();
+    if (kind === 'min-score' && !critId(label)) err(`${field}.criterion`, 'is not one of the criteria');
+    const id = `c${i + 1}`;
+    const unit = raw.unit != null ? parseUnit(String(raw.unit)) : undefined;
+    screening.constraints.push({
+      id,
+      kind,
+      label,
+      ...(kind !== 'required' && { limit: amount(raw[kind], unit) }),
+      ...(unit && { unit }),
+      dealbreaker: raw.dealbreaker !== false,
+    });
+    for (const [altName, v] of Object.entries(raw.values || {})) {
+      const a = altId(altName);
+      if (!a) {
+        err(`${field}.values.${altName}`, 'is not one of the alternatives');
+        continue;
+      }
+      const value = kind === 'required' ? v === true || /^(yes|true)$/i.test(String(v)) : amount(v, unit);
+      screening.values[a] = { ...screening.values[a], [id]: value };
+    }
+  });
+
+  const risks: Risk[] = (Array.isArray(input.risks) ? input.risks : []).map((r: any) => {
+    const description = String(typeof r === 'string' ? r : r?.description ?? '');
+    const level = (v: unknown) => (LEVELS.includes(String(v).toLowerCase()) ? String(v).toLowerCase() : 'medium');
+    return {
+      description,
+      theme: r?.theme || classifyRisk(description),
+      likelihood: level(r?.likelihood),
+      impact: level(r?.impact),
+      mitigation: r?.mitigation || '',
+    } as Risk;
+  });
+
+  let template = null;
+  if (input.template) {
+    template = DECISION_TEMPLATES.find((t) => t.id === input.template) || null;
+    if (!template) err('template', `must be one of ${DECISION_TEMPLATES.map((t) => t.id).join(', ')}`);
+  }
+
+  let unit = DEFAULT_UNIT;
+  if (input.unit != null) {
+    if (typeof input.unit === 'string' && input.unit.trim()) unit = parseUnit(input.unit);
+    else err('unit', 'must be a currency code (EUR), a time period (weeks), count, percent or a label');
+  }
+
+  const reversibility = String(input.reversibility || '');
+  if (reversibility && !REVERSIBILITY_LABELS[reversibility])
+    err('reversibility', 'must be easy, moderate or hard');
+
+  const decision: DecisionState = {
+    statement: String(input.statement || ''),
+    objectives: String(input.objectives || ''),
+    alternatives,
+    screening,
+    criteria,
+    weighting: { method },
+    scores,
+    scoreRanges,
+    aggregation,
+    mcResult: null,
+    risks,
+    topChoice: null,
+    template,
+    comparison: null,
+    unit,
+    meta: {
+      threshold: input.threshold == null ? 0 : amount(input.threshold, unit),
+      reversibility,
+      reversibilityLabel: REVERSIBILITY_LABELS[reversibility] || '',
+    },
+  };
+
+  errors.push(...validateDecision(decision, 'input'));
+  return { decision: errors.length ? null : decision, errors };
+}
+
+const ESTIMATE_KEYS = ['distribution', 'worst', 'likely', 'best', 'mean', 'sd', 'median', 'p90', 'scenarios', 'formula', 'years'];
+
+// Maps the shorthand estimate fields onto a distribution; amounts may be written like "$250k" and are
+// read in the decision's unit, except model drivers, which are quantities of their own
+function toDistribution(est: any, unit?: OutcomeUnit): OutcomeDistribution {
+  const kind: DistributionKind = est.distribution || 'triangular';
+  switch (kind) {
+    case 'triangular':
+    case 'pert':
+      return { kind, min: amount(est.worst, unit), mode: amount(est.likely, unit), max: amount(est.best, unit) };
+    case 'uniform':
+      return { kind, min: amount(est.worst, unit), max: amount(est.best, unit) };
+    case 'normal':
+      return { kind, mean: amount(est.mean, unit), sd: amount(est.sd, unit) };
+    case 'lognormal':
+      return { kind, median: amount(est.median, unit), p90: amount(est.p90, unit) };
+    case 'discrete': {
+      const scenarios = (Array.isArray(est.scenarios) ? est.scenarios : []).map((sc: any) => ({
+        label: String(sc?.label ?? ''),
+        value: amount(sc?.value, unit),
+        probability: Number(sc?.probability),
+      }));
+      // Probabilities may be written as percentages
+      const total = scenarios.reduce((sum: number, sc: DiscreteScenario) => sum + sc.probability, 0);
+      if (total > 1.5) scenarios.forEach((sc: DiscreteScenario) => (sc.probability /= 100));
+      return { kind, scenarios };
+    }
+    case 'model':
+      // Drivers are keyed by name, each with its own estimate; correlations are { between: [a, b], rho }
+      return {
+        kind,
+        formula: String(est.formula ?? ''),
+        drivers: Object.entries(est.drivers || {}).map(([name, driver]) => ({
+          name,
+          distribution: toDistribution(driver) as SimpleDistribution,
+        })),
+        correlations: (Array.isArray(est.correlations) ? est.correlations : []).map((c: any) => ({
+          a: String(c?.between?.[0] ?? ''),
+          b: String(c?.between?.[1] ?? ''),
+          rho: Number(c?.rho),
+        })),
+      };
+    case 'cashflow':
+      // One estimate per year, year 0 (now) first
+      return {
+        kind,
+        rate: rate(est.rate),
+        flows: (Array.isArray(est.years) ? est.years : []).map((year: any) => toDistribution(year, unit) as SimpleDistribution),
+      };
+    default:
+      throw new UsageError(`estimates.distribution must be one of ${Object.keys(DISTRIBUTION_LABELS).join(', ')}`);
+  }
+}
+
+// Estimates describe the winner's outcome directly, or any number of alternatives in a
+// map keyed by name; with more than one, every listed alternative is simulated and compared
+function simulateOutcomes(decision: DecisionState, estimates: any, opts: Options): FieldError[] {
+  const rankings = rankDecision(decision);
+  const top = rankings[0];
+  if (!top || estimates == null) return [];
+  if (typeof estimates !== 'object' || Array.isArray(estimates))
+    return [{ field: 'estimates', message: 'must be an estimate or a map of estimates keyed by alternative name' }];
+  const byName: Record<string, any> = ESTIMATE_KEYS.some((k) => k in estimates) ? { [top.name]: estimates } : estimates;
+  if (!byName[top.name])
+    return [{ field: 'estimates', message: `have no entry for ${top.name}, the top-ranked choice, so nothing can be simulated` }];
+
+  const errors: FieldError[] = [];
+  // Estimates for a screened-out alternative are not an error; it is just not simulated
+  for (const name of Object.keys(byName)) {
+    if (!decision.alternatives.some((a) => a.name === name)) errors.push({ field: `estimates.${name}`, message: 'is not one of the alternatives' });
+  }
+  const entries = rankings.filter((r) => byName[r.name]).flatMap((r) => {
+    const field = byName === estimates ? `estimates.${r.name}` : 'estimates';
+    let distribution: OutcomeDistribution;
+    try {
+      distribution = toDistribution(byName[r.name], decision.unit);
+    } catch (e: any) {
+      errors.push({ field: `${field}.distribution`, message: e.message.replace(/^estimates\.distribution /, '') });
+      return [];
+    }
+    const problem = checkDistribution(distribution);
+    if (problem) errors.push({ field, message: `are invalid: ${problem}` });
+    return [{ id: r.id, name: r.name, distribution }];
+  });
+  if (errors.length) return errors;
+
+  const { result, comparison } = simulateAlternatives(entries, opts.trials, opts.seed ?? newSeed());
+  decision.topChoice = { id: top.id, name: top.name, ...summarizeEstimates(entries[0].distribution) };
+  decision.mcResult = result;
+  decision.comparison = comparison;
+  return [];
+}
+
+function readInput(file: string): any {
+  const text = readFileSync(file, 'utf8');
+  return extname(file).toLowerCase() === '.json' ? JSON.parse(text) : parseYaml(text);
+}
+
+function fail(errors: FieldError[]): never {
+  console.error('Decision input is invalid:');
+  for (const e of errors) console.error(`  ${e.field} ${e.message}`);
+  process.exit(1);
+}
+
+async function main() {
+  let opts: Options;
+  try {
+    opts = parseArgs(process.argv.slice(2));
+  } catch (e: any) {
+    console.error(`${e.message}\n\n${USAGE}`);
+    process.exit(2);
+  }
+
+  let input: any;
+  try {
+    input = readInput(opts.file);
+  } catch (e: any) {
+    fail([{ field: opts.file, message: `could not be read: ${e.message}` }]);
+  }
+  if (!input || typeof input !== 'object') fail([{ field: opts.file, message: 'must describe a decision object' }]);
+
+  let decision: DecisionState;
+  if (input.format === DECISION_FILE_FORMAT || Array.isArray(input.alternatives) && typeof input.alternatives[0]?.id === 'string') {
+    const parsed = parseDecisionFile(JSON.stringify(input));
+    if (!parsed.decision) fail(parsed.errors);
+    decision = parsed.decision;
+  } else {
+    const parsed = fromShorthand(input);
+    if (!parsed.decision) fail(parsed.errors);
+    decision = parsed.decision;
+    const simErrors = simulateOutcomes(decision, input.estimates, opts);
+    if (simErrors.length) fail(simErrors);
+  }
+
+  let markdown = memoToMarkdown(buildMemo(decision));
+  if (opts.refine) {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      console.error('--refine needs GEMINI_API_KEY to be set');
+      process.exit(1);
+    }
+    const result = await generateJson(refineMemoPrompt(markdown), apiKey);
+    markdown = (result?.refined || markdown).trim() + '\n';
+  }
+
+  const rankings = rankDecision(decision);
+  const pool = shortlist(decision.alternatives, decision.criteria, decision.screening, decision.scores);
+  const output =
+    opts.format === 'json'
+      ? JSON.stringify(
+          {
+            decision,
+            screening: screenAlternatives(decision.alternatives, decision.criteria, decision.screening, decision.scores),
+            rankings,
+            simulation: decision.mcResult,
+            comparison: decision.comparison,
+            methods: compareMethods(pool, decision.criteria, decision.scores),
+            insights: detectScoringPatterns(rankings, pool, decision.criteria, decision.scores, decision.aggregation),
+            acceptability: rankAcceptability(
+              pool,
+              decision.criteria,
+              decision.scores,
+              decision.scoreRanges,
+              decision.aggregation
+            ),
+            memo: markdown,
+          },
+          null,
+          2
+        ) + '\n'
+      : markdown;
+
+  if (opts.out) writeFileSync(opts.out, output);
+  else process.stdout.write(output);
+}
+
+main().catch((e) => {
+  console.error(e.message || e);
+  process.exit(1);
+});
@@ -0,0 +1,473 @@
+import { DecisionState, DecisionTemplate } from '../types';
+import { isValidSeed, checkDistribution, DEFAULT_UNIT, TIME_PERIODS, WEIGHT_METHOD_LABELS, AGGREGATION_METHODS, EMPTY_SCREENING } from '../engine';
+// ══════════════════════════════════════
+// VERSIONED DECISION DOCUMENTS
+// ══════════════════════════════════════
+export const DECISION_FILE_FORMAT = 'yellowlights.decision';
+export const DECISION_SCHEMA_VERSION = 8;
+
+export interface DecisionFile {
+  format: typeof DECISION_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  decision: DecisionState;
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export interface DecisionFileResult {
+  decision: DecisionState | null;
+  errors: FieldError[];
+  migratedFrom: number | null;
+  // When the file or share link was exported; absent for bare decisions or an unreadable date
+  exportedAt?: Date;
+}
+
+const rejected = (errors: FieldError[]): DecisionFileResult => ({ decision: null, errors, migratedFrom: null });
+
+// Each entry upgrades a document from version N to N + 1
+const MIGRATIONS: Record<number, (doc: any) => any> = {
+  // v0: a bare DecisionState with no envelope
+  0: (doc) => ({ format: DECISION_FILE_FORMAT, version: 1, exportedAt: new Date(0).toISOString(), decision: doc }),
+  // v2: decisions record the template they were framed with
+  1: (doc) => ({ ...doc, version: 2, decision: isObject(doc.decision) ? { template: null, ...doc.decision } : doc.decision }),
+  // v3: decisions can carry a simulation of every alternative
+  2: (doc) => ({ ...doc, version: 3, decision: isObject(doc.decision) ? { comparison: null, ...doc.decision } : doc.decision }),
+  // v4: outcomes carry a unit; everything before was in dollars
+  3: (doc) => ({ ...doc, version: 4, decision: isObject(doc.decision) ? { unit: DEFAULT_UNIT, ...doc.decision } : doc.decision }),
+  // v5: scores can carry a low–high range
+  4: (doc) => ({ ...doc, version: 5, decision: isObject(doc.decision) ? { scoreRanges: {}, ...doc.decision } : doc.decision }),
+  // v6: decisions record how their weights were elicited; earlier ones were direct percentages
+  5: (doc) => ({ ...doc, version: 6, decision: isObject(doc.decision) ? { weighting: { method: 'manual' }, ...doc.decision } : doc.decision }),
+  // v7: decisions pick how scores are aggregated; earlier ones were ranked by weighted sum
+  6: (doc) => ({ ...doc, version: 7, decision: isObject(doc.decision) ? { aggregation: 'weighted-sum', ...doc.decision } : doc.decision }),
+  // v8: alternatives can be screened against must-have constraints before scoring
+  7: (doc) => ({ ...doc, version: 8, decision: isObject(doc.decision) ? { screening: EMPTY_SCREENING, ...doc.decision } : doc.decision }),
+};
+
+const RISK_THEMES = ['execution', 'market', 'technical', 'organizational', 'financial', 'other'];
+const LEVELS = ['low', 'medium', 'high'];
+const REVERSIBILITY = ['easy', 'moderate', 'hard'];
+const OPTIONAL_STAGES = ['uncertainty', 'premortem'];
+const DOMINANCE_ORDERS = ['first', 'second'];
+const CONSTRAINT_KINDS = ['max', 'min', 'required', 'min-score'];
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNum = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isUnit = (u: unknown) =>
+  isObject(u) &&
+  ((u.kind === 'currency' && typeof u.code === 'string' && /^[A-Z]{3}$/.test(u.code)) ||
+    (u.kind === 'time' && TIME_PERIODS.includes(u.period)) ||
+    u.kind === 'count' ||
+    u.kind === 'percent' ||
+    (u.kind === 'custom' && typeof u.label === 'string'));
+const UNIT_RULE = `must be a currency with a three-letter code, a time in ${TIME_PERIODS.join(', ')}, count, percent or a custom label`;
+
+export function exportDecision(decision: DecisionState, pretty = true): string {
+  const file: DecisionFile = {
+    format: DECISION_FILE_FORMAT,
+    version: DECISION_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    decision,
+  };
+  return JSON.stringify(file, null, pretty ? 2 : undefined);
+}
+
+export function decisionFileName(decision: DecisionState): string {
+  const slug = decision.statement
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 48);
+  return `${slug || 'decision'}.decision.json`;
+}
+
+function migrate(doc: any): { doc: any; migratedFrom: number | null } {
+  const isEnvelope = isObject(doc) && doc.format === DECISION_FILE_FORMAT;
+  let version = isEnvelope ? doc.version : 0;
+  const from = version;
+  while (version < DECISION_SCHEMA_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) break;
+    doc = step(doc);
+    version = doc.version;
+  }
+  return { doc, migratedFrom: from === DECISION_SCHEMA_VERSION ? null : from };
+}
+
+export function validateTemplate(t: unknown, path = 'template'): FieldError[] {
+  const errors: FieldError[] = [];
+  const err = (field: string, message: string) => errors.push({ field: `${path}.${field}`, message });
+
+  if (!isObject(t)) return [{ field: path, message: 'must be an object' }];
+
+  if (typeof t.id !== 'string' || !t.id.trim()) err('id', 'must be a non-empty string');
+  if (typeof t.name !== 'string' || !t.name.trim()) err('name', 'must be a non-empty string');
+  if (t.description !== undefined && typeof t.description !== 'string') err('description', 'must be a string');
+
+  if (!Array.isArray(t.criteria) || t.criteria.length < 2 || t.criteria.length > 5) {
+    err('criteria', 'must be an array of 2 to 5 criteria');
+  } else {
+    t.criteria.forEach((c: any, i: number) => {
+      if (!isObject(c)) return err(`criteria[${i}]`, 'must be an object');
+      if (typeof c.name !== 'string' || !c.name.trim()) err(`criteria[${i}].name`, 'must be a non-empty string');
+      if (!isNum(c.weight) || c.weight < 0) err(`criteria[${i}].weight`, 'must be a non-negative percentage');
+    });
+    const sum = t.criteria.reduce((s: number, c: any) => s + (isNum(c?.weight) ? c.weight : 0), 0);
+    if (Math.abs(sum - 100) > 0.5) err('criteria', `weights must sum to 100 (currently ${sum})`);
+  }
+
+  if (t.suggestedAlternatives !== undefined) {
+    if (!Array.isArray(t.suggestedAlternatives) || t.suggestedAlternatives.length > 5)
+      err('suggestedAlternatives', 'must be an array of at most 5 names');
+    else
+      t.suggestedAlternatives.forEach((a: any, i: number) => {
+        if (typeof a !== 'string' || !a.trim()) err(`suggestedAlternatives[${i}]`, 'must be a non-empty string');
+      });
+  }
+
+  if (t.thresholdHint !== undefined && (!isNum(t.thresholdHint) || t.thresholdHint <= 0))
+    err('thresholdHint', 'must be a positive number');
+  if (t.reversibilityHint !== undefined && !REVERSIBILITY.includes(t.reversibilityHint))
+    err('reversibilityHint', `must be one of ${REVERSIBILITY.join(', ')}`);
+
+  if (t.stages !== undefined) {
+    if (!isObject(t.stages)) {
+      err('stages', 'must be an object');
+    } else {
+      for (const [stage, mode] of Object.entries(t.stages)) {
+        if (!OPTIONAL_STAGES.includes(stage)) err(`stages.${stage}`, `only ${OPTIONAL_STAGES.join(' and ')} can be toggled`);
+        if (mode !== 'include' && mode !== 'skip') err(`stages.${stage}`, 'must be "include" or "skip"');
+      }
+    }
+  }
+
+  return errors;
+}
+
+export function parseTemplateFile(text: string): { template: DecisionTemplate | null; errors: FieldError[] } {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch (e: any) {
+    return { template: null, errors: [{ field: '(file)', message: `is not valid JSON: ${e.message}` }] };
+  }
+  const errors = validateTemplate(raw);
+  if (errors.length) return { template: null, errors };
+  return {
+    template: { description: '', suggestedAlternatives: [], ...raw, id: raw.id.trim(), name: raw.name.trim() },
+    errors: [],
+  };
+}
+
+function checkSimulation(r: any, field: string, err: (field: string, message: string) => void): void {
+  if (!isObject(r)) return err(field, 'must be null or a simulation result');
+  for (const k of ['mean', 'median', 'p10', 'p90']) {
+    if (!isNum(r[k])) err(`${field}.${k}`, 'must be a number');
+  }
+  if (!isNum(r.probLoss) || r.probLoss < 0 || r.probLoss > 1) err(`${field}.probLoss`, 'must be a probability between 0 and 1');
+  if (r.seed !== undefined && !isValidSeed(r.seed)) err(`${field}.seed`, 'must be an unsigned 32-bit integer');
+  if (r.trials !== undefined && (!Number.isInteger(r.trials) || r.trials < 1)) err(`${field}.trials`, 'must be a positive integer');
+  if (r.distribution !== undefined) {
+    const problem = isObject(r.distribution) ? checkDistribution(r.distribution as any) : 'Not an object.';
+    if (problem) err(`${field}.distribution`, `is invalid: ${problem}`);
+  }
+  if (r.drivers !== undefined) {
+    if (!Array.isArray(r.drivers)) return err(`${field}.drivers`, 'must be an array');
+    r.drivers.forEach((s: any, i: number) => {
+      if (!isObject(s) || typeof s.name !== 'string') return err(`${field}.drivers[${i}]`, 'must be an object with a name');
+      if (!isNum(s.correlation) || Math.abs(s.correlation) > 1) err(`${field}.drivers[${i}].correlation`, 'must be a number between -1 and 1');
+      if (!isNum(s.contribution) || s.contribution < 0 || s.contribution > 1)
+        err(`${field}.drivers[${i}].contribution`, 'must be a share between 0 and 1');
+    });
+  }
+  if (r.cashFlow !== undefined) {
+    const cf = r.cashFlow;
+    const isSummary = (v: any) => isObject(v) && ['mean', 'median', 'p10', 'p90'].every((k) => isNum(v[k]));
+    if (!isObject(cf)) return err(`${field}.cashFlow`, 'must be an object');
+    if (!isNum(cf.rate)) err(`${field}.cashFlow.rate`, 'must be a number');
+    for (const k of ['irr', 'payback']) {
+      if (cf[k] !== null && !isSummary(cf[k])) err(`${field}.cashFlow.${k}`, 'must be null or a summary with mean, median, p10 and p90');
+    }
+    for (const k of ['irrDefined', 'paidBack']) {
+      if (!isNum(cf[k]) || cf[k] < 0 || cf[k] > 1) err(`${field}.cashFlow.${k}`, 'must be a share between 0 and 1');
+    }
+    if (!Array.isArray(cf.years) || !cf.years.every(isSummary)) err(`${field}.cashFlow.years`, 'must be an array of yearly summaries');
+  }
+  if (r.histogram !== undefined) {
+    const h = r.histogram;
+    if (!isObject(h) || !isNum(h.lo) || !isNum(h.hi) || h.lo > h.hi) err(`${field}.histogram`, 'must have numeric lo <= hi');
+    else if (!Array.isArray(h.bins) || !h.bins.length || !h.bins.every((v: unknown) => isNum(v) && v >= 0 && v <= 1))
+      err(`${field}.histogram.bins`, 'must be a non-empty array of shares between 0 and 1');
+  }
+  if (r.cdf !== undefined) {
+    const ok = Array.isArray(r.cdf) && r.cdf.length === 101 && r.cdf.every((v: unknown, k: number) => isNum(v) && (k === 0 || v >= r.cdf[k - 1]));
+    if (!ok) err(`${field}.cdf`, 'must be 101 non-decreasing percentiles');
+  }
+}
+
+export function validateDecision(d: unknown, path = 'decision'): FieldError[] {
+  const errors: FieldError[] = [];
+  const err = (field: string, message: string) => errors.push({ field: `${path}.${field}`, message });
+
+  if (!isObject(d)) return [{ field: path, message: 'must be an object' }];
+
+  if (typeof d.statement !== 'string') err('statement', 'must be a string');
+  if (typeof d.objectives !== 'string') err('objectives', 'must be a string');
+
+  const altIds = new Set<string>();
+  if (!Array.isArray(d.alternatives)) {
+    err('alternatives', 'must be an array');
+  } else {
+    d.alternatives.forEach((a: any, i: number) => {
+      if (!isObject(a)) return err(`alternatives[${i}]`, 'must be an object');
+      if (typeof a.id !== 'string' || !a.id) err(`alternatives[${i}].id`, 'must be a non-empty string');
+      else if (altIds.has(a.id)) err(`alternatives[${i}].id`, `duplicates id "${a.id}"`);
+      else altIds.add(a.id);
+      if (typeof a.name !== 'string') err(`alternatives[${i}].name`, 'must be a string');
+    });
+  }
+
+  const s = d.screening;
+  const constraintKinds = new Map<string, string>();
+  if (!isObject(s) || !Array.isArray(s.constraints)) {
+    err('screening.constraints', 'must be an array');
+  } else {
+    s.constraints.forEach((c: any, i: number) => {
+      const field = `screening.constraints[${i}]`;
+      if (!isObject(c)) return err(field, 'must be an object');
+      if (typeof c.id !== 'string' || !c.id) err(`${field}.id`, 'must be a non-empty string');
+      else if (constraintKinds.has(c.id)) err(`${field}.id`, `duplicates id "${c.id}"`);
+      else constraintKinds.set(c.id, c.kind);
+      if (!CONSTRAINT_KINDS.includes(c.kind)) err(`${field}.kind`, `must be one of ${CONSTRAINT_KINDS.join(', ')}`);
+      if (typeof c.label !== 'string') err(`${field}.label`, 'must be a string');
+      if (c.limit !== undefined && !isNum(c.limit)) err(`${field}.limit`, 'must be a number');
+      if (c.kind === 'min-score' && isNum(c.limit) && (c.limit < 1 || c.limit > 10)) err(`${field}.limit`, 'must be a score from 1 to 10');
+      if (c.unit !== undefined && !isUnit(c.unit)) err(`${field}.unit`, UNIT_RULE);
+      if (typeof c.dealbreaker !== 'boolean') err(`${field}.dealbreaker`, 'must be true or false');
+    });
+    if (!isObject(s.values)) {
+      err('screening.values', 'must be an object keyed by alternative id');
+    } else {
+      for (const [altId, row] of Object.entries(s.values)) {
+        if (!altIds.has(altId)) err(`screening.values.${altId}`, 'refers to an unknown alternative');
+        if (!isObject(row)) {
+          err(`screening.values.${altId}`, 'must be an object keyed by constraint id');
+          continue;
+        }
+        for (const [id, v] of Object.entries(row)) {
+          const kind = constraintKinds.get(id);
+          if (!kind) err(`screening.values.${altId}.${id}`, 'refers to an unknown constraint');
+          else if (kind === 'required' ? typeof v !== 'boolean' : !isNum(v))
+            err(`screening.values.${altId}.${id}`, kind === 'required' ? 'must be true or false' : 'must be a number');
+        }
+      }
+    }
+  }
+
+  const critIds = new Set<string>();
+  if (!Array.isArray(d.criteria)) {
+    err('criteria', 'must be an array');
+  } else {
+    d.criteria.forEach((c: any, i: number) => {
+      if (!isObject(c)) return err(`criteria[${i}]`, 'must be an object');
+      if (typeof c.id !== 'string' || !c.id) err(`criteria[${i}].id`, 'must be a non-empty string');
+      else if (critIds.has(c.id)) err(`criteria[${i}].id`, `duplicates id "${c.id}"`);
+      else critIds.add(c.id);
+      if (typeof c.name !== 'string') err(`criteria[${i}].name`, 'must be a string');
+      if (!isNum(c.weight) || c.weight < 0 || c.weight > 1) err(`criteria[${i}].weight`, 'must be a number between 0 and 1');
+    });
+  }
+
+  const w = d.weighting;
+  if (!isObject(w) || !Object.keys(WEIGHT_METHOD_LABELS).includes(w.method))
+    err('weighting.method', `must be one of ${Object.keys(WEIGHT_METHOD_LABELS).join(', ')}`);
+  else {
+    if (w.consistencyRatio !== undefined && (!isNum(w.consistencyRatio) || w.consistencyRatio < 0))
+      err('weighting.consistencyRatio', 'must be a non-negative number');
+    if (w.judgements !== undefined) {
+      if (!isObject(w.judgements)) err('weighting.judgements', 'must be an object keyed by criterion id pairs');
+      else
+        for (const [key, v] of Object.entries(w.judgements))
+          if (!isNum(v) || v < 1 / 9 || v > 9) err(`weighting.judgements.${key}`, 'must be a number from 1/9 to 9');
+    }
+    if (w.swingPoints !== undefined) {
+      if (!isObject(w.swingPoints)) err('weighting.swingPoints', 'must be an object keyed by criterion id');
+      else
+        for (const [id, v] of Object.entries(w.swingPoints))
+          if (!isNum(v) || v < 0 || v > 100) err(`weighting.swingPoints.${id}`, 'must be a number between 0 and 100');
+    }
+  }
+
+  if (!isObject(d.scores)) {
+    err('scores', 'must be an object keyed by alternative id');
+  } else {
+    for (const [altId, row] of Object.entries(d.scores)) {
+      if (!altIds.has(altId)) err(`scores.${altId}`, 'refers to an unknown alternative');
+      if (!isObject(row)) {
+        err(`scores.${altId}`, 'must be an object keyed by criterion id');
+        continue;
+      }
+      for (const [critId, v] of Object.entries(row)) {
+        if (!critIds.has(critId)) err(`scores.${altId}.${critId}`, 'refers to an unknown criterion');
+        if (!isNum(v) || v < 1 || v > 10) err(`scores.${altId}.${critId}`, 'must be a number from 1 to 10');
+      }
+    }
+  }
+
+  if (!isObject(d.scoreRanges)) {
+    err('scoreRanges', 'must be an object keyed by alternative id');
+  } else {
+    for (const [altId, row] of Object.entries(d.scoreRanges)) {
+      if (!altIds.has(altId)) err(`scoreRanges.${altId}`, 'refers to an unknown alternative');
+      if (!isObject(row)) {
+        err(`scoreRanges.${altId}`, 'must be an object keyed by criterion id');
+        continue;
+      }
+      for (const [critId, r] of Object.entries(row)) {
+        if (!critIds.has(critId)) err(`scoreRanges.${altId}.${critId}`, 'refers to an unknown criterion');
+        if (!isObject(r) || !isNum(r.low) || !isNum(r.high) || r.low < 1 || r.high > 10 || r.low > r.high)
+          err(`scoreRanges.${altId}.${critId}`, 'must have a low and high from 1 to 10, low <= high');
+      }
+    }
+  }
+
+  if (!AGGREGATION_METHODS.includes(d.aggregation)) err('aggregation', `must be one of ${AGGREGATION_METHODS.join(', ')}`);
+
+  if (d.mcResult !== null) checkSimulation(d.mcResult, 'mcResult', err);
+
+  if (d.comparison !== null) {
+    const c = d.comparison;
+    if (!isObject(c)) {
+      err('comparison', 'must be null or an outcome comparison');
+    } else {
+      if (!isValidSeed(c.seed)) err('comparison.seed', 'must be an unsigned 32-bit integer');
+      if (!Number.isInteger(c.trials) || c.trials < 1) err('comparison.trials', 'must be a positive integer');
+      if (!Array.isArray(c.range) || c.range.length !== 2 || !c.range.every(isNum))
+        err('comparison.range', 'must be a [low, high] pair of numbers');
+      const simulated = new Set<string>();
+      if (!Array.isArray(c.alternatives) || c.alternatives.length === 0) {
+        err('comparison.alternatives', 'must be a non-empty array');
+      } else {
+        c.alternatives.forEach((a: any, i: number) => {
+          const at = `comparison.alternatives[${i}]`;
+          if (!isObject(a)) return err(at, 'must be an object');
+          if (typeof a.id !== 'string' || !altIds.has(a.id)) err(`${at}.id`, 'must match one of the alternatives');
+          else simulated.add(a.id);
+          if (typeof a.name !== 'string') err(`${at}.name`, 'must be a string');
+          if (!isNum(a.probBest) || a.probBest < 0 || a.probBest > 1) err(`${at}.probBest`, 'must be a probability between 0 and 1');
+          if (!Array.isArray(a.histogram) || !a.histogram.every(isNum)) err(`${at}.histogram`, 'must be an array of numbers');
+          if (!isObject(a.result)) err(`${at}.result`, 'must be a simulation result');
+          else checkSimulation(a.result, `${at}.result`, err);
+        });
+      }
+      if (!Array.isArray(c.dominance)) {
+        err('comparison.dominance', 'must be an array');
+      } else {
+        c.dominance.forEach((f: any, i: number) => {
+          if (!isObject(f) || !simulated.has(f.dominant) || !simulated.has(f.dominated) || !DOMINANCE_ORDERS.includes(f.order))
+            err(`comparison.dominance[${i}]`, 'must name two simulated alternatives and an order of first or second');
+        });
+      }
+      if (c.information !== undefined) {
+        const info = c.information;
+        if (!isObject(info) || !isNum(info.evpi) || info.evpi < 0) {
+          err('comparison.information', 'must have a non-negative evpi');
+        } else if (!Array.isArray(info.partial)) {
+          err('comparison.information.partial', 'must be an array');
+        } else {
+          info.partial.forEach((p: any, i: number) => {
+            if (!isObject(p) || !simulated.has(p.alternative) || (p.input !== undefined && typeof p.input !== 'string') || !isNum(p.value))
+              err(`comparison.information.partial[${i}]`, 'must name a simulated alternative, an optional input and a value');
+          });
+        }
+      }
+    }
+  }
+
+  if (!isUnit(d.unit)) err('unit', UNIT_RULE);
+
+  if (!Array.isArray(d.risks)) {
+    err('risks', 'must be an array');
+  } else {
+    d.risks.forEach((r: any, i: number) => {
+      if (!isObject(r)) return err(`risks[${i}]`, 'must be an object');
+      if (typeof r.description !== 'string') err(`risks[${i}].description`, 'must be a string');
+      if (!RISK_THEMES.includes(r.theme)) err(`risks[${i}].theme`, `must be one of ${RISK_THEMES.join(', ')}`);
+      if (!LEVELS.includes(r.likelihood)) err(`risks[${i}].likelihood`, 'must be low, medium or high');
+      if (!LEVELS.includes(r.impact)) err(`risks[${i}].impact`, 'must be low, medium or high');
+      if (typeof r.mitigation !== 'string') err(`risks[${i}].mitigation`, 'must be a string');
+    });
+  }
+
+  if (d.topChoice !== null) {
+    if (!isObject(d.topChoice)) {
+      err('topChoice', 'must be null or an object');
+    } else {
+      if (typeof d.topChoice.id !== 'string' || (altIds.size > 0 && !altIds.has(d.topChoice.id)))
+        err('topChoice.id', 'must match one of the alternatives');
+      if (typeof d.topChoice.name !== 'string') err('topChoice.name', 'must be a string');
+      for (const k of ['bestCase', 'mostLikely', 'worstCase']) {
+        if (!isNum(d.topChoice[k])) err(`topChoice.${k}`, 'must be a number');
+      }
+    }
+  }
+
+  if (d.template !== null) errors.push(...validateTemplate(d.template, `${path}.template`));
+
+  if (!isObject(d.meta)) {
+    err('meta', 'must be an object');
+  } else {
+    if (!isNum(d.meta.threshold) || d.meta.threshold < 0) err('meta.threshold', 'must be a non-negative number');
+    if (typeof d.meta.reversibility !== 'string') err('meta.reversibility', 'must be a string');
+    if (typeof d.meta.reversibilityLabel !== 'string') err('meta.reversibilityLabel', 'must be a string');
+  }
+
+  return errors;
+}
+
+/**
+ * Brings a decision stored without a file envelope (a saved session or library record)
+ * up to the current schema and validates it. Records from before the stored version was
+ * kept count as version 1; every later migration only fills in missing fields.
+ */
+export function upgradeDecision(decision: unknown, version = 1): DecisionFileResult {
+  if (!Number.isInteger(version) || version < 1 || version > DECISION_SCHEMA_VERSION)
+    return rejected([{ field: 'version', message: `must be a schema version from 1 to ${DECISION_SCHEMA_VERSION}` }]);
+  const { doc, migratedFrom } = migrate({ format: DECISION_FILE_FORMAT, version, exportedAt: new Date(0).toISOString(), decision });
+  const errors = validateDecision(doc.decision);
+  if (errors.length) return rejected(errors);
+  return { decision: doc.decision as DecisionState, errors: [], migratedFrom };
+}
+
+export function parseDecisionFile(text: string): DecisionFileResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e: any) {
+    return rejected([{ field: '(file)', message: `is not valid JSON: ${e.message}` }]);
+  }
+
+  if (isObject(raw) && raw.format === DECISION_FILE_FORMAT) {
+    if (!Number.isInteger(raw.version) || raw.version < 1)
+      return rejected([{ field: 'version', message: 'must be a positive integer' }]);
+    if (raw.version > DECISION_SCHEMA_VERSION)
+      return rejected([
+        { field: 'version', message: `${raw.version} is newer than this app supports (${DECISION_SCHEMA_VERSION})` },
+      ]);
+  }
+
+  const { doc, migratedFrom } = migrate(raw);
+  const errors = validateDecision(doc.decision);
+  if (errors.length) return rejected(errors);
+  const exportedAt = isObject(raw) && typeof raw.exportedAt === 'string' ? new Date(raw.exportedAt) : null;
+  return {
+    decision: doc.decision as DecisionState,
+    errors: [],
+    migratedFrom,
+    ...(exportedAt && !isNaN(exportedAt.getTime()) && { exportedAt }),
+  };
+}
@@ -0,0 +1,203 @@
+import { DecisionState, DecisionTemplate } from '../types';
+import { DECISION_SCHEMA_VERSION, upgradeDecision } from './decisionFile';
+// ══════════════════════════════════════
+// LOCAL SESSION PERSISTENCE
+// ══════════════════════════════════════
+const SESSION_KEY = 'yellowlights.decisionLab.session';
+export const SESSION_SCHEMA_VERSION = 1;
+
+export interface StoredSession {
+  version: number;
+  savedAt: string;
+  stageId: string;
+  decision: DecisionState;
+  // Decision schema version it was saved at; absent before it was kept, which means 1
+  decisionVersion?: number;
+}
+
+function getStorage(): Storage | null {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch {
+    // Storage can throw in private mode or when cookies are blocked
+    return null;
+  }
+}
+
+export function loadSession(): StoredSession | null {
+  const storage = getStorage();
+  if (!storage) return null;
+  try {
+    const raw = storage.getItem(SESSION_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    if (parsed?.version !== SESSION_SCHEMA_VERSION || !parsed.decision || typeof parsed.stageId !== 'string') {
+      storage.removeItem(SESSION_KEY);
+      return null;
+    }
+    const { decision, errors } = upgradeDecision(parsed.decision, parsed.decisionVersion);
+    if (!decision) {
+      console.error('Session restore error:', errors);
+      storage.removeItem(SESSION_KEY);
+      return null;
+    }
+    return { ...parsed, decision, decisionVersion: DECISION_SCHEMA_VERSION } as StoredSession;
+  } catch (e) {
+    console.error('Session restore error:', e);
+    return null;
+  }
+}
+
+export function saveSession(decision: DecisionState, stageId: string): void {
+  const storage = getStorage();
+  if (!storage) return;
+  const session: StoredSession = {
+    version: SESSION_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    stageId,
+    decision,
+    decisionVersion: DECISION_SCHEMA_VERSION,
+  };
+  try {
+    storage.setItem(SESSION_KEY, JSON.stringify(session));
+  } catch (e) {
+    console.error('Session save error:', e);
+  }
+}
+
+export function clearSession(): void {
+  getStorage()?.removeItem(SESSION_KEY);
+}
+// ══════════════════════════════════════
+// DECISION LIBRARY
+// ══════════════════════════════════════
+const LIBRARY_KEY = 'yellowlights.decisionLab.library';
+export const LIBRARY_SCHEMA_VERSION = 1;
+
+export interface LibraryRecord {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  archived: boolean;
+  stageId: string;
+  decision: DecisionState;
+  // Decision schema version it was saved at; absent before it was kept, which means 1
+  decisionVersion?: number;
+}
+
+// Brings a record's decision up to the current schema; null when it no longer validates
+function upgradeRecord(record: any): LibraryRecord | null {
+  if (typeof record?.id !== 'string') return null;
+  const { decision, errors } = upgradeDecision(record.decision, record.decisionVersion);
+  if (!decision) {
+    console.error(`Library record "${record.name}" dropped:`, errors);
+    return null;
+  }
+  return { ...record, decision, decisionVersion: DECISION_SCHEMA_VERSION };
+}
+
+function readLibrary(): LibraryRecord[] {
+  const storage = getStorage();
+  if (!storage) return [];
+  try {
+    const raw = storage.getItem(LIBRARY_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (parsed?.version !== LIBRARY_SCHEMA_VERSION || !Array.isArray(parsed.records)) return [];
+    return parsed.records.map(upgradeRecord).filter((r: LibraryRecord | null): r is LibraryRecord => r !== null);
+  } catch (e) {
+    console.error('Library read error:', e);
+    return [];
+  }
+}
+
+function writeLibrary(records: LibraryRecord[]): void {
+  const storage = getStorage();
+  if (!storage) return;
+  try {
+    storage.setItem(LIBRARY_KEY, JSON.stringify({ version: LIBRARY_SCHEMA_VERSION, records }));
+  } catch (e) {
+    console.error('Library save error:', e);
+  }
+}
+
+const newRecordId = () => `d_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+export function listDecisions(): LibraryRecord[] {
+  return readLibrary().sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function getDecision(id: string): LibraryRecord | null {
+  return readLibrary().find((r) => r.id === id) || null;
+}
+
+export function createDecision(name: string, decision: DecisionState, stageId: string): LibraryRecord {
+  const now = new Date().toISOString();
+  const record: LibraryRecord = {
+    id: newRecordId(),
+    name: name.trim() || 'Untitled decision',
+    createdAt: now,
+    updatedAt: now,
+    archived: false,
+    stageId,
+    decision,
+    decisionVersion: DECISION_SCHEMA_VERSION,
+  };
+  writeLibrary([...readLibrary(), record]);
+  return record;
+}
+
+export function updateDecision(
+  id: string,
+  changes: Partial<Pick<LibraryRecord, 'name' | 'archived' | 'stageId' | 'decision'>>
+): void {
+  const records = readLibrary();
+  const idx = records.findIndex((r) => r.id === id);
+  if (idx === -1) return;
+  const next = { ...records[idx], ...changes };
+  // Opening a record re-saves identical state; don't let that bump its date
+  if (JSON.stringify(next) === JSON.stringify(records[idx])) return;
+  records[idx] = { ...next, updatedAt: new Date().toISOString() };
+  writeLibrary(records);
+}
+
+export function duplicateDecision(id: string): LibraryRecord | null {
+  const source = getDecision(id);
+  if (!source) return null;
+  return createDecision(`${source.name} (copy)`, source.decision, source.stageId);
+}
+
+export function deleteDecision(id: string): void {
+  writeLibrary(readLibrary().filter((r) => r.id !== id));
+}
+// ══════════════════════════════════════
+// CUSTOM TEMPLATES
+// ══════════════════════════════════════
+const TEMPLATES_KEY = 'yellowlights.decisionLab.templates';
+
+export function listCustomTemplates(): DecisionTemplate[] {
+  const storage = getStorage();
+  if (!storage) return [];
+  try {
+    const parsed = JSON.parse(storage.getItem(TEMPLATES_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error('Template read error:', e);
+    return [];
+  }
+}
+
+// Saving a template with an existing id replaces it
+export function saveCustomTemplate(template: DecisionTemplate): void {
+  const next = [...listCustomTemplates().filter((t) => t.id !== template.id), template];
+  try {
+    getStorage()?.setItem(TEMPLATES_KEY, JSON.stringify(next));
+  } catch (e) {
+    console.error('Template save error:', e);
+  }
+}
+
+export function deleteCustomTemplate(id: string): void {
+  getStorage()?.setItem(TEMPLATES_KEY, JSON.stringify(listCustomTemplates().filter((t) => t.id !== id)));
+}
@@ -0,0 +1,63 @@
+import { DecisionState } from '../types';
+import { DecisionFileResult, exportDecision, parseDecisionFile } from './decisionFile';
+// ══════════════════════════════════════
+// SHAREABLE MEMO LINKS
+// ══════════════════════════════════════
+// The whole decision travels in the URL fragment, which browsers never send to the server.
+const SHARE_PATH = '/memo';
+
+// Fragment prefixes: 'z' = deflate-raw compressed, 'j' = plain JSON (no CompressionStream support)
+const COMPRESSED = 'z';
+const PLAIN = 'j';
+
+function toBase64Url(bytes: Uint8Array): string {
+  let bin = '';
+  for (let i = 0; i < bytes.length; i++) bin += String.fromCharCode(bytes[i]);
+  return btoa(bin).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const b64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const bin = atob(b64 + '='.repeat((4 - (b64.length % 4)) % 4));
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return bytes;
+}
+
+async function pipeThrough(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const out = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(out).arrayBuffer());
+}
+
+export async function encodeShareFragment(decision: DecisionState): Promise<string> {
+  const bytes = new TextEncoder().encode(exportDecision(decision, false));
+  if (typeof CompressionStream === 'undefined') return PLAIN + toBase64Url(bytes);
+  return COMPRESSED + toBase64Url(await pipeThrough(bytes, new CompressionStream('deflate-raw')));
+}
+
+export async function decodeShareFragment(fragment: string): Promise<DecisionFileResult> {
+  const body = fragment.replace(/^#/, '');
+  const invalid = (message: string): DecisionFileResult => ({
+    decision: null,
+    errors: [{ field: '(link)', message }],
+    migratedFrom: null,
+  });
+  if (!body) return invalid('contains no decision');
+  try {
+    let bytes = fromBase64Url(body.slice(1));
+    if (body[0] === COMPRESSED) {
+      if (typeof DecompressionStream === 'undefined') return invalid('needs a browser that supports DecompressionStream');
+      bytes = await pipeThrough(bytes, new DecompressionStream('deflate-raw'));
+    } else if (body[0] !== PLAIN) {
+      return invalid('uses an unknown encoding');
+    }
+    return parseDecisionFile(new TextDecoder().decode(bytes));
+  } catch (e) {
+    console.error('Share link decode error:', e);
+    return invalid('is truncated or corrupted');
+  }
+}
+
+export async function buildShareUrl(decision: DecisionState): Promise<string> {
+  return `${window.location.origin}${SHARE_PATH}#${await encodeShareFragment(decision)}`;
+}
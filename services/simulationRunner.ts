@@ -0,0 +1,96 @@
+import { OutcomeComparison, SimulationResult } from '../types';
+import { ProgressCallback, SimulationEntry, simulateAlternatives } from '../engine';
+// ══════════════════════════════════════
+// BACKGROUND SIMULATION
+// ══════════════════════════════════════
+// Large runs would freeze the page, so they go to a Web Worker. Where workers are
+// unavailable the same engine call runs on the main thread instead.
+
+export interface SimulationJob {
+  entries: SimulationEntry[];
+  trials: number;
+  seed: number;
+}
+
+export interface SimulationOutput {
+  result: SimulationResult;
+  comparison: OutcomeComparison | null;
+}
+
+export type WorkerMessage =
+  | { type: 'progress'; fraction: number }
+  | { type: 'done'; output: SimulationOutput }
+  | { type: 'error'; message: string };
+
+export interface SimulationRun {
+  /** Resolves with the output, or with null once cancelled. Rejects if the simulation itself fails. */
+  output: Promise<SimulationOutput | null>;
+  cancel: () => void;
+}
+
+function startWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null;
+  try {
+    return new Worker(new URL('./simulationWorker.ts', import.meta.url), { type: 'module' });
+  } catch (e) {
+    console.error('Simulation worker unavailable:', e);
+    return null;
+  }
+}
+
+// Blocks the page while it runs, so progress can't repaint and cancelling only discards
+// the result; the timeout lets the "running" state paint first
+function runOnMainThread(
+  job: SimulationJob,
+  onProgress: ProgressCallback,
+  isCancelled: () => boolean
+): Promise<SimulationOutput | null> {
+  return new Promise((resolve, reject) =>
+    setTimeout(() => {
+      if (isCancelled()) return resolve(null);
+      try {
+        const output = simulateAlternatives(job.entries, job.trials, job.seed, onProgress);
+        resolve(isCancelled() ? null : output);
+      } catch (e) {
+        reject(e);
+      }
+    }, 50)
+  );
+}
+
+export function runSimulationJob(job: SimulationJob, onProgress: ProgressCallback): SimulationRun {
+  let cancelled = false;
+  let settle: (output: SimulationOutput | null) => void = () => {};
+  const worker = startWorker();
+
+  const output = new Promise<SimulationOutput | null>((resolve, reject) => {
+    settle = resolve;
+    const fallback = () => runOnMainThread(job, onProgress, () => cancelled).then(resolve, reject);
+    if (!worker) return fallback();
+
+    worker.onmessage = (e: MessageEvent<WorkerMessage>) => {
+      const message = e.data;
+      if (message.type === 'progress') return onProgress(message.fraction);
+      worker.terminate();
+      if (message.type === 'done') resolve(message.output);
+      else reject(new Error(message.message));
+    };
+    // A worker that fails to load (blocked by CSP, unsupported module workers) hands over to the main thread
+    worker.onerror = (e) => {
+      e.preventDefault();
+      console.error('Simulation worker failed, running on the main thread:', e.message);
+      worker.terminate();
+      if (!cancelled) fallback();
+    };
+    worker.postMessage(job);
+  });
+
+  return {
+    output,
+    cancel: () => {
+      cancelled = true;
+      worker?.terminate();
+      settle(null);
+    },
+  };
+}
@@ -0,0 +1,20 @@
+import { simulateAlternatives } from '../engine';
+import { SimulationJob, WorkerMessage } from './simulationRunner';
+// ══════════════════════════════════════
+// SIMULATION WORKER
+// ══════════════════════════════════════
+// Runs one job per worker; the runner terminates the worker to cancel it.
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<SimulationJob>) => void) | null;
+  postMessage: (message: WorkerMessage) => void;
+};
+
+scope.onmessage = (e) => {
+  const { entries, trials, seed } = e.data;
+  try {
+    const output = simulateAlternatives(entries, trials, seed, (fraction) => scope.postMessage({ type: 'progress', fraction }));
+    scope.postMessage({ type: 'done', output });
+  } catch (err: any) {
+    scope.postMessage({ type: 'error', message: err?.message || String(err) });
+  }
+};
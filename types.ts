@@ -49,23 +49,240 @@ export interface Risk {
   mitigation: string;
 }
 
+export interface DiscreteScenario {
+  label: string;
+  value: number;
+  probability: number;
+}
+
+// A single uncertain quantity; also the shape of each driver inside an outcome model
+export type SimpleDistribution =
+  | { kind: 'triangular'; min: number; mode: number; max: number }
+  | { kind: 'pert'; min: number; mode: number; max: number }
+  | { kind: 'uniform'; min: number; max: number }
+  | { kind: 'normal'; mean: number; sd: number }
+  | { kind: 'lognormal'; median: number; p90: number }
+  | { kind: 'discrete'; scenarios: DiscreteScenario[] };
+
+export interface OutcomeDriver {
+  // Identifier the formula refers to, e.g. "units"
+  name: string;
+  distribution: SimpleDistribution;
+}
+
+// Spearman rank correlation between two drivers, by name
+export interface DriverCorrelation {
+  a: string;
+  b: string;
+  rho: number;
+}
+
+// Outcome distribution for an alternative; the Uncertainty stage samples whichever kind was picked.
+// A model computes the outcome from a formula over several, possibly correlated, drivers.
+// A cash flow outcome is the NPV of yearly flows: flows[0] lands now, flows[t] after t years,
+// each drawn independently and discounted at `rate` (a fraction, 0.08 for 8%).
+export type OutcomeDistribution =
+  | SimpleDistribution
+  | { kind: 'model'; formula: string; drivers: OutcomeDriver[]; correlations: DriverCorrelation[] }
+  | { kind: 'cashflow'; rate: number; flows: SimpleDistribution[] };
+
+export type DistributionKind = OutcomeDistribution['kind'];
+
+// 95% margins of error for each estimate, from the spread across batches of trials
+export interface SimulationConvergence {
+  mean: number;
+  p10: number;
+  p90: number;
+  probLoss: number;
+}
+
+// How much of the outcome's variance a model driver accounts for, from its rank correlation with the outcome
+export interface DriverSensitivity {
+  name: string;
+  correlation: number;
+  // Squared correlation as a share of all drivers' total, 0–1
+  contribution: number;
+}
+
+// Spread of a derived metric, or of one year's flow, across trials
+export interface MetricSummary {
+  mean: number;
+  median: number;
+  p10: number;
+  p90: number;
+}
+
+// Derived metrics for a cash flow outcome; the result's own mean, P10 etc. describe its NPV
+export interface CashFlowMetrics {
+  rate: number;
+  // Over trials where the flows have an IRR; irrDefined is the share that do
+  irr: MetricSummary | null;
+  irrDefined: number;
+  // Years until cumulative undiscounted cash turns non-negative, over trials that pay back
+  // within the horizon; paidBack is the share that do
+  payback: MetricSummary | null;
+  paidBack: number;
+  // One summary per year, year 0 first
+  years: MetricSummary[];
+}
+
+export interface OutcomeHistogram {
+  // Bins split [lo, hi] evenly; lo and hi are P1 and P99, so the outer 1% tails fall outside
+  lo: number;
+  hi: number;
+  // Share of trials per bin
+  bins: number[];
+}
+
 export interface SimulationResult {
   mean: number;
   median: number;
   p10: number;
   p90: number;
   probLoss: number;
+  // Absent on results saved before runs were seeded
+  seed?: number;
+  trials?: number;
+  convergence?: SimulationConvergence;
+  distribution?: OutcomeDistribution;
+  // Only for model distributions, largest contribution first
+  drivers?: DriverSensitivity[];
+  // Only for cash flow distributions
+  cashFlow?: CashFlowMetrics;
+  histogram?: OutcomeHistogram;
+  // Empirical CDF as its inverse: cdf[k] is the k-th percentile, P0 (minimum) through P100 (maximum)
+  cdf?: number[];
+}
+
+export interface AlternativeOutcome {
+  id: string;
+  name: string;
+  result: SimulationResult;
+  // Share of trials in which this alternative drew the highest outcome
+  probBest: number;
+  // Share of trials per bin over the comparison's shared range
+  histogram: number[];
+}
+
+export interface DominanceFinding {
+  dominant: string;
+  dominated: string;
+  order: 'first' | 'second';
+}
+
+// What learning one uncertainty before choosing is worth in expectation: an alternative's
+// whole outcome, or a single driver or cash flow year within it
+export interface InformationValue {
+  alternative: string;
+  // Driver name or "year 2 cash flow"; absent when the alternative's whole outcome is resolved
+  input?: string;
+  value: number;
+}
+
+export interface ValueOfInformation {
+  // Expected value of perfect information: knowing every outcome before choosing
+  evpi: number;
+  // Expected value of partial perfect information per uncertainty, largest first
+  partial: InformationValue[];
+}
+
+// Every simulated alternative, top choice first, sampled independently with the same trial count
+export interface OutcomeComparison {
+  seed: number;
+  trials: number;
+  range: [number, number];
+  alternatives: AlternativeOutcome[];
+  dominance: DominanceFinding[];
+  // Absent on comparisons saved before it was computed
+  information?: ValueOfInformation;
+}
+
+export interface DecisionTemplate {
+  id: string;
+  name: string;
+  description: string;
+  // Weights are percentages and must sum to 100
+  criteria: { name: string; weight: number }[];
+  suggestedAlternatives: string[];
+  thresholdHint?: number;
+  reversibilityHint?: 'easy' | 'moderate' | 'hard';
+  stages?: Partial<Record<'uncertainty' | 'premortem', 'include' | 'skip'>>;
+}
+
+export type TimePeriod = 'hours' | 'days' | 'weeks' | 'months' | 'years';
+
+// What outcomes are measured in. Numbers are stored bare; the unit only changes how they read.
+// Percent outcomes are stored as points, so 12 means 12%.
+export type OutcomeUnit =
+  | { kind: 'currency'; code: string }
+  | { kind: 'time'; period: TimePeriod }
+  | { kind: 'count' }
+  | { kind: 'percent' }
+  | { kind: 'custom'; label: string };
+
+// A must-have checked before scoring. `max` and `min` bound a number entered per
+// alternative, `required` is a yes/no, and `min-score` is a floor on the criterion
+// named by `label`, matched by name because criteria are set after screening.
+export type ConstraintKind = 'max' | 'min' | 'required' | 'min-score';
+
+export interface Constraint {
+  id: string;
+  kind: ConstraintKind;
+  label: string;
+  /** The bound for `max`, `min` and `min-score`; scores are on the 1–10 scale. */
+  limit?: number;
+  /** What `max` and `min` values are measured in; plain numbers when absent. */
+  unit?: OutcomeUnit;
+  /** Failing a dealbreaker screens the alternative out; failing anything else only flags it. */
+  dealbreaker: boolean;
+}
+
+export interface Screening {
+  constraints: Constraint[];
+  // Per alternative, then per constraint: a number for max/min, true or false for required
+  values: Record<string, Record<string, number | boolean>>;
+}
+
+export type WeightMethod = 'manual' | 'ahp' | 'swing' | 'rank-order-centroid' | 'rank-sum';
+
+/** How the criteria weights were elicited, so the memo can say so. */
+export interface WeightElicitation {
+  method: WeightMethod;
+  /** Saaty consistency ratio of the pairwise judgements; AHP only. */
+  consistencyRatio?: number;
+  /** Pairwise judgements keyed `rowId:columnId` in criteria order, 1/9 to 9; AHP only. */
+  judgements?: Record<string, number>;
+  /** Points on the 0–100 swing scale by criterion id; swing only. */
+  swingPoints?: Record<string, number>;
+}
+
+// How scores and weights combine into a ranking: compensatory weighted average, distance
+// to the ideal (TOPSIS) or pairwise outranking (PROMETHEE II)
+export type AggregationMethod = 'weighted-sum' | 'topsis' | 'promethee';
+
+/** Plausible low and high for one score cell, both on the 1–10 scale. */
+export interface ScoreRange {
+  low: number;
+  high: number;
 }
 
 export interface DecisionState {
   statement: string;
   objectives: string;
   alternatives: Alternative[];
+  screening: Screening;
   criteria: Criterion[];
+  weighting: WeightElicitation;
   scores: Record<string, Record<string, number>>;
+  // Optional ranges around individual scores, keyed like `scores`; the point score stays the best guess
+  scoreRanges: Record<string, Record<string, ScoreRange>>;
+  aggregation: AggregationMethod;
   mcResult: SimulationResult | null;
   risks: Risk[];
   topChoice: { id: string; name: string; bestCase: number; mostLikely: number; worstCase: number } | null;
+  template: DecisionTemplate | null;
+  comparison: OutcomeComparison | null;
+  unit: OutcomeUnit;
   meta: {
     threshold: number;
     reversibility: string;